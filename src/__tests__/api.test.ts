@@ -1,6 +1,10 @@
 import request from 'supertest';
 import app from '../index';
 import { HolidaysService, HolidayServiceStatus } from '../holidays';
+import { CalendarRegistry } from '../calendars';
+import { ErrorCodes } from '../types';
+import { AuditLog } from '../auditLog';
+import { ParameterSpec } from '../apiSchema';
 
 describe('API Endpoints', () => {
   let mockGetColombianHolidays: jest.SpyInstance;
@@ -28,6 +32,16 @@ describe('API Endpoints', () => {
       expect(response.body.status).toBe('OK');
       expect(response.body.timestamp).toBeDefined();
     });
+
+    test('should report the loaded calendars', async () => {
+      const response = await request(app)
+        .get('/health')
+        .expect(200);
+
+      expect(response.body.calendars).toEqual([
+        expect.objectContaining({ name: 'default', holidaySource: 'API', holidayStatus: 'HEALTHY' }),
+      ]);
+    });
   });
 
   describe('GET /calculate-business-time', () => {
@@ -48,6 +62,15 @@ describe('API Endpoints', () => {
       expect(response.body.error).toBe('NegativeValues');
     });
 
+    test('should return 400 for offsets that are too large', async () => {
+      const response = await request(app)
+        .get('/calculate-business-time?days=100000')
+        .expect(400);
+
+      expect(response.body.error).toBe('OffsetTooLarge');
+      expect(response.body.message).toBe('Days parameter must be at most 25000 business days');
+    });
+
     test('should return 400 for invalid date format', async () => {
       const response = await request(app)
         .get('/calculate-business-time?days=1&date=invalid-date')
@@ -123,6 +146,114 @@ describe('API Endpoints', () => {
       });
     });
 
+    test('should subtract business time when direction is backward', async () => {
+      const response = await request(app)
+        .get('/calculate-business-time?hours=1&date=2025-08-04T14:00:00Z&direction=backward')
+        .expect(200);
+
+      expect(response.body.date).toBe('2025-08-04T13:00:00.000Z');
+    });
+
+    test('should return 400 for invalid direction', async () => {
+      const response = await request(app)
+        .get('/calculate-business-time?hours=1&direction=up')
+        .expect(400);
+
+      expect(response.body.error).toBe('InvalidParameters');
+    });
+
+    test('should report how the start date was adjusted', async () => {
+      const response = await request(app)
+        .get('/calculate-business-time?hours=1&date=2025-08-02T19:00:00Z&approximation=forward') // Saturday 2 PM Colombia time
+        .expect(200);
+
+      expect(response.body.date).toBe('2025-08-04T14:00:00.000Z');
+      expect(response.body.adjustment).toEqual({
+        start: '2025-08-04T13:00:00.000Z',
+        reason: 'Moved to next business day (weekend/holiday)',
+      });
+    });
+
+    test('should reject a start outside business time in strict mode', async () => {
+      const outside = await request(app)
+        .get('/calculate-business-time?hours=1&date=2025-08-02T19:00:00Z&approximation=strict')
+        .expect(400);
+      const inside = await request(app)
+        .get('/calculate-business-time?hours=1&date=2025-08-01T13:00:00Z&approximation=strict')
+        .expect(200);
+
+      expect(outside.body.error).toBe('OutsideBusinessTime');
+      expect(inside.body).toEqual({ date: '2025-08-01T14:00:00.000Z' });
+    });
+
+    test('should apply a custom schedule from query parameters', async () => {
+      const response = await request(app)
+        .get('/calculate-business-time?hours=2&date=2025-08-01T20:00:00Z&workStart=7&workEnd=16&lunch=none')
+        .expect(200);
+
+      expect(response.body.date).toBe('2025-08-04T13:00:00.000Z');
+    });
+
+    test('should calculate across a night shift given as segments', async () => {
+      const response = await request(app)
+        .get('/calculate-business-time?hours=8&date=2025-08-02T04:00:00Z&segments=22:00-06:00') // Friday 11 PM Colombia time
+        .expect(200);
+
+      expect(response.body.date).toBe('2025-08-05T04:00:00.000Z'); // Monday 11 PM Colombia time
+    });
+
+    test('should return 400 for an invalid schedule', async () => {
+      const response = await request(app)
+        .get('/calculate-business-time?hours=2&workStart=17&workEnd=8')
+        .expect(400);
+
+      expect(response.body.error).toBe('InvalidSchedule');
+    });
+
+    test('should use the selected calendar profile', async () => {
+      CalendarRegistry.configure({
+        calendars: {
+          support: { workingHours: { start: 7, end: 16 }, closures: [{ date: '2025-08-04', name: 'Company closure' }] }
+        }
+      });
+
+      const response = await request(app)
+        .get('/calculate-business-time?hours=2&date=2025-08-01T20:00:00Z&calendar=support')
+        .expect(200);
+
+      CalendarRegistry.reset();
+
+      // Friday 3 PM + 2 hours skips the Monday closure → Tuesday 8 AM Colombia time
+      expect(response.body.date).toBe('2025-08-05T13:00:00.000Z');
+    });
+
+    test('should return 400 for an unknown calendar', async () => {
+      const response = await request(app)
+        .get('/calculate-business-time?hours=2&calendar=unknown')
+        .expect(400);
+
+      expect(response.body.error).toBe('UnknownCalendar');
+      expect(response.body.message).toContain('default');
+    });
+
+    test('should use the holidays and timezone of the requested country', async () => {
+      // Monday 2025-02-03 is Constitution Day in Mexico; Friday 4 PM + 2 hours → Tuesday 9 AM Mexico City time
+      const response = await request(app)
+        .get('/calculate-business-time?hours=2&date=2025-01-31T22:00:00Z&country=MX')
+        .expect(200);
+
+      expect(response.body.date).toBe('2025-02-04T15:00:00.000Z');
+      expect(response.headers['x-holiday-data-source']).toBe('COMPUTED');
+    });
+
+    test('should return 400 for an unsupported country', async () => {
+      const response = await request(app)
+        .get('/calculate-business-time?hours=2&country=AR')
+        .expect(400);
+
+      expect(response.body.error).toBe('UnknownCountry');
+    });
+
     test('should accept hours parameter with decimals as integers', async () => {
       const response = await request(app)
         .get('/calculate-business-time?hours=8&date=2025-08-01T08:00:00Z')
@@ -132,6 +263,804 @@ describe('API Endpoints', () => {
     });
   });
 
+  describe('GET /calculate-business-time with minute-level durations', () => {
+    test('should add decimal hours', async () => {
+      const response = await request(app)
+        .get('/calculate-business-time?hours=1.5&date=2025-08-01T13:00:00Z')
+        .expect(200);
+
+      expect(response.body.date).toBe('2025-08-01T14:30:00.000Z');
+    });
+
+    test('should add minutes', async () => {
+      const response = await request(app)
+        .get('/calculate-business-time?minutes=90&date=2025-08-01T13:00:00Z')
+        .expect(200);
+
+      expect(response.body.date).toBe('2025-08-01T14:30:00.000Z');
+    });
+
+    test('should add an ISO 8601 duration', async () => {
+      const response = await request(app)
+        .get('/calculate-business-time?duration=P1DT1H30M&date=2025-08-01T13:00:00Z')
+        .expect(200);
+
+      expect(response.body.date).toBe('2025-08-04T14:30:00.000Z');
+    });
+
+    test('should return 400 for an invalid duration', async () => {
+      const response = await request(app)
+        .get('/calculate-business-time?duration=P1M')
+        .expect(400);
+
+      expect(response.body.error).toBe('InvalidDuration');
+    });
+  });
+
+  describe('GET /calculate-business-time with explain', () => {
+    test('should explain each day crossed with holiday names and breaks', async () => {
+      const response = await request(app)
+        .get('/calculate-business-time?hours=8&date=2025-04-16T20:00:00Z&explain=true') // Wednesday 3 PM before Easter
+        .expect(200);
+
+      const { explanation } = response.body;
+      expect(response.body.date).toBe('2025-04-21T20:00:00.000Z'); // Monday 3 PM
+      expect(explanation.adjustedStart).toBe('2025-04-16T20:00:00.000Z');
+      expect(explanation.adjustmentReason).toBeNull();
+      expect(explanation.totalMinutes).toBe(480);
+      expect(explanation.days.map((day: { date: string; type: string }) => `${day.date} ${day.type}`)).toEqual([
+        '2025-04-16 BUSINESS_DAY',
+        '2025-04-17 HOLIDAY',
+        '2025-04-18 HOLIDAY',
+        '2025-04-19 WEEKEND',
+        '2025-04-20 WEEKEND',
+        '2025-04-21 BUSINESS_DAY',
+      ]);
+      expect(explanation.days[0].minutes).toBe(120);
+      expect(explanation.days[1].holidays).toEqual(['Maundy Thursday']);
+      expect(explanation.days[5]).toEqual({
+        date: '2025-04-21',
+        type: 'BUSINESS_DAY',
+        minutes: 360,
+        worked: [
+          { start: '2025-04-21T13:00:00.000Z', end: '2025-04-21T17:00:00.000Z' },
+          { start: '2025-04-21T18:00:00.000Z', end: '2025-04-21T20:00:00.000Z' },
+        ],
+        breaks: [{ start: '2025-04-21T17:00:00.000Z', end: '2025-04-21T18:00:00.000Z' }],
+      });
+      expect(explanation.holidayData).toEqual({
+        calendar: 'default',
+        country: 'CO',
+        source: 'API',
+        status: 'HEALTHY',
+        lastUpdated: expect.any(String),
+        version: HolidaysService.getDatasetVersion(['2025-04-17', '2025-04-18', '2025-12-25']),
+      });
+    });
+
+    test('should explain the start adjustment and list days backwards', async () => {
+      const response = await request(app)
+        .get('/calculate-business-time?hours=2&date=2025-08-02T19:00:00Z&direction=backward&explain=true') // Saturday
+        .expect(200);
+
+      const { explanation } = response.body;
+      expect(response.body.date).toBe('2025-08-01T20:00:00.000Z'); // Friday 3 PM
+      expect(explanation.start).toBe('2025-08-02T19:00:00.000Z');
+      expect(explanation.adjustedStart).toBe('2025-08-04T13:00:00.000Z'); // Monday 8 AM
+      expect(explanation.adjustmentReason).toBe(response.body.adjustment.reason);
+      expect(explanation.direction).toBe('backward');
+      expect(explanation.days.map((day: { date: string; minutes: number }) => `${day.date} ${day.minutes}`)).toEqual([
+        '2025-08-04 0',
+        '2025-08-03 0',
+        '2025-08-02 0',
+        '2025-08-01 120',
+      ]);
+    });
+
+    test('should not explain unless asked', async () => {
+      const response = await request(app)
+        .get('/calculate-business-time?hours=2&date=2025-08-01T14:00:00Z&explain=false')
+        .expect(200);
+
+      expect(response.body.explanation).toBeUndefined();
+    });
+
+    test('should return 400 for an invalid explain value', async () => {
+      const response = await request(app)
+        .get('/calculate-business-time?hours=2&explain=yes')
+        .expect(400);
+
+      expect(response.body.error).toBe('InvalidParameters');
+      expect(response.body.message).toBe('Explain parameter must be true or false');
+    });
+  });
+
+  describe('POST /calculate-business-time/batch', () => {
+    test('should return per-item results in request order', async () => {
+      const response = await request(app)
+        .post('/calculate-business-time/batch')
+        .send([
+          { id: 'T-1', date: '2025-08-01T13:00:00Z', hours: 2 },
+          { id: 'T-2', date: '2025-08-01T13:00:00Z', days: '1' },
+          { id: 3, date: '2025-08-01T13:00:00Z', minutes: 90 },
+        ])
+        .expect(200);
+
+      expect(response.body.results).toEqual([
+        { id: 'T-1', date: '2025-08-01T15:00:00.000Z' },
+        { id: 'T-2', date: '2025-08-04T13:00:00.000Z' },
+        { id: 3, date: '2025-08-01T14:30:00.000Z' },
+      ]);
+    });
+
+    test('should fetch holidays once for the whole batch', async () => {
+      await request(app)
+        .post('/calculate-business-time/batch')
+        .send([
+          { id: 1, date: '2025-04-16T13:00:00Z', days: 1 },
+          { id: 2, date: '2025-12-24T13:00:00Z', days: 1 },
+        ])
+        .expect(200);
+
+      expect(mockGetColombianHolidays).toHaveBeenCalledTimes(1);
+    });
+
+    test('should reject items outside business time in strict mode', async () => {
+      const response = await request(app)
+        .post('/calculate-business-time/batch')
+        .send([
+          { id: 'open', date: '2025-08-01T13:00:00Z', hours: 1, approximation: 'strict' },
+          { id: 'weekend', date: '2025-08-02T13:00:00Z', hours: 1, approximation: 'strict' },
+        ])
+        .expect(200);
+
+      expect(response.body.results[0]).toEqual({ id: 'open', date: '2025-08-01T14:00:00.000Z' });
+      expect(response.body.results[1].error.error).toBe('OutsideBusinessTime');
+    });
+
+    test('should report per-item errors without failing the batch', async () => {
+      const response = await request(app)
+        .post('/calculate-business-time/batch')
+        .send([
+          { id: 'ok', date: '2025-08-01T13:00:00Z', hours: 1 },
+          { id: 'negative', hours: -1 },
+          { id: 'bad-date', date: '2025-08-01', hours: 1 },
+          'not-an-object',
+        ])
+        .expect(200);
+
+      expect(response.body.results[0]).toEqual({ id: 'ok', date: '2025-08-01T14:00:00.000Z' });
+      expect(response.body.results[1].error.error).toBe('NegativeValues');
+      expect(response.body.results[2].error.error).toBe('InvalidDateFormat');
+      expect(response.body.results[3].error.error).toBe('InvalidParameters');
+    });
+
+    test('should return 400 when the body is not a non-empty array', async () => {
+      const response = await request(app)
+        .post('/calculate-business-time/batch')
+        .send({ hours: 1 })
+        .expect(400);
+
+      expect(response.body.error).toBe('InvalidParameters');
+    });
+
+    test('should return 400 when the body is not valid JSON', async () => {
+      const response = await request(app)
+        .post('/calculate-business-time/batch')
+        .set('Content-Type', 'application/json')
+        .send('[{"id": 1, "hours": 1}')
+        .expect(400);
+
+      expect(response.body).toEqual({ error: 'InvalidParameters', message: 'Request body must be valid JSON' });
+    });
+
+    test('should return 413 when the batch exceeds the size limit', async () => {
+      const items = Array.from({ length: 1001 }, (_, index) => ({ id: index, hours: 1 }));
+
+      const response = await request(app)
+        .post('/calculate-business-time/batch')
+        .send(items)
+        .expect(413);
+
+      expect(response.body.error).toBe('BatchTooLarge');
+    });
+  });
+
+  describe('POST /sla/deadline', () => {
+    test('should return the shifted due date and remaining minutes', async () => {
+      const response = await request(app)
+        .post('/sla/deadline')
+        .send({
+          start: '2025-08-04T13:00:00Z',
+          hours: 8,
+          now: '2025-08-05T13:00:00Z',
+          pauses: [{ start: '2025-08-04T15:00:00Z', end: '2025-08-04T16:00:00Z' }],
+        })
+        .expect(200);
+
+      expect(response.body).toEqual({
+        start: '2025-08-04T13:00:00.000Z',
+        now: '2025-08-05T13:00:00.000Z',
+        dueDate: '2025-08-05T14:00:00.000Z',
+        pausedMinutes: 60,
+        remainingMinutes: 60,
+        breached: false,
+        paused: false,
+      });
+    });
+
+    test('should match the calculation endpoint without pauses', async () => {
+      const calculation = await request(app)
+        .get('/calculate-business-time?days=5&hours=4&date=2025-04-10T15:00:00.000Z')
+        .expect(200);
+
+      const sla = await request(app)
+        .post('/sla/deadline')
+        .send({ start: '2025-04-10T15:00:00.000Z', days: 5, hours: 4, now: '2025-04-10T15:00:00.000Z' })
+        .expect(200);
+
+      expect(sla.body.dueDate).toBe(calculation.body.date);
+    });
+
+    test('should return 400 when the body is not valid JSON', async () => {
+      const response = await request(app)
+        .post('/sla/deadline')
+        .set('Content-Type', 'application/json')
+        .send('{"start": "2025-08-04T13:00:00Z", "hours": }')
+        .expect(400);
+
+      expect(response.body).toEqual({ error: 'InvalidParameters', message: 'Request body must be valid JSON' });
+    });
+
+    test('should return 400 when now is too far from start', async () => {
+      const response = await request(app)
+        .post('/sla/deadline')
+        .send({ start: '2025-08-04T13:00:00Z', hours: 8, now: '9999-01-01T00:00:00Z' })
+        .expect(400);
+
+      expect(response.body.error).toBe('OffsetTooLarge');
+    });
+
+    test('should return 400 for a missing budget', async () => {
+      const response = await request(app)
+        .post('/sla/deadline')
+        .send({ start: '2025-08-04T13:00:00Z' })
+        .expect(400);
+
+      expect(response.body.error).toBe('InvalidParameters');
+    });
+  });
+
+  describe('GET /business-status', () => {
+    test('should report an open segment', async () => {
+      const response = await request(app)
+        .get('/business-status?date=2025-08-04T19:00:00Z')
+        .expect(200);
+
+      expect(response.body).toEqual({
+        date: '2025-08-04T19:00:00.000Z',
+        isBusinessTime: true,
+        reason: null,
+        currentSegment: { start: '2025-08-04T18:00:00.000Z', end: '2025-08-04T22:00:00.000Z' },
+        nextOpen: '2025-08-05T13:00:00.000Z',
+        nextClose: '2025-08-04T22:00:00.000Z',
+      });
+    });
+
+    test('should name the holiday and the next opening', async () => {
+      const response = await request(app)
+        .get('/business-status?date=2025-12-25T15:00:00Z')
+        .expect(200);
+
+      expect(response.body).toEqual(expect.objectContaining({
+        isBusinessTime: false,
+        reason: 'HOLIDAY',
+        holiday: 'Christmas Day',
+        currentSegment: null,
+        nextOpen: '2025-12-26T13:00:00.000Z',
+        nextClose: '2025-12-26T17:00:00.000Z',
+      }));
+    });
+
+    test('should return 400 for an invalid date', async () => {
+      const response = await request(app)
+        .get('/business-status?date=2025-08-04')
+        .expect(400);
+
+      expect(response.body.error).toBe('InvalidDateFormat');
+    });
+  });
+
+  describe('Calendar admin endpoints', () => {
+    const auth = { Authorization: 'Bearer test-admin-token' };
+
+    beforeEach(() => {
+      process.env.ADMIN_TOKEN = 'test-admin-token';
+    });
+
+    afterEach(() => {
+      delete process.env.ADMIN_TOKEN;
+      CalendarRegistry.reset();
+    });
+
+    test('should require the admin token', async () => {
+      await request(app).put('/admin/calendars/default/closures/2025-12-24').expect(401);
+      await request(app)
+        .put('/admin/calendars/default/closures/2025-12-24')
+        .set({ Authorization: 'Bearer wrong' })
+        .expect(401);
+      await request(app)
+        .put('/admin/calendars/default/closures/2025-12-24')
+        .set({ Authorization: 'Bearer test-admin-tokeN' }) // same length as the token
+        .expect(401);
+
+      delete process.env.ADMIN_TOKEN;
+      const response = await request(app)
+        .get('/admin/calendars/default/overrides')
+        .set(auth)
+        .expect(401);
+
+      expect(response.body.error).toBe('Unauthorized');
+    });
+
+    test('should apply a closure to the calculations', async () => {
+      const response = await request(app)
+        .put('/admin/calendars/default/closures/2025-08-04')
+        .set(auth)
+        .send({ name: 'Collective vacation' })
+        .expect(200);
+
+      expect(response.body.closures).toEqual([{ date: '2025-08-04', name: 'Collective vacation' }]);
+
+      // Friday 3 PM + 4 hours skips the Monday closure → Tuesday 10 AM Colombia time
+      const calculation = await request(app)
+        .get('/calculate-business-time?hours=4&date=2025-08-01T20:00:00Z')
+        .expect(200);
+
+      expect(calculation.body.date).toBe('2025-08-05T15:00:00.000Z');
+    });
+
+    test('should apply a working date to the calculations', async () => {
+      await request(app)
+        .put('/admin/calendars/default/working-dates/2025-08-02')
+        .set(auth)
+        .send({ name: 'Bridge compensation' })
+        .expect(200);
+
+      // Friday 3 PM + 4 hours continues on the working Saturday → Saturday 10 AM Colombia time
+      const calculation = await request(app)
+        .get('/calculate-business-time?hours=4&date=2025-08-01T20:00:00Z')
+        .expect(200);
+
+      expect(calculation.body.date).toBe('2025-08-02T15:00:00.000Z');
+    });
+
+    test('should report a working date on a holiday as after hours once it closes', async () => {
+      await request(app).put('/admin/calendars/default/working-dates/2025-12-25').set(auth).expect(200);
+
+      const response = await request(app)
+        .get('/business-status?date=2025-12-25T23:00:00Z') // Christmas 6 PM Colombia time
+        .expect(200);
+
+      expect(response.body).toEqual(expect.objectContaining({
+        isBusinessTime: false,
+        reason: 'AFTER_HOURS',
+        nextOpen: '2025-12-26T13:00:00.000Z',
+      }));
+      expect(response.body.holiday).toBeUndefined();
+    });
+
+    test('should remove overrides and report missing ones', async () => {
+      await request(app).put('/admin/calendars/default/closures/2025-12-24').set(auth).expect(200);
+
+      const response = await request(app)
+        .delete('/admin/calendars/default/closures/2025-12-24')
+        .set(auth)
+        .expect(200);
+
+      expect(response.body.closures).toEqual([]);
+      await request(app).delete('/admin/calendars/default/closures/2025-12-24').set(auth).expect(404);
+    });
+
+    test('should validate the calendar and date', async () => {
+      const unknown = await request(app).put('/admin/calendars/unknown/closures/2025-12-24').set(auth).expect(404);
+      const badDate = await request(app).put('/admin/calendars/default/closures/24-12-2025').set(auth).expect(400);
+
+      expect(unknown.body.error).toBe('UnknownCalendar');
+      expect(badDate.body.error).toBe('InvalidDateFormat');
+    });
+  });
+
+  describe('Holiday admin endpoints', () => {
+    const auth = { Authorization: 'Bearer test-admin-token', 'X-Admin-User': 'ops@example.test' };
+
+    beforeEach(() => {
+      process.env.ADMIN_TOKEN = 'test-admin-token';
+    });
+
+    afterEach(() => {
+      delete process.env.ADMIN_TOKEN;
+      HolidaysService.reset();
+      AuditLog.reset();
+    });
+
+    test('should require the admin token', async () => {
+      await request(app).post('/admin/holidays/CO/refresh').expect(401);
+      await request(app).put('/admin/holidays/CO/override').send({ holidays: ['2026-03-20'] }).expect(401);
+      await request(app).get('/admin/audit').expect(401);
+    });
+
+    test('should apply a holiday override to the calculations until removed', async () => {
+      const response = await request(app)
+        .put('/admin/holidays/pe/override')
+        .set(auth)
+        .send({ holidays: ['2026-03-20'], reason: 'Decreed holiday' })
+        .expect(200);
+
+      expect(response.body.country).toBe('PE');
+      expect(response.body.override).toMatchObject({ mode: 'merge', holidays: ['2026-03-20'], reason: 'Decreed holiday', expiresAt: null });
+
+      // Thursday 4:30 PM Lima + 1 hour skips the decreed Friday → Monday 8:30 AM Lima time
+      const calculation = await request(app)
+        .get('/calculate-business-time?hours=1&date=2026-03-19T21:30:00Z&country=PE')
+        .expect(200);
+      expect(calculation.body.date).toBe('2026-03-23T13:30:00.000Z');
+
+      await request(app).delete('/admin/holidays/PE/override').set(auth).expect(200);
+      await request(app).delete('/admin/holidays/PE/override').set(auth).expect(404);
+
+      const holidays = await request(app).get('/holidays?country=PE&from=2026-03-20&to=2026-03-20').expect(200);
+      expect(holidays.body.holidays).toEqual([]);
+    });
+
+    test('should validate the override', async () => {
+      const badDate = await request(app).put('/admin/holidays/CO/override').set(auth).send({ holidays: ['20-03-2026'] }).expect(400);
+      const badMode = await request(app).put('/admin/holidays/CO/override').set(auth).send({ holidays: ['2026-03-20'], mode: 'replace' }).expect(400);
+      const expired = await request(app)
+        .put('/admin/holidays/CO/override')
+        .set(auth)
+        .send({ holidays: ['2026-03-20'], expiresAt: '2020-01-01T00:00:00Z' })
+        .expect(400);
+      const unknown = await request(app).put('/admin/holidays/XX/override').set(auth).send({ holidays: ['2026-03-20'] }).expect(404);
+
+      expect(badDate.body.error).toBe('InvalidDateFormat');
+      expect(badMode.body.error).toBe('InvalidParameters');
+      expect(expired.body.error).toBe('InvalidDateRange');
+      expect(unknown.body.error).toBe('UnknownCountry');
+    });
+
+    test('should reset an open circuit breaker', async () => {
+      jest.spyOn(HolidaysService, 'getServiceStatus').mockReturnValueOnce({
+        ...HolidaysService.getServiceStatus('CO'),
+        circuitState: 'OPEN',
+        failures: 3
+      });
+
+      const response = await request(app).post('/admin/holidays/CO/circuit-breaker/reset').set(auth).expect(200);
+
+      expect(response.body.service.circuitState).toBe('CLOSED');
+      expect(AuditLog.list()[0]).toMatchObject({
+        action: 'circuit_breaker_reset',
+        target: 'CO',
+        actor: 'ops@example.test',
+        details: { previousState: 'OPEN', failures: 3 }
+      });
+    });
+
+    test('should record every admin action in the audit trail', async () => {
+      await request(app).post('/admin/holidays/MX/refresh').set(auth).expect(200);
+      await request(app).delete('/admin/holidays/MX/cache').set(auth).expect(200);
+      await request(app)
+        .put('/admin/calendars/default/closures/2025-12-24')
+        .set({ Authorization: 'Bearer test-admin-token' })
+        .expect(200);
+      CalendarRegistry.reset();
+
+      const response = await request(app).get('/admin/audit?limit=2').set(auth).expect(200);
+
+      expect(response.body.entries.map((entry: { action: string }) => entry.action))
+        .toEqual(['calendar_override_set', 'holiday_cache_cleared']);
+      expect(response.body.entries[0]).toMatchObject({ target: 'default', actor: null });
+      expect(response.body.entries[1].requestId).toEqual(expect.any(String));
+      await request(app).get('/admin/audit?limit=0').set(auth).expect(400);
+    });
+  });
+
+  describe('GET /holidays', () => {
+    test('should list named holidays from the calculation source', async () => {
+      const response = await request(app)
+        .get('/holidays?year=2025')
+        .expect(200);
+
+      expect(response.body).toEqual(expect.objectContaining({
+        country: 'CO',
+        calendar: 'default',
+        from: '2025-01-01',
+        to: '2025-12-31',
+        source: 'API',
+        status: 'HEALTHY',
+      }));
+      expect(response.body.holidays).toEqual([
+        { date: '2025-04-17', originalDate: '2025-04-17', name: 'Maundy Thursday', category: 'EASTER' },
+        { date: '2025-04-18', originalDate: '2025-04-18', name: 'Good Friday', category: 'EASTER' },
+        { date: '2025-12-25', originalDate: '2025-12-25', name: 'Christmas Day', category: 'FIXED' },
+      ]);
+    });
+
+    test('should filter by from/to and label dates without a matching rule', async () => {
+      mockGetColombianHolidays.mockResolvedValueOnce({
+        holidays: ['2025-03-10', '2025-04-18', '2025-12-25'],
+        status: HolidayServiceStatus.DEGRADED,
+        source: 'CACHE',
+        lastUpdated: Date.now()
+      });
+
+      const response = await request(app)
+        .get('/holidays?from=2025-03-01&to=2025-04-30')
+        .expect(200);
+
+      expect(response.body.source).toBe('CACHE');
+      expect(response.body.holidays).toEqual([
+        { date: '2025-03-10', originalDate: '2025-03-10', name: 'Holiday', category: 'EXTERNAL' },
+        { date: '2025-04-18', originalDate: '2025-04-18', name: 'Good Friday', category: 'EASTER' },
+      ]);
+    });
+
+    test('should list computed holidays for another country', async () => {
+      const response = await request(app)
+        .get('/holidays?year=2025&country=MX')
+        .expect(200);
+
+      expect(response.body.source).toBe('COMPUTED');
+      expect(response.body.holidays).toContainEqual({
+        date: '2025-11-17', originalDate: '2025-11-20', name: 'Revolution Day', category: 'MOVABLE',
+      });
+    });
+
+    test('should include calendar closures', async () => {
+      CalendarRegistry.configure({
+        calendars: { support: { closures: [{ date: '2025-12-24', name: 'Christmas Eve' }] } }
+      });
+
+      const response = await request(app)
+        .get('/holidays?from=2025-12-01&to=2025-12-31&calendar=support')
+        .expect(200);
+
+      CalendarRegistry.reset();
+
+      expect(response.body.calendar).toBe('support');
+      expect(response.body.holidays).toEqual([
+        { date: '2025-12-24', originalDate: '2025-12-24', name: 'Christmas Eve', category: 'CLOSURE' },
+        { date: '2025-12-25', originalDate: '2025-12-25', name: 'Christmas Day', category: 'FIXED' },
+      ]);
+    });
+
+    test('should return 400 for an invalid range', async () => {
+      const response = await request(app)
+        .get('/holidays?from=2025-05-01&to=2025-04-01')
+        .expect(400);
+
+      expect(response.body.error).toBe('InvalidDateRange');
+    });
+  });
+
+  describe('GET /calendar.ics', () => {
+    test('should export holidays as all-day events with stable UIDs', async () => {
+      const response = await request(app)
+        .get('/calendar.ics?from=2025-04-01&to=2025-04-30')
+        .expect('Content-Type', /text\/calendar/)
+        .expect(200);
+
+      const lines = response.text.split('\r\n');
+      expect(lines[0]).toBe('BEGIN:VCALENDAR');
+      expect(lines).toContain('UID:holiday-20250417-default@fechas-habiles-api');
+      expect(lines).toContain('DTSTART;VALUE=DATE:20250418');
+      expect(lines).toContain('DTEND;VALUE=DATE:20250419');
+      expect(lines).toContain('SUMMARY:Good Friday');
+      expect(lines).not.toContain('SUMMARY:Christmas Day');
+      expect(response.headers['x-holiday-data-source']).toBe('API');
+    });
+
+    test('should export closures and working hours of a calendar', async () => {
+      CalendarRegistry.configure({
+        calendars: { support: { closures: [{ date: '2025-12-24', name: 'Christmas Eve, office closed' }] } }
+      });
+
+      const response = await request(app)
+        .get('/calendar.ics?from=2025-12-24&to=2025-12-26&calendar=support&workingHours=true')
+        .expect(200);
+
+      CalendarRegistry.reset();
+
+      const lines = response.text.split('\r\n');
+      expect(lines).toContain('UID:closure-20251224-support@fechas-habiles-api');
+      expect(lines).toContain('SUMMARY:Christmas Eve\\, office closed');
+      // Only December 26 is a business day: 8-12 and 13-17 Colombia time
+      expect(lines.filter((line) => line.startsWith('DTSTART:'))).toEqual([
+        'DTSTART:20251226T130000Z',
+        'DTSTART:20251226T180000Z',
+      ]);
+      expect(lines).toContain('UID:work-20251226T130000Z-support@fechas-habiles-api');
+    });
+
+    test('should return 400 for an invalid workingHours flag', async () => {
+      const response = await request(app)
+        .get('/calendar.ics?year=2025&workingHours=yes')
+        .expect(400);
+
+      expect(response.body.error).toBe('InvalidParameters');
+    });
+  });
+
+  describe('GET /business-time-between', () => {
+    test('should return the business duration between two dates', async () => {
+      const response = await request(app)
+        .get('/business-time-between?start=2025-08-01T21:00:00Z&end=2025-08-04T15:30:00Z')
+        .expect(200);
+
+      expect(response.body).toEqual({
+        start: '2025-08-01T21:00:00.000Z',
+        end: '2025-08-04T15:30:00.000Z',
+        totalMinutes: 210,
+        days: 0,
+        hours: 3,
+        minutes: 30
+      });
+      expect(response.headers['x-holiday-data-source']).toBe('API');
+    });
+
+    test('should return 400 when end is before start', async () => {
+      const response = await request(app)
+        .get('/business-time-between?start=2025-08-04T15:30:00Z&end=2025-08-01T21:00:00Z')
+        .expect(400);
+
+      expect(response.body.error).toBe('InvalidDateRange');
+    });
+
+    test('should return 400 when start and end are more than about 100 years apart', async () => {
+      const response = await request(app)
+        .get('/business-time-between?start=1925-01-01T00:00:00Z&end=2125-01-01T00:00:00Z')
+        .expect(400);
+
+      expect(response.body.error).toBe('OffsetTooLarge');
+    });
+
+    test('should return 400 when a parameter is missing', async () => {
+      const response = await request(app)
+        .get('/business-time-between?start=2025-08-01T21:00:00Z')
+        .expect(400);
+
+      expect(response.body.error).toBe('InvalidParameters');
+    });
+  });
+
+  describe('Request IDs', () => {
+    test('should echo an incoming X-Request-Id', async () => {
+      const response = await request(app)
+        .get('/health')
+        .set('X-Request-Id', 'req-42')
+        .expect(200);
+
+      expect(response.headers['x-request-id']).toBe('req-42');
+    });
+
+    test('should generate a request ID when none or an invalid one is sent', async () => {
+      const generated = await request(app).get('/health').expect(200);
+      const replaced = await request(app).get('/health').set('X-Request-Id', 'bad id with spaces').expect(200);
+
+      expect(generated.headers['x-request-id']).toMatch(/^[0-9a-f-]{36}$/);
+      expect(replaced.headers['x-request-id']).toMatch(/^[0-9a-f-]{36}$/);
+    });
+
+    test('should log the calculation with the request ID', async () => {
+      const log = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+
+      await request(app)
+        .get('/calculate-business-time?hours=1&date=2025-08-01T21:30:00.000Z')
+        .set('X-Request-Id', 'calc-1')
+        .expect(200);
+
+      const entries = log.mock.calls.map(([line]) => JSON.parse(line as string));
+      log.mockRestore();
+
+      expect(entries).toContainEqual(expect.objectContaining({
+        event: 'business_time_calculated',
+        requestId: 'calc-1',
+        start: '2025-08-01T21:30:00.000Z',
+        result: '2025-08-04T13:30:00.000Z',
+      }));
+      expect(entries).toContainEqual(expect.objectContaining({
+        event: 'http_request',
+        requestId: 'calc-1',
+        route: '/calculate-business-time',
+        status: 200,
+      }));
+    });
+  });
+
+  describe('GET /metrics', () => {
+    test('should expose request and holiday data metrics in Prometheus format', async () => {
+      await request(app)
+        .get('/calculate-business-time?days=1&date=2025-08-01T14:00:00.000Z')
+        .expect(200);
+
+      const response = await request(app)
+        .get('/metrics')
+        .expect('Content-Type', /text\/plain/)
+        .expect(200);
+
+      expect(response.text).toMatch(/^http_requests_total\{method="GET",route="\/calculate-business-time",status="200"\} \d+$/m);
+      expect(response.text).toMatch(/^http_request_duration_seconds_count\{method="GET",route="\/calculate-business-time",status="200"\} \d+$/m);
+      expect(response.text).toMatch(/^holiday_data_responses_total\{source="API",status="HEALTHY"\} \d+$/m);
+      expect(response.text).toContain('holiday_circuit_breaker_state{country="CO"} 0');
+    });
+  });
+
+  describe('GET /openapi.json', () => {
+    test('should document every registered route', async () => {
+      const response = await request(app)
+        .get('/openapi.json')
+        .expect('Content-Type', /json/)
+        .expect(200);
+
+      const layers: { route?: { path: string; methods: Record<string, boolean> } }[] = app._router.stack;
+      const routes = layers.flatMap(({ route }) => route
+        ? Object.keys(route.methods).map((method) => `${method} ${route.path.replace(/:(\w+)/g, '{$1}')}`)
+        : []);
+      const documented = Object.entries(response.body.paths).flatMap(([path, methods]) =>
+        Object.keys(methods as object).map((method) => `${method} ${path}`)
+      );
+
+      expect(response.body.openapi).toMatch(/^3\./);
+      expect(documented.sort()).toEqual(routes.sort());
+    });
+
+    test('should list every error code', async () => {
+      const response = await request(app).get('/openapi.json').expect(200);
+
+      expect(response.body.components.schemas.ErrorResponse.properties.error.enum).toEqual(
+        expect.arrayContaining(Object.values(ErrorCodes))
+      );
+    });
+
+    test('should resolve every reference', async () => {
+      const response = await request(app).get('/openapi.json').expect(200);
+      const references = [...JSON.stringify(response.body).matchAll(/"\$ref":"#\/([^"]+)"/g)].map((match) => match[1] ?? '');
+
+      for (const reference of references) {
+        const path = reference.split('/');
+        const target = path.reduce<unknown>((node, key) => (node as Record<string, unknown> | undefined)?.[key], response.body);
+        expect({ reference, found: target !== undefined }).toEqual({ reference, found: true });
+      }
+    });
+
+    test('should reject values outside the documented schema', async () => {
+      const response = await request(app).get('/openapi.json').expect(200);
+      const parameters: ParameterSpec[] = response.body.paths['/calculate-business-time'].get.parameters;
+      const direction = parameters.find((parameter) => parameter.name === 'direction');
+
+      expect(direction?.schema.enum).toEqual(['forward', 'backward']);
+
+      const invalid = await request(app)
+        .get('/calculate-business-time?days=1&direction=sideways')
+        .expect(400);
+      expect(invalid.body).toEqual(direction?.['x-errors']?.enum);
+    });
+  });
+
+  describe('GET /docs', () => {
+    test('should render a self-contained documentation page', async () => {
+      const response = await request(app)
+        .get('/docs')
+        .expect('Content-Type', /html/)
+        .expect(200);
+
+      expect(response.text).toContain('/calculate-business-time/batch');
+      expect(response.text).toContain('InvalidDateFormat');
+      expect(response.text).not.toMatch(/<script|https?:\/\//);
+    });
+  });
+
   describe('404 handler', () => {
     test('should return 404 for unknown endpoints', async () => {
       const response = await request(app)
@@ -0,0 +1,39 @@
+import { CALCULATION_PARAMETERS, ParameterSpec, SCHEDULE_PARAMETERS, validateParameters } from '../apiSchema';
+import { ErrorCodes } from '../types';
+
+describe('validateParameters', () => {
+  const parameters: ParameterSpec[] = [
+    { name: 'count', in: 'query', description: 'Count', required: true, schema: { type: 'integer', minimum: 1, maximum: 10 } },
+    { name: 'mode', in: 'query', description: 'Mode', schema: { type: 'string', enum: ['fast', 'slow'] } },
+    { name: 'code', in: 'query', description: 'Code', schema: { type: 'string', pattern: '^[A-Z]{2}$' } },
+    { name: 'flag', in: 'query', description: 'Flag', schema: { type: 'boolean' } }
+  ];
+
+  test('should accept values matching their schemas', () => {
+    expect(validateParameters(parameters, { count: '3', mode: 'fast', code: 'CO', flag: 'false' })).toBeNull();
+    expect(validateParameters(parameters, { count: '10' })).toBeNull();
+  });
+
+  test.each([
+    [{}, 'Count parameter must be provided'],
+    [{ count: ['1', '2'] }, 'Count parameter must be a valid integer'],
+    [{ count: 'abc' }, 'Count parameter must be a valid integer'],
+    [{ count: '0' }, 'Count parameter must be at least 1'],
+    [{ count: '1.5' }, 'Count parameter must be a whole number'],
+    [{ count: '11' }, 'Count parameter must be at most 10'],
+    [{ count: '1', mode: 'medium' }, 'Mode parameter must be one of fast, slow'],
+    [{ count: '1', code: 'col' }, 'Code parameter has an invalid format'],
+    [{ count: '1', flag: 'yes' }, 'Flag parameter must be a valid boolean']
+  ])('should reject %p', (values, message) => {
+    expect(validateParameters(parameters, values)).toEqual({ error: ErrorCodes.INVALID_PARAMETERS, message });
+  });
+
+  test('should return the documented error of a parameter', () => {
+    expect(validateParameters(CALCULATION_PARAMETERS, { days: '-1' })).toEqual({
+      error: ErrorCodes.NEGATIVE_VALUES,
+      message: 'Days parameter must be a positive integer (use direction=backward to subtract)'
+    });
+    expect(validateParameters(SCHEDULE_PARAMETERS, { workEnd: '25' })?.error).toBe(ErrorCodes.INVALID_SCHEDULE);
+    expect(validateParameters(CALCULATION_PARAMETERS, { date: '2025-08-01' })?.error).toBe(ErrorCodes.INVALID_DATE_FORMAT);
+  });
+});
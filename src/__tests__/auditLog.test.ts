@@ -0,0 +1,43 @@
+import { mkdtempSync, readFileSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { AuditLog } from '../auditLog';
+import { Logger } from '../logger';
+
+describe('AuditLog', () => {
+  const auditPath = (): string => join(mkdtempSync(join(tmpdir(), 'audit-')), 'audit.log');
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    AuditLog.reset();
+    jest.restoreAllMocks();
+  });
+
+  test('should list entries most recent first with the request ID', () => {
+    Logger.runWithContext({ requestId: 'req-1' }, () => AuditLog.record('holiday_cache_cleared', 'CO', 'ops'));
+    AuditLog.record('circuit_breaker_reset', 'PE', null, { previousState: 'OPEN' });
+
+    expect(AuditLog.list().map((entry) => [entry.action, entry.target, entry.actor, entry.requestId])).toEqual([
+      ['circuit_breaker_reset', 'PE', null, null],
+      ['holiday_cache_cleared', 'CO', 'ops', 'req-1']
+    ]);
+    expect(AuditLog.list(1)).toHaveLength(1);
+  });
+
+  test('should append entries to the file and load them after a restart', () => {
+    const filePath = auditPath();
+    writeFileSync(filePath, 'not json\n');
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    AuditLog.loadFromFile(filePath);
+    AuditLog.record('holiday_override_set', 'CO', 'ops', { holidays: ['2026-03-20'] });
+    AuditLog.reset();
+    AuditLog.loadFromFile(filePath);
+
+    expect(readFileSync(filePath, 'utf8').trim().split('\n')).toHaveLength(2);
+    expect(AuditLog.list()).toEqual([expect.objectContaining({ action: 'holiday_override_set', details: { holidays: ['2026-03-20'] } })]);
+  });
+});
@@ -1,5 +1,7 @@
 import { BusinessTimeCalculator } from '../businessTime';
 import { HolidaysService, HolidayServiceStatus } from '../holidays';
+import { DEFAULT_BUSINESS_RULES } from '../businessRules';
+import { BusinessRules } from '../types';
 
 import { format } from 'date-fns-tz';
 
@@ -130,6 +132,31 @@ describe('BusinessTimeCalculator', () => {
     });
   });
 
+  describe('approximation policy', () => {
+    const saturday = new Date('2025-08-02T19:00:00.000Z'); // Saturday 2 PM Colombia time
+
+    test('should round a weekend start forward to Monday morning', () => {
+      const result = BusinessTimeCalculator.calculateBusinessTimeResult(saturday, undefined, 1, mockHolidays, 'forward', DEFAULT_BUSINESS_RULES, 'forward');
+
+      expect(result.date.toISOString()).toBe('2025-08-04T14:00:00.000Z'); // Monday 9 AM
+      expect(result.adjustment.date.toISOString()).toBe('2025-08-04T13:00:00.000Z');
+      expect(result.adjustment.reason).toContain('next business day');
+    });
+
+    test('should round backward by default for forward calculations', () => {
+      const result = BusinessTimeCalculator.calculateBusinessTimeResult(saturday, undefined, 1, mockHolidays);
+
+      expect(result.date.toISOString()).toBe('2025-08-04T14:00:00.000Z'); // Friday 5 PM + 1h
+      expect(result.adjustment.date.toISOString()).toBe('2025-08-01T22:00:00.000Z');
+    });
+
+    test('should not adjust a start at the end of the working day', () => {
+      const endOfDay = BusinessTimeCalculator.utcToColombiaTime(new Date('2025-08-01T22:00:00.000Z')); // Friday 5 PM
+
+      expect(BusinessTimeCalculator.adjustToPrevBusinessTime(endOfDay, mockHolidays).wasAdjusted).toBe(false);
+    });
+  });
+
   describe('business days calculation', () => {
     test('should add business days correctly', () => {
       const friday = BusinessTimeCalculator.utcToColombiaTime(new Date('2025-08-01T15:00:00.000Z')); // Friday 10 AM Colombia time
@@ -172,6 +199,14 @@ describe('BusinessTimeCalculator', () => {
       expect(result.getDay()).toBe(1); // Monday
       expect(result.getHours()).toBe(9); // 9 AM (1 hour carried over)
     });
+
+    test('should count from an afternoon start rather than from the end of lunch', () => {
+      const afternoon = BusinessTimeCalculator.utcToColombiaTime(new Date('2025-08-04T19:00:00.000Z')); // Monday 2 PM Colombia time
+      const result = BusinessTimeCalculator.addBusinessHours(afternoon, 1, mockHolidays);
+
+      // Counting restarted at 1 PM before working days became segments, giving 2 PM
+      expect(result).toEqual(new Date(2025, 7, 4, 15)); // 3 PM
+    });
   });
 
   describe('example scenarios from requirements', () => {
@@ -275,4 +310,634 @@ describe('BusinessTimeCalculator', () => {
       expect(resultColombia.getHours()).toBe(15); // 3 PM
     });
   });
+
+  describe('forward business time adjustment (backward mode)', () => {
+    test('should adjust weekend to next Monday 8 AM', () => {
+      const colombiaSaturday = BusinessTimeCalculator.utcToColombiaTime(new Date('2025-09-20T19:00:00.000Z')); // Saturday 2 PM Colombia time
+      const adjustment = BusinessTimeCalculator.adjustToNextBusinessTime(colombiaSaturday, mockHolidays);
+
+      expect(adjustment.wasAdjusted).toBe(true);
+      expect(adjustment.date.getDay()).toBe(1); // Monday
+      expect(adjustment.date.getHours()).toBe(8); // 8 AM Colombia time
+    });
+
+    test('should adjust before-hours to 8 AM same day', () => {
+      const colombiaEarlyMorning = BusinessTimeCalculator.utcToColombiaTime(new Date('2025-09-15T11:00:00.000Z')); // Monday 6 AM Colombia time
+      const adjustment = BusinessTimeCalculator.adjustToNextBusinessTime(colombiaEarlyMorning, mockHolidays);
+
+      expect(adjustment.wasAdjusted).toBe(true);
+      expect(adjustment.date.getHours()).toBe(8); // 8 AM Colombia time
+      expect(adjustment.date.getDate()).toBe(15); // Same day
+    });
+
+    test('should adjust after-hours to 8 AM next business day', () => {
+      const colombiaFridayEvening = BusinessTimeCalculator.utcToColombiaTime(new Date('2025-09-19T23:00:00.000Z')); // Friday 6 PM Colombia time
+      const adjustment = BusinessTimeCalculator.adjustToNextBusinessTime(colombiaFridayEvening, mockHolidays);
+
+      expect(adjustment.wasAdjusted).toBe(true);
+      expect(adjustment.date.getHours()).toBe(8); // 8 AM Colombia time
+      expect(adjustment.date.getDate()).toBe(22); // Next Monday
+    });
+
+    test('should adjust lunch time to 1 PM', () => {
+      const colombiaLunchTime = BusinessTimeCalculator.utcToColombiaTime(new Date('2025-08-04T17:30:00.000Z')); // Monday 12:30 PM Colombia time
+      const adjustment = BusinessTimeCalculator.adjustToNextBusinessTime(colombiaLunchTime, mockHolidays);
+
+      expect(adjustment.wasAdjusted).toBe(true);
+      expect(adjustment.date.getHours()).toBe(13); // 1 PM Colombia time
+    });
+
+    test('should keep the end of the business day as is', () => {
+      const colombiaEndOfDay = BusinessTimeCalculator.utcToColombiaTime(new Date('2025-08-04T22:00:00.000Z')); // Monday 5 PM Colombia time
+      const adjustment = BusinessTimeCalculator.adjustToNextBusinessTime(colombiaEndOfDay, mockHolidays);
+
+      expect(adjustment.wasAdjusted).toBe(false);
+      expect(adjustment.date.getHours()).toBe(17);
+    });
+  });
+
+  describe('business days subtraction', () => {
+    test('should subtract business days correctly', () => {
+      const monday = BusinessTimeCalculator.utcToColombiaTime(new Date('2025-08-04T15:00:00.000Z')); // Monday 10 AM Colombia time
+      const result = BusinessTimeCalculator.subtractBusinessDays(monday, 1, mockHolidays);
+
+      expect(result.getDay()).toBe(5); // Friday
+      expect(result.getDate()).toBe(1); // Previous Friday
+      expect(result.getHours()).toBe(10); // Same time of day
+    });
+
+    test('should skip weekends and holidays', () => {
+      const monday = BusinessTimeCalculator.utcToColombiaTime(new Date('2025-04-21T15:00:00.000Z')); // Monday 10 AM Colombia time
+      const result = BusinessTimeCalculator.subtractBusinessDays(monday, 1, mockHolidays);
+
+      // Should skip weekend and Thursday/Friday holidays (4/17, 4/18), land on Wednesday 4/16
+      expect(result.getDate()).toBe(16);
+    });
+  });
+
+  describe('business hours subtraction', () => {
+    test('should subtract business hours within same day', () => {
+      const morning = BusinessTimeCalculator.utcToColombiaTime(new Date('2025-08-04T16:00:00.000Z')); // Monday 11 AM Colombia time
+      const result = BusinessTimeCalculator.subtractBusinessHours(morning, 2, mockHolidays);
+
+      expect(result.getHours()).toBe(9); // 9 AM Colombia time
+      expect(result.getDate()).toBe(4); // Same day
+    });
+
+    test('should handle lunch break correctly', () => {
+      const afterLunch = BusinessTimeCalculator.utcToColombiaTime(new Date('2025-08-04T18:30:00.000Z')); // Monday 1:30 PM Colombia time
+      const result = BusinessTimeCalculator.subtractBusinessHours(afterLunch, 1, mockHolidays);
+
+      expect(result.getHours()).toBe(11); // 11:30 AM (skipped lunch)
+      expect(result.getMinutes()).toBe(30);
+    });
+
+    test('should carry over to previous business day', () => {
+      const earlyMorning = BusinessTimeCalculator.utcToColombiaTime(new Date('2025-08-04T14:00:00.000Z')); // Monday 9 AM Colombia time
+      const result = BusinessTimeCalculator.subtractBusinessHours(earlyMorning, 2, mockHolidays);
+
+      expect(result.getDay()).toBe(5); // Friday
+      expect(result.getHours()).toBe(16); // 4 PM (1 hour carried over)
+    });
+  });
+
+  describe('backward scenarios mirroring the requirements', () => {
+    test('Monday 9 AM - 1 hour → Monday 8 AM', () => {
+      const utcDate = new Date('2025-08-04T14:00:00.000Z'); // Monday 9 AM Colombia time
+
+      const result = BusinessTimeCalculator.calculateBusinessTime(utcDate, undefined, 1, mockHolidays, 'backward');
+
+      expect(result.toISOString()).toBe('2025-08-04T13:00:00.000Z'); // Monday 8 AM Colombia time
+    });
+
+    test('Saturday 2 PM - 1 hour → Friday 4 PM', () => {
+      const utcDate = new Date('2025-08-02T19:00:00.000Z'); // Saturday 2 PM Colombia time
+
+      const result = BusinessTimeCalculator.calculateBusinessTime(utcDate, undefined, 1, mockHolidays, 'backward');
+
+      expect(result.toISOString()).toBe('2025-08-01T21:00:00.000Z'); // Friday 4 PM Colombia time
+    });
+
+    test('Thursday 10 AM - 1 day - 4 hours → Tuesday 3 PM', () => {
+      const utcDate = new Date('2025-09-18T15:00:00.000Z'); // Thursday 10 AM Colombia time
+
+      const result = BusinessTimeCalculator.calculateBusinessTime(utcDate, 1, 4, mockHolidays, 'backward');
+
+      expect(result.toISOString()).toBe('2025-09-16T20:00:00.000Z'); // Tuesday 3 PM Colombia time
+    });
+
+    test('Business day 5 PM - 8 hours → same day 8 AM', () => {
+      const utcDate = new Date('2025-09-01T22:00:00.000Z'); // Monday 5 PM Colombia time
+
+      const result = BusinessTimeCalculator.calculateBusinessTime(utcDate, undefined, 8, mockHolidays, 'backward');
+
+      expect(result.toISOString()).toBe('2025-09-01T13:00:00.000Z'); // Monday 8 AM Colombia time
+    });
+
+    test('should invert the forward calculation across holidays', () => {
+      const utcDate = new Date('2025-04-10T15:00:00.000Z'); // Thursday 10 AM Colombia time
+
+      const forward = BusinessTimeCalculator.calculateBusinessTime(utcDate, 5, 4, mockHolidays);
+      const backward = BusinessTimeCalculator.calculateBusinessTime(forward, 5, 4, mockHolidays, 'backward');
+
+      expect(backward.toISOString()).toBe(utcDate.toISOString());
+    });
+  });
+
+  describe('business duration between two dates', () => {
+    test('should count minutes within the same morning', () => {
+      const start = new Date('2025-08-04T14:00:00.000Z'); // Monday 9 AM Colombia time
+      const end = new Date('2025-08-04T16:30:00.000Z'); // Monday 11:30 AM Colombia time
+
+      expect(BusinessTimeCalculator.countBusinessMinutes(start, end, mockHolidays)).toBe(150);
+    });
+
+    test('should exclude the lunch break', () => {
+      const start = new Date('2025-08-04T16:00:00.000Z'); // Monday 11 AM Colombia time
+      const end = new Date('2025-08-04T19:00:00.000Z'); // Monday 2 PM Colombia time
+
+      expect(BusinessTimeCalculator.countBusinessMinutes(start, end, mockHolidays)).toBe(120);
+    });
+
+    test('should exclude nights, weekends and holidays', () => {
+      const start = new Date('2025-04-16T21:00:00.000Z'); // Wednesday 4 PM Colombia time
+      const end = new Date('2025-04-21T14:00:00.000Z'); // Monday 9 AM Colombia time (17th and 18th are holidays)
+
+      expect(BusinessTimeCalculator.countBusinessMinutes(start, end, mockHolidays)).toBe(120);
+    });
+
+    test('should return zero when the interval is outside business time', () => {
+      const start = new Date('2025-08-02T14:00:00.000Z'); // Saturday 9 AM Colombia time
+      const end = new Date('2025-08-03T22:00:00.000Z'); // Sunday 5 PM Colombia time
+
+      expect(BusinessTimeCalculator.countBusinessMinutes(start, end, mockHolidays)).toBe(0);
+    });
+
+    test('should match the forward calculation', () => {
+      const start = new Date('2025-04-10T15:00:00.000Z'); // Thursday 10 AM Colombia time
+      const end = BusinessTimeCalculator.calculateBusinessTime(start, 5, 4, mockHolidays);
+
+      const duration = BusinessTimeCalculator.calculateBusinessDuration(start, end, mockHolidays);
+
+      expect(duration).toEqual({ totalMinutes: 5 * 480 + 4 * 60, days: 5, hours: 4, minutes: 0 });
+    });
+
+    test('should break the total down into working days, hours and minutes', () => {
+      const start = new Date('2025-08-04T13:00:00.000Z'); // Monday 8 AM Colombia time
+      const end = new Date('2025-08-05T19:45:00.000Z'); // Tuesday 2:45 PM Colombia time
+
+      const duration = BusinessTimeCalculator.calculateBusinessDuration(start, end, mockHolidays);
+
+      expect(duration).toEqual({ totalMinutes: 480 + 345, days: 1, hours: 5, minutes: 45 });
+    });
+  });
+
+  describe('custom business rules', () => {
+    const earlyNoLunchRules: BusinessRules = {
+      ...DEFAULT_BUSINESS_RULES,
+      workingHours: { start: 7, end: 16, lunchStart: 16, lunchEnd: 16 },
+    };
+    const mondayToSaturdayRules: BusinessRules = {
+      ...DEFAULT_BUSINESS_RULES,
+      workingDays: [1, 2, 3, 4, 5, 6],
+    };
+
+    test('should use custom working hours', () => {
+      const early = BusinessTimeCalculator.utcToColombiaTime(new Date('2025-08-04T12:30:00.000Z')); // Monday 7:30 AM Colombia time
+
+      expect(BusinessTimeCalculator.isWithinWorkingHours(early, earlyNoLunchRules)).toBe(true);
+      expect(BusinessTimeCalculator.isWithinWorkingHours(early)).toBe(false);
+    });
+
+    test('should not skip a lunch break when there is none', () => {
+      const beforeNoon = BusinessTimeCalculator.utcToColombiaTime(new Date('2025-08-04T16:30:00.000Z')); // Monday 11:30 AM Colombia time
+      const result = BusinessTimeCalculator.addBusinessHours(beforeNoon, 1, mockHolidays, earlyNoLunchRules);
+
+      expect(result.getHours()).toBe(12); // 12:30 PM
+      expect(result.getMinutes()).toBe(30);
+    });
+
+    test('should carry over using the custom day boundaries', () => {
+      const utcDate = new Date('2025-08-01T20:00:00.000Z'); // Friday 3 PM Colombia time
+
+      const result = BusinessTimeCalculator.calculateBusinessTime(utcDate, undefined, 2, mockHolidays, 'forward', earlyNoLunchRules);
+
+      expect(result.toISOString()).toBe('2025-08-04T13:00:00.000Z'); // Monday 8 AM Colombia time
+    });
+
+    test('should treat Saturday as a business day when configured', () => {
+      const saturday = new Date('2025-08-02T12:00:00Z');
+
+      expect(BusinessTimeCalculator.isBusinessDay(saturday, mockHolidays, mondayToSaturdayRules)).toBe(true);
+      expect(BusinessTimeCalculator.isBusinessDay(saturday, mockHolidays)).toBe(false);
+    });
+
+    test('should treat forced working dates as business days', () => {
+      const rules: BusinessRules = { ...DEFAULT_BUSINESS_RULES, workingDates: ['2025-08-02', '2025-04-17'] };
+
+      expect(BusinessTimeCalculator.isBusinessDay(new Date(2025, 7, 2, 10), mockHolidays, rules)).toBe(true); // Saturday
+      expect(BusinessTimeCalculator.isBusinessDay(new Date(2025, 3, 17, 10), mockHolidays, rules)).toBe(true); // Holiday
+      expect(BusinessTimeCalculator.isBusinessDay(new Date(2025, 7, 3, 10), mockHolidays, rules)).toBe(false); // Sunday
+    });
+
+    test('should add business days over a working Saturday', () => {
+      const friday = BusinessTimeCalculator.utcToColombiaTime(new Date('2025-08-01T15:00:00.000Z')); // Friday 10 AM Colombia time
+      const result = BusinessTimeCalculator.addBusinessDays(friday, 1, mockHolidays, mondayToSaturdayRules);
+
+      expect(result.getDay()).toBe(6); // Saturday
+    });
+
+    test('should compute the working day length from the rules', () => {
+      expect(BusinessTimeCalculator.getWorkingMinutesPerDay()).toBe(480);
+      expect(BusinessTimeCalculator.getWorkingMinutesPerDay(earlyNoLunchRules)).toBe(540);
+    });
+
+    test('should use the timezone from the rules', () => {
+      const limaRules: BusinessRules = { ...DEFAULT_BUSINESS_RULES, timezone: 'America/Lima' };
+      const utcDate = new Date('2025-08-04T14:00:00.000Z'); // Monday 9 AM in Lima (UTC-5)
+
+      const result = BusinessTimeCalculator.calculateBusinessTime(utcDate, undefined, 1, mockHolidays, 'forward', limaRules);
+
+      expect(result.toISOString()).toBe('2025-08-04T15:00:00.000Z');
+    });
+  });
+
+  describe('business status', () => {
+    test('should report an open morning segment and the next opening after lunch', () => {
+      const status = BusinessTimeCalculator.getBusinessStatus(new Date('2025-08-04T15:00:00Z'), mockHolidays); // Monday 10 AM Colombia time
+
+      expect(status.isBusinessTime).toBe(true);
+      expect(status.reason).toBeNull();
+      expect(status.currentSegment?.start.toISOString()).toBe('2025-08-04T13:00:00.000Z');
+      expect(status.currentSegment?.end.toISOString()).toBe('2025-08-04T17:00:00.000Z');
+      expect(status.nextClose?.toISOString()).toBe('2025-08-04T17:00:00.000Z');
+      expect(status.nextOpen?.toISOString()).toBe('2025-08-04T18:00:00.000Z');
+    });
+
+    test('should report lunch, before hours and after hours', () => {
+      const lunch = BusinessTimeCalculator.getBusinessStatus(new Date('2025-08-04T17:30:00Z'), mockHolidays);
+      const beforeHours = BusinessTimeCalculator.getBusinessStatus(new Date('2025-08-04T11:00:00Z'), mockHolidays);
+      const afterHours = BusinessTimeCalculator.getBusinessStatus(new Date('2025-08-04T23:00:00Z'), mockHolidays);
+
+      expect(lunch.reason).toBe('LUNCH');
+      expect(lunch.nextOpen?.toISOString()).toBe('2025-08-04T18:00:00.000Z');
+      expect(lunch.nextClose?.toISOString()).toBe('2025-08-04T22:00:00.000Z');
+      expect(beforeHours.reason).toBe('BEFORE_HOURS');
+      expect(beforeHours.nextOpen?.toISOString()).toBe('2025-08-04T13:00:00.000Z');
+      expect(afterHours.reason).toBe('AFTER_HOURS');
+      expect(afterHours.nextOpen?.toISOString()).toBe('2025-08-05T13:00:00.000Z');
+    });
+
+    test('should skip weekends and holidays to the next opening', () => {
+      const weekend = BusinessTimeCalculator.getBusinessStatus(new Date('2025-08-02T15:00:00Z'), mockHolidays); // Saturday
+      const holiday = BusinessTimeCalculator.getBusinessStatus(new Date('2025-04-17T15:00:00Z'), mockHolidays); // Maundy Thursday
+
+      expect(weekend.isBusinessTime).toBe(false);
+      expect(weekend.reason).toBe('WEEKEND');
+      expect(weekend.currentSegment).toBeNull();
+      expect(weekend.nextOpen?.toISOString()).toBe('2025-08-04T13:00:00.000Z');
+      expect(holiday.reason).toBe('HOLIDAY');
+      expect(holiday.nextOpen?.toISOString()).toBe('2025-04-21T13:00:00.000Z');
+    });
+  });
+
+  describe('SLA status', () => {
+    const start = new Date('2025-08-04T13:00:00Z'); // Monday 8 AM Colombia time
+
+    test('should match calculateBusinessTime without pauses', () => {
+      const sla = BusinessTimeCalculator.calculateSlaStatus(start, 1, 3, [], start, mockHolidays);
+
+      expect(sla.dueDate).toEqual(BusinessTimeCalculator.calculateBusinessTime(start, 1, 3, mockHolidays));
+      expect(sla.pausedMinutes).toBe(0);
+    });
+
+    test('should shift the due date by the business time spent paused', () => {
+      const pauses = [{ start: new Date('2025-08-04T15:00:00Z'), end: new Date('2025-08-04T16:00:00Z') }];
+
+      const sla = BusinessTimeCalculator.calculateSlaStatus(start, undefined, 8, pauses, new Date('2025-08-05T13:00:00Z'), mockHolidays);
+
+      expect(sla.dueDate.toISOString()).toBe('2025-08-05T14:00:00.000Z'); // Tuesday 9 AM Colombia time
+      expect(sla.pausedMinutes).toBe(60);
+      expect(sla.remainingMinutes).toBe(60);
+      expect(sla.breached).toBe(false);
+    });
+
+    test('should merge overlapping pauses and ignore time paused before the start', () => {
+      const pauses = [
+        { start: new Date('2025-08-01T15:00:00Z'), end: new Date('2025-08-04T14:00:00Z') },
+        { start: new Date('2025-08-04T15:00:00Z'), end: new Date('2025-08-04T16:00:00Z') },
+        { start: new Date('2025-08-04T15:30:00Z'), end: new Date('2025-08-04T16:30:00Z') },
+      ];
+
+      const sla = BusinessTimeCalculator.calculateSlaStatus(start, undefined, 2, pauses, new Date('2025-08-04T17:00:00Z'), mockHolidays);
+
+      expect(sla.pausedMinutes).toBe(60 + 90);
+      expect(sla.dueDate.toISOString()).toBe('2025-08-04T18:30:00.000Z'); // 8 AM + 2h + 2.5h paused, skipping lunch → 1:30 PM
+    });
+
+    test('should not count pause time that has not happened yet', () => {
+      const pauses = [
+        { start: new Date('2025-08-04T15:00:00Z'), end: new Date('2025-08-04T19:00:00Z') }, // ends after now
+        { start: new Date('2025-08-04T20:00:00Z'), end: new Date('2025-08-04T21:00:00Z') }, // starts after now
+      ];
+
+      const sla = BusinessTimeCalculator.calculateSlaStatus(start, undefined, 8, pauses, new Date('2025-08-04T16:00:00Z'), mockHolidays);
+
+      expect(sla.pausedMinutes).toBe(60);
+      expect(sla.dueDate.toISOString()).toBe('2025-08-05T14:00:00.000Z'); // Tuesday 9 AM Colombia time
+      expect(sla.paused).toBe(false);
+    });
+
+    test('should report negative remaining minutes once breached', () => {
+      const sla = BusinessTimeCalculator.calculateSlaStatus(start, undefined, 8, [], new Date('2025-08-05T14:00:00Z'), mockHolidays);
+
+      expect(sla.breached).toBe(true);
+      expect(sla.remainingMinutes).toBe(-60);
+    });
+
+    test('should stop the clock during a pause in progress', () => {
+      const pauses = [{ start: new Date('2025-08-04T20:00:00Z'), end: null }]; // Monday 3 PM Colombia time
+
+      const sla = BusinessTimeCalculator.calculateSlaStatus(start, undefined, 8, pauses, new Date('2025-08-05T14:00:00Z'), mockHolidays);
+
+      expect(sla.paused).toBe(true);
+      expect(sla.pausedMinutes).toBe(180);
+      expect(sla.dueDate.toISOString()).toBe('2025-08-05T16:00:00.000Z'); // Tuesday 11 AM Colombia time
+      expect(sla.remainingMinutes).toBe(120);
+    });
+  });
+
+  describe('schedule overrides', () => {
+    // Christmas Eve ends at noon without lunch; Fridays end at 4 PM
+    const rules: BusinessRules = {
+      ...DEFAULT_BUSINESS_RULES,
+      weekdayHours: { 5: { start: 8, end: 16, lunchStart: 12, lunchEnd: 13 } },
+      dateHours: {
+        '2025-12-22': { start: 10, end: 17, lunchStart: 12, lunchEnd: 13 },
+        '2025-12-24': { start: 8, end: 12, lunchStart: 12, lunchEnd: 12 },
+      },
+    };
+
+    test('should prefer per-date over per-weekday over regular hours', () => {
+      expect(BusinessTimeCalculator.getDaySchedule(new Date(2025, 11, 24, 9), rules)).toEqual([{ start: 480, end: 720 }]);
+      expect(BusinessTimeCalculator.getDaySchedule(new Date(2025, 11, 26, 9), rules)[1]?.end).toBe(960);
+      expect(BusinessTimeCalculator.getDaySchedule(new Date(2025, 11, 23, 9), rules)[1]?.end).toBe(1020);
+    });
+
+    test('should add hours crossing into a shortened day', () => {
+      const result = BusinessTimeCalculator.addBusinessHours(new Date(2025, 11, 23, 15), 4, mockHolidays, rules);
+
+      expect(result).toEqual(new Date(2025, 11, 24, 10)); // 2h Tuesday + 2h Christmas Eve
+    });
+
+    test('should add hours crossing out of a shortened day', () => {
+      const result = BusinessTimeCalculator.addBusinessHours(new Date(2025, 11, 24, 10), 4, mockHolidays, rules);
+
+      expect(result).toEqual(new Date(2025, 11, 26, 10)); // 2h Christmas Eve, skip Christmas, 2h Friday
+    });
+
+    test('should carry over at the end of a shorter weekday', () => {
+      const result = BusinessTimeCalculator.addBusinessHours(new Date(2025, 11, 26, 15), 2, mockHolidays, rules);
+
+      expect(result).toEqual(new Date(2025, 11, 29, 9)); // 1h Friday until 4 PM + 1h Monday
+    });
+
+    test('should adjust to the end of a shortened day', () => {
+      const afterHours = BusinessTimeCalculator.adjustToPrevBusinessTime(new Date(2025, 11, 24, 14), mockHolidays, rules);
+      const beforeHours = BusinessTimeCalculator.adjustToPrevBusinessTime(new Date(2025, 11, 26, 7), mockHolidays, rules);
+
+      expect(afterHours.date).toEqual(new Date(2025, 11, 24, 12));
+      expect(beforeHours.date).toEqual(new Date(2025, 11, 24, 12)); // Christmas is skipped
+      expect(beforeHours.reason).toContain('12:00 PM');
+    });
+
+    test('should subtract hours crossing a shortened day', () => {
+      const result = BusinessTimeCalculator.subtractBusinessHours(new Date(2025, 11, 26, 9), 3, mockHolidays, rules);
+
+      expect(result).toEqual(new Date(2025, 11, 24, 10)); // 1h Friday, skip Christmas, 2h Christmas Eve
+    });
+
+    test('should keep whole days within a day that starts late', () => {
+      const result = BusinessTimeCalculator.addBusinessDays(new Date(2025, 11, 19, 9), 1, mockHolidays, rules);
+
+      expect(result).toEqual(new Date(2025, 11, 22, 10));
+    });
+
+    test('should move whole days landing in a break out of the target day\'s lunch', () => {
+      // Saturdays run 8 AM to 2 PM without lunch
+      const saturdays: BusinessRules = {
+        ...DEFAULT_BUSINESS_RULES,
+        workingDays: [1, 2, 3, 4, 5, 6],
+        weekdayHours: { 6: { start: 8, end: 14, lunchStart: 14, lunchEnd: 14 } },
+      };
+      const start = new Date(2025, 7, 2, 12, 30); // Saturday 12:30 PM
+
+      expect(BusinessTimeCalculator.addBusinessDays(start, 1, mockHolidays, saturdays)).toEqual(new Date(2025, 7, 4, 13));
+      expect(BusinessTimeCalculator.subtractBusinessDays(start, 1, mockHolidays, saturdays)).toEqual(new Date(2025, 7, 1, 12));
+    });
+
+    test('should count the shortened hours in durations', () => {
+      const duration = BusinessTimeCalculator.calculateBusinessDuration(
+        new Date('2025-12-23T20:00:00Z'), // Tuesday 3 PM Colombia time
+        new Date('2025-12-26T15:00:00Z'), // Friday 10 AM Colombia time
+        mockHolidays,
+        rules
+      );
+
+      expect(duration.totalMinutes).toBe(120 + 240 + 120);
+    });
+
+    test('should count a shorter weekday as a whole day in durations', () => {
+      const duration = BusinessTimeCalculator.calculateBusinessDuration(
+        new Date('2025-12-26T13:00:00Z'), // Friday 8 AM Colombia time
+        new Date('2025-12-29T22:00:00Z'), // Monday 5 PM Colombia time
+        mockHolidays,
+        rules
+      );
+
+      expect(duration).toEqual({ totalMinutes: 420 + 480, days: 2, hours: 0, minutes: 0 });
+    });
+  });
+
+  describe('calculation trace', () => {
+    test('should list holidays, weekends and breaks crossed', () => {
+      const trace = BusinessTimeCalculator.traceBusinessTime(
+        new Date('2025-04-16T20:00:00Z'), // Wednesday 3 PM Colombia time
+        new Date('2025-04-21T15:00:00Z'), // Monday 10 AM
+        mockHolidays
+      );
+
+      expect(trace.days.map((day) => day.closed)).toEqual([null, 'HOLIDAY', 'HOLIDAY', 'WEEKEND', 'WEEKEND', null]);
+      expect(trace.days[0]?.breaks).toEqual([]);
+      expect(trace.days[5]?.minutes).toBe(120);
+    });
+
+    test('should list days backwards when the result is before the start', () => {
+      const trace = BusinessTimeCalculator.traceBusinessTime(
+        new Date('2025-08-04T15:00:00Z'), // Monday 10 AM Colombia time
+        new Date('2025-08-01T16:00:00Z'), // Friday 11 AM
+        mockHolidays
+      );
+
+      expect(trace.days.map((day) => day.day)).toEqual(['2025-08-04', '2025-08-03', '2025-08-02', '2025-08-01']);
+      expect(trace.days[3]?.breaks).toEqual([
+        { start: new Date('2025-08-01T17:00:00Z'), end: new Date('2025-08-01T18:00:00Z') },
+      ]);
+    });
+
+    test('should stop listing days after a year', () => {
+      const trace = BusinessTimeCalculator.traceBusinessTime(
+        new Date('2025-01-02T15:00:00Z'),
+        new Date('2027-01-04T15:00:00Z'),
+        mockHolidays
+      );
+
+      expect(trace.days).toHaveLength(366);
+      expect(trace.truncated).toBe(true);
+    });
+  });
+
+  describe('working segments', () => {
+    // Plant schedule 6:00-10:00, 10:30-14:00, 15:00-18:00 (10.5 working hours)
+    const plantRules: BusinessRules = {
+      ...DEFAULT_BUSINESS_RULES,
+      workingHours: [
+        { start: 360, end: 600 },
+        { start: 630, end: 840 },
+        { start: 900, end: 1080 },
+      ],
+    };
+
+    test('should only count time inside a segment as working time', () => {
+      expect(BusinessTimeCalculator.isWithinWorkingHours(new Date(2025, 7, 4, 6), plantRules)).toBe(true);
+      expect(BusinessTimeCalculator.isWithinWorkingHours(new Date(2025, 7, 4, 10, 15), plantRules)).toBe(false);
+      expect(BusinessTimeCalculator.isWithinWorkingHours(new Date(2025, 7, 4, 14, 30), plantRules)).toBe(false);
+      expect(BusinessTimeCalculator.isWithinWorkingHours(new Date(2025, 7, 4, 17, 59), plantRules)).toBe(true);
+    });
+
+    test('should skip every break when adding hours', () => {
+      const result = BusinessTimeCalculator.addBusinessHours(new Date(2025, 7, 4, 9), 5, mockHolidays, plantRules);
+
+      expect(result).toEqual(new Date(2025, 7, 4, 15, 30)); // 1h + 3.5h + 0.5h
+    });
+
+    test('should carry over to the first segment of the next day', () => {
+      const result = BusinessTimeCalculator.addBusinessHours(new Date(2025, 7, 4, 17), 2, mockHolidays, plantRules);
+
+      expect(result).toEqual(new Date(2025, 7, 5, 7));
+    });
+
+    test('should skip every break when subtracting hours', () => {
+      const result = BusinessTimeCalculator.subtractBusinessHours(new Date(2025, 7, 4, 15, 30), 5, mockHolidays, plantRules);
+
+      expect(result).toEqual(new Date(2025, 7, 4, 9));
+    });
+
+    test('should adjust out of a break in both directions', () => {
+      const duringBreak = new Date(2025, 7, 4, 14, 30);
+
+      expect(BusinessTimeCalculator.adjustToPrevBusinessTime(duringBreak, mockHolidays, plantRules).date).toEqual(new Date(2025, 7, 4, 14));
+      expect(BusinessTimeCalculator.adjustToNextBusinessTime(duringBreak, mockHolidays, plantRules).date).toEqual(new Date(2025, 7, 4, 15));
+    });
+
+    test('should count only segment minutes in durations', () => {
+      expect(BusinessTimeCalculator.getWorkingMinutesPerDay(plantRules)).toBe(630);
+
+      const duration = BusinessTimeCalculator.calculateBusinessDuration(
+        new Date('2025-08-04T11:00:00Z'), // Monday 6 AM Colombia time
+        new Date('2025-08-05T23:00:00Z'), // Tuesday 6 PM Colombia time
+        mockHolidays,
+        plantRules
+      );
+
+      expect(duration).toEqual({ totalMinutes: 1260, days: 2, hours: 0, minutes: 0 });
+    });
+
+    test('should report breaks between segments as closed', () => {
+      const status = BusinessTimeCalculator.getBusinessStatus(new Date('2025-08-04T15:15:00Z'), mockHolidays, plantRules); // 10:15 AM
+
+      expect(status.isBusinessTime).toBe(false);
+      expect(status.nextOpen?.toISOString()).toBe('2025-08-04T15:30:00.000Z');
+    });
+  });
+
+  describe('night shifts', () => {
+    // 22:00-06:00, Monday to Friday; each shift belongs to the day it starts on
+    const nightRules: BusinessRules = {
+      ...DEFAULT_BUSINESS_RULES,
+      workingHours: [{ start: 1320, end: 1800 }],
+    };
+
+    test('should treat the early morning as part of the previous night shift', () => {
+      expect(BusinessTimeCalculator.isWithinWorkingHours(new Date(2025, 7, 2, 3), nightRules)).toBe(true); // Saturday 3 AM
+      expect(BusinessTimeCalculator.isWithinWorkingHours(new Date(2025, 7, 2, 7), nightRules)).toBe(false);
+    });
+
+    test('should add hours across midnight and skip weekend nights', () => {
+      const result = BusinessTimeCalculator.addBusinessHours(new Date(2025, 7, 1, 23), 8, mockHolidays, nightRules);
+
+      expect(result).toEqual(new Date(2025, 7, 4, 23)); // 7h Friday night + 1h Monday night
+    });
+
+    test('should subtract hours across midnight', () => {
+      const result = BusinessTimeCalculator.subtractBusinessHours(new Date(2025, 7, 4, 23), 8, mockHolidays, nightRules);
+
+      expect(result).toEqual(new Date(2025, 7, 1, 23));
+    });
+
+    test('should let the starting day decide whether a shift is worked', () => {
+      // The Christmas Eve shift runs into Christmas morning; the Christmas night shift is not worked
+      const result = BusinessTimeCalculator.addBusinessHours(new Date(2025, 11, 24, 23), 8, mockHolidays, nightRules);
+
+      expect(result).toEqual(new Date(2025, 11, 26, 23));
+    });
+
+    test('should count whole days from the day the shift started', () => {
+      const result = BusinessTimeCalculator.addBusinessDays(new Date(2025, 7, 2, 3), 1, mockHolidays, nightRules);
+
+      expect(result).toEqual(new Date(2025, 7, 5, 3)); // Monday's shift, Tuesday 3 AM
+    });
+
+    test('should count minutes of a shift crossing midnight', () => {
+      const minutes = BusinessTimeCalculator.countBusinessMinutes(
+        new Date('2025-08-02T01:00:00Z'), // Friday 8 PM Colombia time
+        new Date('2025-08-02T17:00:00Z'), // Saturday noon Colombia time
+        mockHolidays,
+        nightRules
+      );
+
+      expect(minutes).toBe(480);
+    });
+
+    test('should trace a shift crossing midnight on the day it started', () => {
+      const trace = BusinessTimeCalculator.traceBusinessTime(
+        new Date('2025-08-02T08:00:00Z'), // Saturday 3 AM Colombia time
+        new Date('2025-08-05T04:00:00Z'), // Monday 11 PM Colombia time
+        mockHolidays,
+        nightRules
+      );
+
+      expect(trace.days.map((day) => [day.day, day.closed, day.minutes])).toEqual([
+        ['2025-08-01', null, 180],
+        ['2025-08-02', 'WEEKEND', 0],
+        ['2025-08-03', 'WEEKEND', 0],
+        ['2025-08-04', null, 60],
+      ]);
+      expect(trace.days[0]?.worked).toEqual([
+        { start: new Date('2025-08-02T08:00:00Z'), end: new Date('2025-08-02T11:00:00Z') },
+      ]);
+      expect(trace.truncated).toBe(false);
+    });
+
+    test('should report the status during and after a night shift', () => {
+      const during = BusinessTimeCalculator.getBusinessStatus(new Date('2025-08-02T08:00:00Z'), mockHolidays, nightRules); // Saturday 3 AM
+      const after = BusinessTimeCalculator.getBusinessStatus(new Date('2025-08-02T15:00:00Z'), mockHolidays, nightRules); // Saturday 10 AM
+
+      expect(during.isBusinessTime).toBe(true);
+      expect(during.currentSegment?.start.toISOString()).toBe('2025-08-02T03:00:00.000Z');
+      expect(during.nextClose?.toISOString()).toBe('2025-08-02T11:00:00.000Z');
+      expect(after.reason).toBe('WEEKEND');
+      expect(after.nextOpen?.toISOString()).toBe('2025-08-05T03:00:00.000Z'); // Monday 10 PM
+    });
+  });
 });
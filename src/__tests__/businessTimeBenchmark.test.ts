@@ -0,0 +1,176 @@
+import { addDays, differenceInCalendarDays, format, getDay, setMinutes, startOfDay, subDays } from 'date-fns';
+import { zonedTimeToUtc } from 'date-fns-tz';
+import { BusinessTimeCalculator } from '../businessTime';
+import { HolidaysService } from '../holidays';
+import { DEFAULT_BUSINESS_RULES } from '../businessRules';
+import { BusinessRules, HolidayList, WorkingSegment } from '../types';
+
+// Day-by-day and step-by-step calculations the week-skipping arithmetic replaced, kept to check it gives the same results
+const calculator = BusinessTimeCalculator;
+
+function isBusinessDayByScan(date: Date, holidays: HolidayList, rules: BusinessRules): boolean {
+  const dateStr = format(date, 'yyyy-MM-dd');
+  if (rules.workingDates.includes(dateStr)) {
+    return true;
+  }
+  return rules.workingDays.includes(getDay(date)) && !holidays.includes(dateStr);
+}
+
+function daySegments(day: Date, rules: BusinessRules): WorkingSegment[] {
+  return calculator.getDaySchedule(day, rules).map((segment) => ({
+    start: setMinutes(startOfDay(day), segment.start),
+    end: setMinutes(startOfDay(day), segment.end)
+  }));
+}
+
+function referenceBusinessDays(startDate: Date, businessDays: number, holidays: HolidayList, rules: BusinessRules, step: 1 | -1): Date {
+  // A start before the end of the previous business day's last segment belongs to that day's shift
+  const previousDay = subDays(startOfDay(startDate), 1);
+  const previousEnd = isBusinessDayByScan(previousDay, holidays, rules) ? daySegments(previousDay, rules).pop()?.end : undefined;
+  const shiftDay = previousEnd && startDate <= previousEnd ? previousDay : startOfDay(startDate);
+  let currentDay = shiftDay;
+  let remainingDays = businessDays;
+
+  while (remainingDays > 0) {
+    currentDay = addDays(currentDay, step);
+    if (isBusinessDayByScan(currentDay, holidays, rules)) {
+      remainingDays--;
+    }
+  }
+
+  const currentDate = addDays(startDate, differenceInCalendarDays(currentDay, shiftDay));
+  const segments = daySegments(currentDay, rules);
+  const first = segments[0]!;
+  const last = segments[segments.length - 1]!;
+  if (currentDate < first.start) {
+    return first.start;
+  }
+  if (currentDate > last.end) {
+    return last.end;
+  }
+  const index = segments.findIndex((segment) => currentDate <= segment.end);
+  if (currentDate >= segments[index]!.start) {
+    return currentDate;
+  }
+  return step === 1 ? segments[index]!.start : segments[index - 1]!.end;
+}
+
+// Steps shorter than a week's business time in every rule set below never skip weeks
+const HOUR_STEP = 36;
+
+function referenceBusinessHours(startDate: Date, businessHours: number, holidays: HolidayList, rules: BusinessRules, step: 1 | -1): Date {
+  let currentDate = startDate;
+  let remainingHours = businessHours;
+
+  while (remainingHours > 0) {
+    const hours = Math.min(remainingHours, HOUR_STEP);
+    currentDate = step === 1
+      ? calculator.addBusinessHours(currentDate, hours, holidays, rules)
+      : calculator.subtractBusinessHours(currentDate, hours, holidays, rules);
+    remainingHours -= hours;
+  }
+
+  return currentDate;
+}
+
+function countBusinessDayChecks<T>(fn: () => T): { result: T; calls: number } {
+  const spy = jest.spyOn(calculator, 'isBusinessDay');
+  try {
+    const result = fn();
+    return { result, calls: spy.mock.calls.length };
+  } finally {
+    spy.mockRestore();
+  }
+}
+
+describe('BusinessTimeCalculator large offsets', () => {
+  const holidays = HolidaysService.getComputedHolidays(2020, 2160);
+
+  const ruleSets: Record<string, BusinessRules> = {
+    default: DEFAULT_BUSINESS_RULES,
+    'shorter Fridays and Saturday mornings': {
+      ...DEFAULT_BUSINESS_RULES,
+      workingDays: [1, 2, 3, 4, 5, 6],
+      weekdayHours: {
+        5: { start: 8, end: 14, lunchStart: 14, lunchEnd: 14 },
+        6: [{ start: 480, end: 720 }],
+      },
+    },
+    'night shift': {
+      ...DEFAULT_BUSINESS_RULES,
+      workingHours: [{ start: 1320, end: 1800 }],
+      workingDays: [0, 1, 2, 3, 4],
+    },
+    'night shift overlapping the next morning': {
+      ...DEFAULT_BUSINESS_RULES,
+      workingHours: [{ start: 1320, end: 1800 }],
+      weekdayHours: { 6: [{ start: 300, end: 600 }] },
+      workingDays: [1, 2, 3, 4, 5, 6],
+    },
+    'working dates and per-date hours': {
+      ...DEFAULT_BUSINESS_RULES,
+      workingDates: ['2025-08-09', '2026-01-10', '2031-06-14', '2090-03-20'],
+      dateHours: {
+        '2025-12-24': { start: 8, end: 12, lunchStart: 12, lunchEnd: 12 },
+        '2027-12-31': [{ start: 600, end: 660 }],
+        '2060-07-21': [{ start: 420, end: 1080 }],
+      },
+    },
+  };
+
+  const starts = [
+    new Date(2025, 7, 1, 10, 30), // Friday morning
+    new Date(2025, 7, 2, 3), // Saturday early morning
+    new Date(2025, 11, 24, 16, 45), // Christmas Eve afternoon
+    new Date(2026, 0, 5, 7), // Monday before work
+  ];
+
+  const dayOffsets = [1, 6, 37, 260, 4003];
+  const hourOffsets = [0.5, 9, 123.25, 2000, 31000];
+
+  describe.each(Object.entries(ruleSets))('with %s', (_name, rules) => {
+    test('should add and subtract days like the day-by-day loop', () => {
+      for (const start of starts) {
+        for (const days of dayOffsets) {
+          expect(calculator.addBusinessDays(start, days, holidays, rules)).toEqual(referenceBusinessDays(start, days, holidays, rules, 1));
+          expect(calculator.subtractBusinessDays(start, days, holidays, rules)).toEqual(referenceBusinessDays(start, days, holidays, rules, -1));
+        }
+      }
+    });
+
+    test('should add and subtract hours like adding them a few at a time', () => {
+      for (const start of starts) {
+        for (const hours of hourOffsets) {
+          expect(calculator.addBusinessHours(start, hours, holidays, rules)).toEqual(referenceBusinessHours(start, hours, holidays, rules, 1));
+          expect(calculator.subtractBusinessHours(start, hours, holidays, rules)).toEqual(referenceBusinessHours(start, hours, holidays, rules, -1));
+        }
+      }
+    });
+  });
+
+  test('should match across the 1992 daylight saving period in Colombia', () => {
+    // 1992-05-03 to 1993-04-03 was an hour ahead in America/Bogota
+    const start = calculator.utcToBusinessTime(zonedTimeToUtc('2025-08-01T10:30:00', 'America/Bogota'), DEFAULT_BUSINESS_RULES);
+
+    expect(calculator.subtractBusinessHours(start, 70000, holidays)).toEqual(referenceBusinessHours(start, 70000, holidays, DEFAULT_BUSINESS_RULES, -1));
+    expect(calculator.subtractBusinessDays(start, 9000, holidays)).toEqual(referenceBusinessDays(start, 9000, holidays, DEFAULT_BUSINESS_RULES, -1));
+  });
+
+  test('should skip whole weeks instead of checking every day for large day offsets', () => {
+    const start = new Date(2025, 7, 1, 10, 30);
+
+    const { result, calls } = countBusinessDayChecks(() => calculator.addBusinessDays(start, 20000, holidays));
+
+    expect(result).toEqual(referenceBusinessDays(start, 20000, holidays, DEFAULT_BUSINESS_RULES, 1));
+    expect(calls).toBeLessThan(50); // the day-by-day loop checks all of the 28000 days
+  });
+
+  test('should skip whole weeks instead of walking every segment for large hour offsets', () => {
+    const start = new Date(2025, 7, 1, 10, 30);
+
+    const { result, calls } = countBusinessDayChecks(() => calculator.addBusinessHours(start, 100000, holidays));
+
+    expect(result).toEqual(referenceBusinessHours(start, 100000, holidays, DEFAULT_BUSINESS_RULES, 1));
+    expect(calls).toBeLessThan(50); // the segment-by-segment walk checks each of its 15600 days
+  });
+});
@@ -0,0 +1,198 @@
+import { mkdtempSync, readFileSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { CalendarRegistry } from '../calendars';
+import { DEFAULT_BUSINESS_RULES } from '../businessRules';
+import { HolidaysService } from '../holidays';
+
+describe('CalendarRegistry', () => {
+  afterEach(() => {
+    CalendarRegistry.reset();
+  });
+
+  test('should only have the default calendar when nothing is loaded', () => {
+    const calendars = CalendarRegistry.list();
+
+    expect(calendars).toHaveLength(1);
+    expect(calendars[0]?.name).toBe('default');
+    expect(calendars[0]?.rules).toEqual(DEFAULT_BUSINESS_RULES);
+    expect(calendars[0]?.holidaySource).toBe('API');
+  });
+
+  test('should load profiles with defaults for missing fields', () => {
+    CalendarRegistry.configure({
+      calendars: {
+        support: {
+          workingHours: { start: 7, end: 19 },
+          workingDays: [6, 1, 2, 3, 4, 5],
+          holidaySource: 'computed'
+        }
+      }
+    });
+
+    const support = CalendarRegistry.get('support');
+
+    expect(support?.rules.workingHours).toEqual({ start: 7, end: 19, lunchStart: 19, lunchEnd: 19 });
+    expect(support?.rules.workingDays).toEqual([1, 2, 3, 4, 5, 6]);
+    expect(support?.rules.timezone).toBe('America/Bogota');
+    expect(support?.holidaySource).toBe('COMPUTED');
+    expect(CalendarRegistry.get('default')).toBeDefined();
+  });
+
+  test('should expand closure ranges into single dates', () => {
+    CalendarRegistry.configure({
+      calendars: {
+        legal: {
+          closures: [
+            { date: '2025-12-31' },
+            { from: '2025-12-20', to: '2025-12-22', name: 'Judicial vacation' }
+          ]
+        }
+      }
+    });
+
+    expect(CalendarRegistry.get('legal')?.closures).toEqual([
+      { date: '2025-12-20', name: 'Judicial vacation' },
+      { date: '2025-12-21', name: 'Judicial vacation' },
+      { date: '2025-12-22', name: 'Judicial vacation' },
+      { date: '2025-12-31', name: 'Company closure' },
+    ]);
+  });
+
+  test('should reject invalid profiles', () => {
+    expect(() => CalendarRegistry.configure({ calendars: { bad: { workingHours: { start: 18, end: 8 } } } }))
+      .toThrow('Invalid calendar "bad"');
+    expect(() => CalendarRegistry.configure({ calendars: { bad: { workingDays: [7] } } })).toThrow('workingDays');
+    expect(() => CalendarRegistry.configure({ calendars: { bad: { timezone: 'Nowhere/City' } } })).toThrow('timezone');
+    expect(() => CalendarRegistry.configure({ calendars: { bad: { holidaySource: 'ICS' } } })).toThrow('holidaySource');
+    expect(() => CalendarRegistry.configure({ calendars: { bad: { closures: [{ date: '24/12/2025' }] } } }))
+      .toThrow('closure');
+    expect(() => CalendarRegistry.configure({})).toThrow('"calendars" object');
+  });
+
+  test('should load profiles from a JSON file', () => {
+    const filePath = join(mkdtempSync(join(tmpdir(), 'calendars-')), 'calendars.json');
+    writeFileSync(filePath, JSON.stringify({ calendars: { 'back-office': {} } }));
+
+    CalendarRegistry.loadFromFile(filePath);
+
+    expect(CalendarRegistry.list().map((calendar) => calendar.name)).toEqual(['default', 'back-office']);
+  });
+
+  test('should add closures to the calendar holidays', async () => {
+    CalendarRegistry.configure({
+      calendars: {
+        office: { holidaySource: 'COMPUTED', closures: [{ date: '2025-12-24', name: 'Christmas Eve' }] }
+      }
+    });
+    const office = CalendarRegistry.get('office');
+    if (!office) throw new Error('office calendar not loaded');
+
+    const result = await HolidaysService.getCalendarHolidays(office, 2025, 2025);
+
+    expect(result.source).toBe('COMPUTED');
+    expect(result.holidays).toContain('2025-12-24');
+    expect(result.holidays).toContain('2025-12-25');
+  });
+
+  test('should load working dates into the calendar rules', () => {
+    CalendarRegistry.configure({
+      calendars: { office: { workingDates: [{ date: '2025-08-09', name: 'Bridge compensation' }] } }
+    });
+
+    const office = CalendarRegistry.get('office');
+
+    expect(office?.workingDates).toEqual([{ date: '2025-08-09', name: 'Bridge compensation' }]);
+    expect(office?.rules.workingDates).toEqual(['2025-08-09']);
+  });
+
+  test('should load per-weekday and per-date schedules', () => {
+    CalendarRegistry.configure({
+      calendars: {
+        office: {
+          weekdayHours: { 5: { start: 8, end: 16, lunchStart: 12, lunchEnd: 13 } },
+          dateHours: { '2025-12-24': { end: 12 } }
+        }
+      }
+    });
+
+    const rules = CalendarRegistry.get('office')?.rules;
+
+    expect(rules?.weekdayHours[5]).toEqual({ start: 8, end: 16, lunchStart: 12, lunchEnd: 13 });
+    expect(rules?.dateHours['2025-12-24']).toEqual({ start: 8, end: 12, lunchStart: 12, lunchEnd: 12 });
+  });
+
+  test('should reject invalid schedule overrides', () => {
+    expect(() => CalendarRegistry.configure({ calendars: { bad: { weekdayHours: { 7: { end: 12 } } } } }))
+      .toThrow('weekdayHours');
+    expect(() => CalendarRegistry.configure({ calendars: { bad: { dateHours: { '24/12/2025': { end: 12 } } } } }))
+      .toThrow('dateHours');
+    expect(() => CalendarRegistry.configure({ calendars: { bad: { dateHours: { '2025-12-24': { start: 13, end: 12 } } } } }))
+      .toThrow('dateHours 2025-12-24');
+  });
+
+  test('should load working segments', () => {
+    CalendarRegistry.configure({
+      calendars: {
+        plant: {
+          workingHours: ['06:00-10:00', '10:30-14:00', '15:00-18:00'],
+          weekdayHours: { 6: ['06:00-12:00'] },
+          dateHours: { '2025-12-24': { end: 12 } }
+        }
+      }
+    });
+
+    const rules = CalendarRegistry.get('plant')?.rules;
+
+    expect(rules?.workingHours).toHaveLength(3);
+    expect(rules?.weekdayHours[6]).toEqual([{ start: 360, end: 720 }]);
+    expect(rules?.dateHours['2025-12-24']).toEqual({ start: 6, end: 12, lunchStart: 12, lunchEnd: 12 });
+    expect(() => CalendarRegistry.configure({ calendars: { bad: { workingHours: ['10:00-10:00'] } } }))
+      .toThrow('start before they end');
+  });
+
+  describe('runtime overrides', () => {
+    test('should apply closures and working dates on top of the configured profile', () => {
+      CalendarRegistry.configure({
+        calendars: { office: { closures: [{ date: '2025-12-24', name: 'Christmas Eve' }] } }
+      });
+
+      CalendarRegistry.setOverride('office', 'closures', { date: '2025-12-31', name: "New Year's Eve" });
+      CalendarRegistry.setOverride('office', 'workingDates', { date: '2025-12-24', name: 'Inventory day' });
+
+      const office = CalendarRegistry.get('office');
+
+      expect(office?.closures).toEqual([{ date: '2025-12-31', name: "New Year's Eve" }]);
+      expect(office?.workingDates).toEqual([{ date: '2025-12-24', name: 'Inventory day' }]);
+      expect(office?.rules.workingDates).toEqual(['2025-12-24']);
+    });
+
+    test('should move a date between closures and working dates', () => {
+      CalendarRegistry.setOverride('default', 'closures', { date: '2025-08-09', name: 'Closure' });
+      CalendarRegistry.setOverride('default', 'workingDates', { date: '2025-08-09', name: 'Working Saturday' });
+
+      expect(CalendarRegistry.getOverrides('default')).toEqual({
+        closures: [],
+        workingDates: [{ date: '2025-08-09', name: 'Working Saturday' }],
+      });
+      expect(CalendarRegistry.removeOverride('default', 'workingDates', '2025-08-09')).toBe(true);
+      expect(CalendarRegistry.removeOverride('default', 'workingDates', '2025-08-09')).toBe(false);
+    });
+
+    test('should persist overrides to a file and load them back', () => {
+      const filePath = join(mkdtempSync(join(tmpdir(), 'overrides-')), 'overrides.json');
+
+      CalendarRegistry.loadOverrides(filePath);
+      CalendarRegistry.setOverride('default', 'closures', { date: '2025-12-24', name: 'Christmas Eve' });
+
+      expect(JSON.parse(readFileSync(filePath, 'utf8'))).toEqual({
+        calendars: { default: { closures: [{ date: '2025-12-24', name: 'Christmas Eve' }], workingDates: [] } },
+      });
+
+      CalendarRegistry.reset();
+      CalendarRegistry.loadOverrides(filePath);
+
+      expect(CalendarRegistry.getDefault().closures).toEqual([{ date: '2025-12-24', name: 'Christmas Eve' }]);
+    });
+  });
+});
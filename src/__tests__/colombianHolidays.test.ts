@@ -0,0 +1,99 @@
+import {
+  getEasterSunday,
+  getColombianHolidaysForYear,
+  getColombianHolidayDetailsForYear,
+  generateColombianHolidays,
+} from '../colombianHolidays';
+import { HolidaysService } from '../holidays';
+
+describe('Colombian holiday calendar', () => {
+  describe('getEasterSunday', () => {
+    test('should compute Easter Sunday for known years', () => {
+      expect(getEasterSunday(2024).toISOString()).toBe('2024-03-31T00:00:00.000Z');
+      expect(getEasterSunday(2025).toISOString()).toBe('2025-04-20T00:00:00.000Z');
+      expect(getEasterSunday(2026).toISOString()).toBe('2026-04-05T00:00:00.000Z');
+    });
+  });
+
+  describe('getColombianHolidaysForYear', () => {
+    test('should match the official 2024 calendar', () => {
+      expect(getColombianHolidaysForYear(2024)).toEqual([
+        '2024-01-01', '2024-01-08', '2024-03-25', '2024-03-28', '2024-03-29',
+        '2024-05-01', '2024-05-13', '2024-06-03', '2024-06-10', '2024-07-01',
+        '2024-07-20', '2024-08-07', '2024-08-19', '2024-10-14', '2024-11-04',
+        '2024-11-11', '2024-12-08', '2024-12-25',
+      ]);
+    });
+
+    test('should list holidays observed on the same Monday only once', () => {
+      const holidays = getColombianHolidaysForYear(2025);
+
+      // Sacred Heart and Saint Peter and Saint Paul are both observed on 2025-06-30
+      expect(holidays.filter((holiday) => holiday === '2025-06-30')).toHaveLength(1);
+      expect(holidays).toHaveLength(17);
+    });
+
+    test('should compute years beyond any static list', () => {
+      const holidays = getColombianHolidaysForYear(2026);
+
+      expect(holidays).toContain('2026-01-12'); // Epiphany moved to Monday
+      expect(holidays).toContain('2026-04-02'); // Maundy Thursday
+      expect(holidays).toContain('2026-04-03'); // Good Friday
+      expect(holidays).toContain('2026-05-18'); // Ascension Day moved to Monday
+      expect(holidays).toContain('2026-06-08'); // Corpus Christi moved to Monday
+      expect(holidays).toContain('2026-06-15'); // Sacred Heart moved to Monday
+      expect(holidays).toContain('2026-07-20'); // Independence Day
+    });
+
+    test('should keep Emiliani holidays that already fall on Monday', () => {
+      // 2027-11-01 is a Monday
+      expect(getColombianHolidaysForYear(2027)).toContain('2027-11-01');
+    });
+  });
+
+  describe('getColombianHolidayDetailsForYear', () => {
+    test('should describe each holiday with its original and observed date', () => {
+      const holidays = getColombianHolidayDetailsForYear(2026);
+
+      expect(holidays).toContainEqual({
+        date: '2026-01-12', originalDate: '2026-01-06', name: 'Epiphany', category: 'MOVABLE',
+      });
+      expect(holidays).toContainEqual({
+        date: '2026-05-18', originalDate: '2026-05-14', name: 'Ascension Day', category: 'EASTER',
+      });
+      expect(holidays).toContainEqual({
+        date: '2026-07-20', originalDate: '2026-07-20', name: 'Independence Day', category: 'FIXED',
+      });
+    });
+
+    test('should keep both names when two holidays share an observed date', () => {
+      const names = getColombianHolidayDetailsForYear(2025)
+        .filter((holiday) => holiday.date === '2025-06-30')
+        .map((holiday) => holiday.name);
+
+      expect(names).toEqual(['Sacred Heart', 'Saint Peter and Saint Paul']);
+    });
+
+    test('should match the observed holiday list', () => {
+      const dates = getColombianHolidayDetailsForYear(2024).map((holiday) => holiday.date);
+
+      expect([...new Set(dates)]).toEqual(getColombianHolidaysForYear(2024));
+    });
+  });
+
+  describe('generateColombianHolidays', () => {
+    test('should cover every year in the range', () => {
+      const holidays = generateColombianHolidays(2024, 2026);
+
+      expect(holidays[0]).toBe('2024-01-01');
+      expect(holidays[holidays.length - 1]).toBe('2026-12-25');
+      expect(holidays).toHaveLength(18 + 17 + 18);
+    });
+  });
+
+  describe('HolidaysService fallback', () => {
+    test('should expose computed holidays for any year range', () => {
+      expect(HolidaysService.getComputedHolidays(2030, 2030)).toEqual(getColombianHolidaysForYear(2030));
+    });
+  });
+});
@@ -0,0 +1,373 @@
+import axios from 'axios';
+import { mkdtempSync, readFileSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { getHolidayProvider, listHolidayProviders } from '../holidayProviders';
+import { getPeruvianHolidaysForYear } from '../peruvianHolidays';
+import { getEcuadorianHolidaysForYear } from '../ecuadorianHolidays';
+import { getMexicanHolidaysForYear } from '../mexicanHolidays';
+import { getColombianHolidaysForYear } from '../colombianHolidays';
+import { HolidaysService, HolidayServiceStatus } from '../holidays';
+import { HolidaySourceRegistry, mergeHolidayLayers, parseIcsHolidays } from '../holidaySources';
+
+describe('Holiday providers', () => {
+  test('should register Colombia, Peru, Ecuador and Mexico', () => {
+    expect(listHolidayProviders().map((provider) => provider.countryCode)).toEqual(['CO', 'PE', 'EC', 'MX']);
+  });
+
+  test('should look up providers case-insensitively', () => {
+    expect(getHolidayProvider('pe')?.timezone).toBe('America/Lima');
+    expect(getHolidayProvider('XX')).toBeUndefined();
+  });
+
+  describe('computed calendars', () => {
+    test('should compute Peruvian holidays including Holy Week', () => {
+      const holidays = getPeruvianHolidaysForYear(2025);
+
+      expect(holidays).toContain('2025-04-17'); // Maundy Thursday
+      expect(holidays).toContain('2025-04-18'); // Good Friday
+      expect(holidays).toContain('2025-07-28'); // Independence Day
+      expect(holidays).toContain('2025-12-09'); // Battle of Ayacucho
+      expect(holidays).toHaveLength(16);
+    });
+
+    test('should only include Peruvian holidays from the year they were created', () => {
+      expect(getPeruvianHolidaysForYear(2021)).not.toContain('2021-12-09');
+      expect(getPeruvianHolidaysForYear(2023)).not.toContain('2023-06-07');
+    });
+
+    test('should move Ecuadorian civic holidays to the nearest Monday or Friday', () => {
+      const holidays = getEcuadorianHolidaysForYear(2025);
+
+      expect(holidays).toContain('2025-03-03'); // Carnival Monday
+      expect(holidays).toContain('2025-03-04'); // Carnival Tuesday
+      expect(holidays).toContain('2025-05-23'); // Battle of Pichincha (Saturday → Friday)
+      expect(holidays).toContain('2025-08-11'); // First Cry of Independence (Sunday → Monday)
+      expect(holidays).toContain('2025-10-10'); // Independence of Guayaquil (Thursday → Friday)
+    });
+
+    test('should observe Mexican rest days on their Mondays', () => {
+      expect(getMexicanHolidaysForYear(2025)).toEqual([
+        '2025-01-01', '2025-02-03', '2025-03-17', '2025-05-01', '2025-09-16', '2025-11-17', '2025-12-25',
+      ]);
+    });
+
+    test('should describe Mexican Monday holidays with their commemorated date', () => {
+      expect(getHolidayProvider('MX')?.describeHolidays(2025, 2025)).toContainEqual({
+        date: '2025-02-03', originalDate: '2025-02-05', name: 'Constitution Day', category: 'MOVABLE',
+      });
+    });
+
+    test('should include the Mexican inauguration day every six years', () => {
+      expect(getMexicanHolidaysForYear(2024)).toContain('2024-10-01');
+      expect(getMexicanHolidaysForYear(2030)).toContain('2030-10-01');
+      expect(getMexicanHolidaysForYear(2027)).not.toContain('2027-10-01');
+    });
+  });
+
+  describe('HolidaysService by country', () => {
+    test('should serve the computed calendar for countries without a holiday service URL', async () => {
+      const result = await HolidaysService.getHolidays('MX', 2025, 2025);
+
+      expect(result.source).toBe('COMPUTED');
+      expect(result.status).toBe(HolidayServiceStatus.HEALTHY);
+      expect(result.holidays).toEqual(getMexicanHolidaysForYear(2025));
+    });
+
+    test('should report the Colombian fallback when no holiday service URL is set', async () => {
+      jest.useFakeTimers();
+      const consoleError = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+      const get = jest.spyOn(axios, 'get').mockRejectedValue(new Error('Invalid URL'));
+
+      try {
+        const pending = HolidaysService.getColombianHolidays('', 2025, 2025);
+        await jest.advanceTimersByTimeAsync(60 * 1000);
+        const result = await pending;
+
+        expect(get).toHaveBeenCalledTimes(4);
+        expect(result.source).toBe('FALLBACK');
+        expect(result.status).toBe(HolidayServiceStatus.FAILED);
+        expect(result.holidays).toContain('2025-12-25');
+      } finally {
+        jest.useRealTimers();
+        get.mockRestore();
+        consoleError.mockRestore();
+        HolidaysService.reset();
+      }
+    });
+
+    test('should reject unsupported countries', async () => {
+      await expect(HolidaysService.getHolidays('XX')).rejects.toThrow('No holiday provider');
+    });
+
+    test('should route Colombia through getColombianHolidays', async () => {
+      const spy = jest.spyOn(HolidaysService, 'getColombianHolidays').mockResolvedValue({
+        holidays: ['2025-12-25'],
+        status: HolidayServiceStatus.HEALTHY,
+        source: 'API',
+        lastUpdated: Date.now()
+      });
+
+      const result = await HolidaysService.getHolidays('CO', 2025, 2025);
+
+      expect(spy).toHaveBeenCalled();
+      expect(result.holidays).toEqual(['2025-12-25']);
+      spy.mockRestore();
+    });
+
+    test('should keep a separate circuit breaker per country', () => {
+      expect(HolidaysService.getServiceStatus('PE').circuitState).toBe('CLOSED');
+      expect(HolidaysService.getServiceStatus('EC').failures).toBe(0);
+    });
+  });
+
+  describe('HolidaysService snapshot', () => {
+    const url = 'https://holidays.example.test/co';
+    const snapshotPath = (): string => join(mkdtempSync(join(tmpdir(), 'holidays-')), 'snapshot.json');
+
+    afterEach(() => {
+      HolidaysService.reset();
+      jest.restoreAllMocks();
+    });
+
+    test('should serve a fresh snapshot on startup without calling the service', async () => {
+      const filePath = snapshotPath();
+      const fetchedAt = new Date(Date.now() - 60 * 60 * 1000).toISOString();
+      writeFileSync(filePath, JSON.stringify({ countries: { CO: { holidays: ['2025-12-25'], fetchedAt, sourceUrl: url } } }));
+      const get = jest.spyOn(axios, 'get');
+
+      HolidaysService.loadSnapshot(filePath);
+      const result = await HolidaysService.getColombianHolidays(url, 2025, 2025);
+
+      expect(get).not.toHaveBeenCalled();
+      expect(result.source).toBe('SNAPSHOT');
+      expect(result.holidays).toEqual(['2025-12-25']);
+      expect(result.lastUpdated).toBe(Date.parse(fetchedAt));
+      expect(HolidaysService.getServiceStatus('CO').snapshot).toEqual({ fetchedAt, sourceUrl: url });
+    });
+
+    test('should write the snapshot after a successful fetch', async () => {
+      const filePath = snapshotPath();
+      jest.spyOn(axios, 'get').mockResolvedValue({ data: ['2025-01-01', '2025-12-25'] });
+
+      HolidaysService.loadSnapshot(filePath);
+      const result = await HolidaysService.getColombianHolidays(url, 2025, 2025);
+      const snapshot = JSON.parse(readFileSync(filePath, 'utf8')).countries.CO;
+
+      expect(result.source).toBe('API');
+      expect(snapshot.holidays).toEqual(['2025-01-01', '2025-12-25']);
+      expect(snapshot.sourceUrl).toBe(url);
+      expect(Date.parse(snapshot.fetchedAt)).toBe(result.lastUpdated);
+    });
+
+    test('should ignore a snapshot taken from another service URL', async () => {
+      const filePath = snapshotPath();
+      const fetchedAt = new Date().toISOString();
+      writeFileSync(filePath, JSON.stringify({ countries: { CO: { holidays: ['2025-12-25'], fetchedAt, sourceUrl: 'https://old.example.test' } } }));
+      jest.spyOn(axios, 'get').mockResolvedValue({ data: ['2025-01-01'] });
+
+      HolidaysService.loadSnapshot(filePath);
+      const result = await HolidaysService.getColombianHolidays(url, 2025, 2025);
+
+      expect(result.source).toBe('API');
+      expect(result.holidays).toEqual(['2025-01-01']);
+    });
+
+    test('should start cold from an unreadable snapshot', () => {
+      const filePath = snapshotPath();
+      writeFileSync(filePath, 'not json');
+      jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+      expect(() => HolidaysService.loadSnapshot(filePath)).not.toThrow();
+      expect(HolidaysService.getServiceStatus('CO').snapshot).toBeNull();
+    });
+  });
+
+  describe('HolidaysService admin controls', () => {
+    const url = 'https://holidays.example.test/co';
+
+    afterEach(() => {
+      HolidaySourceRegistry.reset();
+      HolidaysService.reset();
+      jest.restoreAllMocks();
+    });
+
+    test('should reload cached holiday sources on refresh', async () => {
+      const get = jest.spyOn(axios, 'get')
+        .mockResolvedValueOnce({ data: ['2026-01-01'] })
+        .mockResolvedValueOnce({ data: ['2026-01-01', '2026-03-20'] });
+      HolidaySourceRegistry.configure({ countries: { CO: [{ type: 'http', url }] } });
+
+      await HolidaysService.getHolidays('CO', 2026, 2026);
+      const refreshed = await HolidaysService.refreshHolidays('co');
+      const cached = await HolidaysService.getHolidays('CO', 2026, 2026);
+
+      expect(get).toHaveBeenCalledTimes(2);
+      expect(refreshed.holidays.filter((date) => date.startsWith('2026'))).toEqual(['2026-01-01', '2026-03-20']);
+      expect(cached.holidays).toEqual(['2026-01-01', '2026-03-20']);
+    });
+
+    test('should replace the years an override covers until it expires', async () => {
+      HolidaysService.setOverride('PE', {
+        mode: 'override',
+        holidays: ['2026-03-20'],
+        reason: null,
+        createdAt: new Date().toISOString(),
+        expiresAt: new Date(Date.now() + 60 * 1000).toISOString()
+      });
+
+      const overridden = await HolidaysService.getHolidays('PE', 2026, 2027);
+      expect(overridden.holidays.filter((date) => date.startsWith('2026'))).toEqual(['2026-03-20']);
+      expect(overridden.holidays.some((date) => date.startsWith('2027'))).toBe(true);
+
+      jest.spyOn(Date, 'now').mockReturnValue(Date.now() + 2 * 60 * 1000);
+      const expired = await HolidaysService.getHolidays('PE', 2026, 2026);
+      expect(expired.holidays).toEqual(getHolidayProvider('PE')?.computeHolidays(2026, 2026));
+      expect(HolidaysService.getServiceStatus('PE').override).toBeNull();
+    });
+  });
+
+  describe('holiday sources', () => {
+    const tempFile = (name: string, content: string): string => {
+      const filePath = join(mkdtempSync(join(tmpdir(), 'holidays-')), name);
+      writeFileSync(filePath, content);
+      return filePath;
+    };
+
+    afterEach(() => {
+      HolidaySourceRegistry.reset();
+      HolidaysService.reset();
+      jest.restoreAllMocks();
+    });
+
+    test('should read all-day events from an iCalendar file', () => {
+      const ics = [
+        'BEGIN:VCALENDAR',
+        'BEGIN:VEVENT',
+        'DTSTART;VALUE=DATE:20251224',
+        'DTEND;VALUE=DATE:20251226',
+        'SUMMARY:Christmas',
+        ' closure',
+        'END:VEVENT',
+        'BEGIN:VEVENT',
+        'DTSTART:20250101T050000Z',
+        'DTEND:20250102T050000Z',
+        'END:VEVENT',
+        'END:VCALENDAR',
+      ].join('\r\n');
+
+      expect(parseIcsHolidays(ics)).toEqual(['2025-01-01', '2025-12-24', '2025-12-25']);
+      expect(() => parseIcsHolidays('BEGIN:VEVENT\nDTSTART;VALUE=DATE:20250231\nEND:VEVENT')).toThrow('Invalid calendar date');
+    });
+
+    test('should merge, override and remove holidays in order', () => {
+      expect(mergeHolidayLayers([
+        { mode: 'merge', holidays: ['2024-12-25', '2025-01-01', '2025-12-25'] },
+        { mode: 'override', holidays: ['2025-01-01', '2025-05-01'] },
+        { mode: 'merge', holidays: ['2025-12-24'] },
+        { mode: 'remove', holidays: ['2025-05-01'] },
+      ])).toEqual(['2024-12-25', '2025-01-01', '2025-12-24']);
+    });
+
+    test('should reject invalid source configurations', () => {
+      expect(() => HolidaySourceRegistry.configure({})).toThrow('"countries" object');
+      expect(() => HolidaySourceRegistry.configure({ countries: { XX: [{ type: 'computed' }] } })).toThrow('unsupported country');
+      expect(() => HolidaySourceRegistry.configure({ countries: { CO: [{ type: 'ftp' }] } })).toThrow('source 1 for "CO": type must be');
+      expect(() => HolidaySourceRegistry.configure({ countries: { CO: [{ type: 'json' }] } })).toThrow('json sources need a "path"');
+      expect(() => HolidaySourceRegistry.configure({ countries: { CO: [{ type: 'computed', mode: 'replace' }] } })).toThrow('mode must be');
+    });
+
+    test('should layer local corrections on top of the holiday feed', async () => {
+      const corrections = tempFile('corrections.json', JSON.stringify(['2025-12-24', { date: '2025-12-31', name: 'Closure' }]));
+      const removals = tempFile('removals.ics', 'BEGIN:VEVENT\nDTSTART;VALUE=DATE:20250101\nEND:VEVENT\n');
+      const get = jest.spyOn(axios, 'get').mockResolvedValue({ data: ['2025-01-01', '2025-12-25'] });
+      HolidaySourceRegistry.configure({
+        countries: {
+          co: [
+            { type: 'http', url: 'https://holidays.example.test/co' },
+            { type: 'json', path: corrections },
+            { type: 'ics', path: removals, mode: 'remove' },
+          ],
+        },
+      });
+
+      const result = await HolidaysService.getHolidays('CO', 2025, 2025);
+      await HolidaysService.getHolidays('CO', 2025, 2025);
+
+      expect(get).toHaveBeenCalledTimes(1);
+      expect(result.source).toBe('SOURCES');
+      expect(result.status).toBe(HolidayServiceStatus.HEALTHY);
+      expect(result.holidays).toEqual(['2025-12-24', '2025-12-25', '2025-12-31']);
+      expect(HolidaysService.getServiceStatus('CO').sources?.map((source) => [source.type, source.status, source.holidayCount]))
+        .toEqual([['http', 'OK', 2], ['json', 'OK', 2], ['ics', 'OK', 1]]);
+    });
+
+    test('should keep the national holidays when the holiday feed is down', async () => {
+      jest.useFakeTimers();
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+      jest.spyOn(axios, 'get').mockRejectedValue(new Error('connect ECONNREFUSED'));
+      HolidaySourceRegistry.configure({
+        countries: {
+          CO: [
+            { type: 'http', url: 'https://holidays.example.test/co' },
+            { type: 'ics', path: tempFile('company.ics', 'BEGIN:VEVENT\nDTSTART;VALUE=DATE:20251224\nEND:VEVENT\n') },
+          ],
+        },
+      });
+
+      try {
+        const pending = HolidaysService.getHolidays('CO', 2025, 2026);
+        await jest.advanceTimersByTimeAsync(60 * 1000);
+        const result = await pending;
+
+        expect(result.status).toBe(HolidayServiceStatus.DEGRADED);
+        expect(result.holidays).toEqual([...getColombianHolidaysForYear(2025), '2025-12-24', ...getColombianHolidaysForYear(2026)].sort());
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    test('should write the holiday feed to the snapshot and start from it', async () => {
+      const url = 'https://holidays.example.test/co';
+      const filePath = join(mkdtempSync(join(tmpdir(), 'holidays-')), 'snapshot.json');
+      const get = jest.spyOn(axios, 'get').mockResolvedValue({ data: ['2025-01-01', '2025-12-25'] });
+      HolidaySourceRegistry.configure({ countries: { CO: [{ type: 'http', url }] } });
+
+      HolidaysService.loadSnapshot(filePath);
+      await HolidaysService.getHolidays('CO', 2025, 2025);
+      HolidaysService.reset();
+      HolidaySourceRegistry.configure({ countries: { CO: [{ type: 'http', url }] } });
+      HolidaysService.loadSnapshot(filePath);
+      const restarted = await HolidaysService.getHolidays('CO', 2025, 2025);
+
+      expect(get).toHaveBeenCalledTimes(1);
+      expect(JSON.parse(readFileSync(filePath, 'utf8')).countries.CO).toMatchObject({ holidays: ['2025-01-01', '2025-12-25'], sourceUrl: url });
+      expect(restarted.status).toBe(HolidayServiceStatus.HEALTHY);
+      expect(restarted.holidays).toEqual(['2025-01-01', '2025-12-25']);
+    });
+
+    test('should run offline from local files and the computed calendar', async () => {
+      const get = jest.spyOn(axios, 'get');
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+      HolidaySourceRegistry.configure({
+        countries: {
+          PE: [
+            { type: 'computed' },
+            { type: 'json', path: join(tmpdir(), 'missing-holidays.json') },
+            { type: 'json', path: tempFile('extra.json', '["2025-03-10"]') },
+          ],
+        },
+      });
+
+      const result = await HolidaysService.getHolidays('PE', 2025, 2025);
+      const [, missing] = HolidaysService.getServiceStatus('PE').sources ?? [];
+
+      expect(get).not.toHaveBeenCalled();
+      expect(result.status).toBe(HolidayServiceStatus.DEGRADED);
+      expect(result.holidays).toEqual([...getPeruvianHolidaysForYear(2025), '2025-03-10'].sort());
+      expect(missing).toMatchObject({ status: 'FAILED', holidayCount: null });
+      expect(missing?.error).not.toBeNull();
+      expect(HolidaysService.getServiceStatus('PE').status).toBe(HolidayServiceStatus.DEGRADED);
+    });
+  });
+});
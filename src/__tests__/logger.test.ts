@@ -0,0 +1,54 @@
+import { Logger } from '../logger';
+
+describe('Logger', () => {
+  let log: jest.SpyInstance;
+
+  beforeEach(() => {
+    log = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    Logger.setLevel(undefined);
+    jest.restoreAllMocks();
+  });
+
+  const entries = (spy: jest.SpyInstance): Record<string, unknown>[] =>
+    spy.mock.calls.map(([line]) => JSON.parse(line as string));
+
+  test('should write one JSON object per entry', () => {
+    Logger.info('holiday_fetch_attempt', { country: 'CO', attempt: 1 });
+
+    expect(entries(log)).toEqual([
+      { timestamp: expect.any(String), level: 'info', event: 'holiday_fetch_attempt', country: 'CO', attempt: 1 },
+    ]);
+  });
+
+  test('should skip entries below the configured level', () => {
+    Logger.setLevel('warn');
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    Logger.info('ignored');
+    Logger.warn('kept');
+
+    expect(log).not.toHaveBeenCalled();
+    expect(entries(warn).map((entry) => entry.event)).toEqual(['kept']);
+  });
+
+  test('should add context fields to every entry across awaits', async () => {
+    await Logger.runWithContext({ requestId: 'abc-123' }, async () => {
+      await Promise.resolve();
+      Logger.info('holiday_fetch_retry');
+    });
+    Logger.info('outside');
+
+    expect(entries(log).map((entry) => entry.requestId)).toEqual(['abc-123', undefined]);
+  });
+
+  test('should serialize errors', () => {
+    const error = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    Logger.error('internal_error', { error: new Error('boom') });
+
+    expect(entries(error)[0]?.error).toEqual(expect.objectContaining({ name: 'Error', message: 'boom' }));
+  });
+});
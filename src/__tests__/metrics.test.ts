@@ -0,0 +1,48 @@
+import { Metrics } from '../metrics';
+
+describe('Metrics', () => {
+  afterEach(() => {
+    Metrics.reset();
+  });
+
+  test('should render counters with their help and type', () => {
+    Metrics.increment('holiday_fetch_attempts_total', { country: 'CO' });
+    Metrics.increment('holiday_fetch_attempts_total', { country: 'CO' }, 2);
+    Metrics.increment('holiday_fetch_attempts_total', { country: 'PE' });
+
+    const lines = Metrics.render().split('\n');
+
+    expect(lines).toContain('# HELP holiday_fetch_attempts_total Requests made to holiday services, including retries');
+    expect(lines).toContain('# TYPE holiday_fetch_attempts_total counter');
+    expect(lines).toContain('holiday_fetch_attempts_total{country="CO"} 3');
+    expect(lines).toContain('holiday_fetch_attempts_total{country="PE"} 1');
+  });
+
+  test('should render cumulative histogram buckets', () => {
+    const labels = { method: 'GET', route: '/health', status: '200' };
+    Metrics.observe('http_request_duration_seconds', labels, 0.003);
+    Metrics.observe('http_request_duration_seconds', labels, 0.2);
+    Metrics.observe('http_request_duration_seconds', labels, 30);
+
+    const lines = Metrics.render().split('\n');
+    const series = '{method="GET",route="/health",status="200"';
+
+    expect(lines).toContain(`http_request_duration_seconds_bucket${series},le="0.005"} 1`);
+    expect(lines).toContain(`http_request_duration_seconds_bucket${series},le="0.25"} 2`);
+    expect(lines).toContain(`http_request_duration_seconds_bucket${series},le="10"} 2`);
+    expect(lines).toContain(`http_request_duration_seconds_bucket${series},le="+Inf"} 3`);
+    expect(lines).toContain(`http_request_duration_seconds_sum${series}} 30.203`);
+    expect(lines).toContain(`http_request_duration_seconds_count${series}} 3`);
+  });
+
+  test('should remove gauges whose value is unknown and escape label values', () => {
+    Metrics.setGauge('holiday_cache_age_seconds', { country: 'CO' }, 12);
+    Metrics.setGauge('holiday_cache_age_seconds', { country: 'CO' }, null);
+    Metrics.increment('holiday_data_responses_total', { source: 'say "hi"\\' });
+
+    const output = Metrics.render();
+
+    expect(output).not.toContain('holiday_cache_age_seconds{');
+    expect(output).toContain('holiday_data_responses_total{source="say \\"hi\\"\\\\"} 1');
+  });
+});
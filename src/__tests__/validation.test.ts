@@ -1,5 +1,6 @@
 import { ValidationService } from '../validation';
 import { ErrorCodes } from '../types';
+import { DEFAULT_BUSINESS_RULES } from '../businessRules';
 
 describe('ValidationService', () => {
   describe('validateRequest', () => {
@@ -47,6 +48,40 @@ describe('ValidationService', () => {
       expect(result.error?.error).toBe(ErrorCodes.NEGATIVE_VALUES);
     });
 
+    test('should default direction to forward', () => {
+      const result = ValidationService.validateRequest({ days: '1' });
+
+      expect(result.isValid).toBe(true);
+      expect(result.parsedRequest?.direction).toBe('forward');
+    });
+
+    test('should accept backward direction', () => {
+      const result = ValidationService.validateRequest({ hours: '3', direction: 'backward' });
+
+      expect(result.isValid).toBe(true);
+      expect(result.parsedRequest?.direction).toBe('backward');
+    });
+
+    test('should reject unknown direction', () => {
+      const result = ValidationService.validateRequest({ hours: '3', direction: 'sideways' });
+
+      expect(result.isValid).toBe(false);
+      expect(result.error?.error).toBe(ErrorCodes.INVALID_PARAMETERS);
+    });
+
+    test('should round against the calculation direction by default', () => {
+      expect(ValidationService.validateRequest({ hours: '3' }).parsedRequest?.approximation).toBe('backward');
+      expect(ValidationService.validateRequest({ hours: '3', direction: 'backward' }).parsedRequest?.approximation).toBe('forward');
+    });
+
+    test('should accept an approximation policy and reject unknown ones', () => {
+      const strict = ValidationService.validateRequest({ hours: '3', approximation: 'strict' });
+      const unknown = ValidationService.validateRequest({ hours: '3', approximation: 'nearest' });
+
+      expect(strict.parsedRequest?.approximation).toBe('strict');
+      expect(unknown.error?.error).toBe(ErrorCodes.INVALID_PARAMETERS);
+    });
+
     test('should reject invalid days format', () => {
       const result = ValidationService.validateRequest({ days: 'abc' });
       
@@ -61,6 +96,74 @@ describe('ValidationService', () => {
       expect(result.error?.error).toBe(ErrorCodes.INVALID_PARAMETERS);
     });
 
+    test('should accept decimal hours that resolve to whole minutes', () => {
+      const result = ValidationService.validateRequest({ hours: '1.5' });
+
+      expect(result.isValid).toBe(true);
+      expect(result.parsedRequest?.hours).toBe(1.5);
+    });
+
+    test('should reject decimal hours that do not resolve to whole minutes', () => {
+      const result = ValidationService.validateRequest({ hours: '0.123' });
+
+      expect(result.isValid).toBe(false);
+      expect(result.error?.error).toBe(ErrorCodes.INVALID_PARAMETERS);
+    });
+
+    test('should reject fractional days', () => {
+      const result = ValidationService.validateRequest({ days: '1.5' });
+
+      expect(result.isValid).toBe(false);
+      expect(result.error?.error).toBe(ErrorCodes.INVALID_PARAMETERS);
+    });
+
+    test('should accept minutes parameter', () => {
+      const result = ValidationService.validateRequest({ hours: '1', minutes: '45' });
+
+      expect(result.isValid).toBe(true);
+      expect(result.parsedRequest?.hours).toBe(1);
+      expect(result.parsedRequest?.minutes).toBe(45);
+    });
+
+    test('should reject negative or fractional minutes', () => {
+      expect(ValidationService.validateRequest({ minutes: '-5' }).error?.error).toBe(ErrorCodes.NEGATIVE_VALUES);
+      expect(ValidationService.validateRequest({ minutes: '2.5' }).error?.error).toBe(ErrorCodes.INVALID_PARAMETERS);
+    });
+
+    test('should reject offsets of more than about 100 years', () => {
+      expect(ValidationService.validateRequest({ days: '25000' }).isValid).toBe(true);
+      expect(ValidationService.validateRequest({ days: '25001' }).error?.error).toBe(ErrorCodes.OFFSET_TOO_LARGE);
+      expect(ValidationService.validateRequest({ hours: '200000.5' }).error?.error).toBe(ErrorCodes.OFFSET_TOO_LARGE);
+      expect(ValidationService.validateRequest({ minutes: '99999999' }).error?.error).toBe(ErrorCodes.OFFSET_TOO_LARGE);
+      expect(ValidationService.validateRequest({ hours: '200000', minutes: '1' }).error?.error).toBe(ErrorCodes.OFFSET_TOO_LARGE);
+      expect(ValidationService.validateRequest({ duration: 'P30000D' }).error?.message).toContain('limited to 25000 days');
+    });
+
+    test('should parse an ISO 8601 duration', () => {
+      const result = ValidationService.validateRequest({ duration: 'P2DT3H30M' });
+
+      expect(result.isValid).toBe(true);
+      expect(result.parsedRequest?.days).toBe(2);
+      expect(result.parsedRequest?.hours).toBe(3);
+      expect(result.parsedRequest?.minutes).toBe(30);
+    });
+
+    test('should reject malformed or unsupported durations', () => {
+      for (const duration of ['P', 'PT', '2D', 'P1DT', 'PT1.25M', 'P1Y', 'P1M', 'P2W']) {
+        const result = ValidationService.validateRequest({ duration });
+
+        expect(result.isValid).toBe(false);
+        expect(result.error?.error).toBe(ErrorCodes.INVALID_DURATION);
+      }
+    });
+
+    test('should reject a duration combined with other amounts', () => {
+      const result = ValidationService.validateRequest({ duration: 'PT2H', hours: '1' });
+
+      expect(result.isValid).toBe(false);
+      expect(result.error?.error).toBe(ErrorCodes.INVALID_PARAMETERS);
+    });
+
     test('should accept valid ISO 8601 date with Z suffix', () => {
       const result = ValidationService.validateRequest({ 
         days: '1',
@@ -112,6 +215,256 @@ describe('ValidationService', () => {
     });
   });
 
+  describe('validateHolidayListRequest', () => {
+    test('should default to the current year', () => {
+      const year = new Date().getUTCFullYear();
+      const result = ValidationService.validateHolidayListRequest({});
+
+      expect(result.range).toEqual({ from: `${year}-01-01`, to: `${year}-12-31` });
+    });
+
+    test('should accept a year or a from/to range', () => {
+      expect(ValidationService.validateHolidayListRequest({ year: '2026' }).range)
+        .toEqual({ from: '2026-01-01', to: '2026-12-31' });
+      expect(ValidationService.validateHolidayListRequest({ from: '2026-03-01', to: '2026-04-30' }).range)
+        .toEqual({ from: '2026-03-01', to: '2026-04-30' });
+    });
+
+    test('should reject invalid years, dates and ranges', () => {
+      expect(ValidationService.validateHolidayListRequest({ year: '26' }).error?.error)
+        .toBe(ErrorCodes.INVALID_PARAMETERS);
+      expect(ValidationService.validateHolidayListRequest({ year: '2026', from: '2026-01-01' }).error?.error)
+        .toBe(ErrorCodes.INVALID_PARAMETERS);
+      expect(ValidationService.validateHolidayListRequest({ from: '2026-02-30', to: '2026-03-01' }).error?.error)
+        .toBe(ErrorCodes.INVALID_DATE_FORMAT);
+      expect(ValidationService.validateHolidayListRequest({ from: '2026-01-01' }).error?.error)
+        .toBe(ErrorCodes.INVALID_DATE_FORMAT);
+      expect(ValidationService.validateHolidayListRequest({ from: '2026-05-01', to: '2026-04-01' }).error?.error)
+        .toBe(ErrorCodes.INVALID_DATE_RANGE);
+      expect(ValidationService.validateHolidayListRequest({ from: '2020-01-01', to: '2030-01-01' }).error?.error)
+        .toBe(ErrorCodes.INVALID_DATE_RANGE);
+    });
+  });
+
+  describe('validateSlaRequest', () => {
+    test('should parse start, budget, pauses and now', () => {
+      const result = ValidationService.validateSlaRequest({
+        start: '2025-08-04T13:00:00Z',
+        duration: 'PT8H',
+        now: '2025-08-05T13:00:00Z',
+        pauses: [{ start: '2025-08-04T15:00:00Z', end: '2025-08-04T16:00:00Z' }, { start: '2025-08-04T20:00:00Z' }],
+      });
+
+      expect(result.isValid).toBe(true);
+      expect(result.parsedRequest?.hours).toBe(8);
+      expect(result.parsedRequest?.pauses).toEqual([
+        { start: new Date('2025-08-04T15:00:00Z'), end: new Date('2025-08-04T16:00:00Z') },
+        { start: new Date('2025-08-04T20:00:00Z'), end: null },
+      ]);
+    });
+
+    test('should require a start and a budget', () => {
+      expect(ValidationService.validateSlaRequest({ hours: 8 }).error?.error).toBe(ErrorCodes.INVALID_PARAMETERS);
+      expect(ValidationService.validateSlaRequest({ start: '2025-08-04T13:00:00Z' }).error?.error)
+        .toBe(ErrorCodes.INVALID_PARAMETERS);
+    });
+
+    test('should reject invalid pauses', () => {
+      const start = '2025-08-04T13:00:00Z';
+
+      expect(ValidationService.validateSlaRequest({ start, hours: 8, pauses: 'none' }).error?.error)
+        .toBe(ErrorCodes.INVALID_PARAMETERS);
+      expect(ValidationService.validateSlaRequest({ start, hours: 8, pauses: [{ start: '2025-08-04' }] }).error?.error)
+        .toBe(ErrorCodes.INVALID_DATE_FORMAT);
+      expect(ValidationService.validateSlaRequest({
+        start, hours: 8, pauses: [{ start: '2025-08-04T16:00:00Z', end: '2025-08-04T15:00:00Z' }],
+      }).error?.error).toBe(ErrorCodes.INVALID_DATE_RANGE);
+      expect(ValidationService.validateSlaRequest({
+        start, hours: 8, pauses: [{ start: '2025-08-04T15:00:00Z' }, { start: '2025-08-04T16:00:00Z' }],
+      }).error?.error).toBe(ErrorCodes.INVALID_PARAMETERS);
+    });
+  });
+
+  describe('validateBatchRequest', () => {
+    test('should accept an array of items within the limit', () => {
+      const result = ValidationService.validateBatchRequest([{ hours: 1 }, { days: 2 }], 2);
+
+      expect(result.isValid).toBe(true);
+      expect(result.items).toHaveLength(2);
+    });
+
+    test('should reject an empty or non-array body', () => {
+      expect(ValidationService.validateBatchRequest([], 10).error?.error).toBe(ErrorCodes.INVALID_PARAMETERS);
+      expect(ValidationService.validateBatchRequest({ hours: 1 }, 10).error?.error).toBe(ErrorCodes.INVALID_PARAMETERS);
+    });
+
+    test('should reject batches above the limit', () => {
+      const result = ValidationService.validateBatchRequest([{ hours: 1 }, { hours: 2 }, { hours: 3 }], 2);
+
+      expect(result.isValid).toBe(false);
+      expect(result.error?.error).toBe(ErrorCodes.BATCH_TOO_LARGE);
+    });
+  });
+
+  describe('validateBatchItem', () => {
+    test('should accept numeric JSON values', () => {
+      const result = ValidationService.validateBatchItem({ id: 'T-1', days: 1, hours: 1.5 });
+
+      expect(result.isValid).toBe(true);
+      expect(result.parsedRequest?.days).toBe(1);
+      expect(result.parsedRequest?.hours).toBe(1.5);
+    });
+
+    test('should reject an id that is not a string or number', () => {
+      const result = ValidationService.validateBatchItem({ id: { ticket: 1 }, hours: 1 });
+
+      expect(result.isValid).toBe(false);
+      expect(result.error?.error).toBe(ErrorCodes.INVALID_PARAMETERS);
+    });
+  });
+
+  describe('validateDurationRequest', () => {
+    test('should accept valid start and end dates', () => {
+      const result = ValidationService.validateDurationRequest({
+        start: '2025-08-01T14:00:00Z',
+        end: '2025-08-04T14:00:00.000Z'
+      });
+
+      expect(result.isValid).toBe(true);
+      expect(result.parsedRequest?.startDate).toBeInstanceOf(Date);
+      expect(result.parsedRequest?.endDate).toBeInstanceOf(Date);
+    });
+
+    test('should reject when start or end is missing', () => {
+      const result = ValidationService.validateDurationRequest({ start: '2025-08-01T14:00:00Z' });
+
+      expect(result.isValid).toBe(false);
+      expect(result.error?.error).toBe(ErrorCodes.INVALID_PARAMETERS);
+    });
+
+    test('should reject dates without Z suffix', () => {
+      const result = ValidationService.validateDurationRequest({
+        start: '2025-08-01T14:00:00',
+        end: '2025-08-04T14:00:00Z'
+      });
+
+      expect(result.isValid).toBe(false);
+      expect(result.error?.error).toBe(ErrorCodes.INVALID_DATE_FORMAT);
+    });
+
+    test('should reject end before start', () => {
+      const result = ValidationService.validateDurationRequest({
+        start: '2025-08-04T14:00:00Z',
+        end: '2025-08-01T14:00:00Z'
+      });
+
+      expect(result.isValid).toBe(false);
+      expect(result.error?.error).toBe(ErrorCodes.INVALID_DATE_RANGE);
+    });
+  });
+
+  describe('validateBusinessRules', () => {
+    test('should return the default rules when no schedule parameters are provided', () => {
+      const result = ValidationService.validateBusinessRules({ days: '1' });
+
+      expect(result.isValid).toBe(true);
+      expect(result.rules).toEqual(DEFAULT_BUSINESS_RULES);
+    });
+
+    test('should override working hours', () => {
+      const result = ValidationService.validateBusinessRules({ workStart: '7', workEnd: '16' });
+
+      expect(result.isValid).toBe(true);
+      expect(result.rules?.workingHours).toEqual({ start: 7, end: 16, lunchStart: 12, lunchEnd: 13 });
+    });
+
+    test('should remove the lunch break with lunch=none', () => {
+      const result = ValidationService.validateBusinessRules({ lunch: 'none' });
+
+      expect(result.isValid).toBe(true);
+      expect(result.rules?.workingHours).toMatchObject({ lunchStart: 17, lunchEnd: 17 });
+    });
+
+    test('should parse working segments', () => {
+      const result = ValidationService.validateBusinessRules({ segments: '06:00-10:00,10:30-14:00,15:00-18:00' });
+
+      expect(result.isValid).toBe(true);
+      expect(result.rules?.workingHours).toEqual([
+        { start: 360, end: 600 },
+        { start: 630, end: 840 },
+        { start: 900, end: 1080 },
+      ]);
+    });
+
+    test('should parse segments crossing midnight onto the next day', () => {
+      const result = ValidationService.validateBusinessRules({ segments: '22:00-02:00,03:00-06:00' });
+      const tooLong = ValidationService.validateBusinessRules({ segments: '06:00-22:00,23:00-07:00' });
+
+      expect(result.rules?.workingHours).toEqual([
+        { start: 1320, end: 1560 },
+        { start: 1620, end: 1800 },
+      ]);
+      expect(tooLong.error?.message).toContain('at most 24 hours');
+    });
+
+    test('should reject overlapping or malformed segments', () => {
+      const overlapping = ValidationService.validateBusinessRules({ segments: '08:00-12:00,11:00-17:00' });
+      const malformed = ValidationService.validateBusinessRules({ segments: '8-12' });
+      const combined = ValidationService.validateBusinessRules({ segments: '08:00-12:00', workEnd: '18' });
+
+      expect(overlapping.error?.message).toContain('must not overlap');
+      expect(malformed.error?.error).toBe('InvalidSchedule');
+      expect(combined.error?.message).toContain('cannot be combined');
+    });
+
+    test('should reject segment times outside the day', () => {
+      const pastMidnight = ValidationService.validateBusinessRules({ segments: '08:00-12:00,30:00-31:00' });
+      const lateStart = ValidationService.validateBusinessRules({ segments: '25:00-26:00' });
+      const lateEnd = ValidationService.validateBusinessRules({ segments: '18:00-24:30' });
+      const untilMidnight = ValidationService.validateBusinessRules({ segments: '18:00-24:00' });
+
+      expect(pastMidnight.error?.error).toBe('InvalidSchedule');
+      expect(lateStart.error?.error).toBe('InvalidSchedule');
+      expect(lateEnd.error?.error).toBe('InvalidSchedule');
+      expect(untilMidnight.rules?.workingHours).toEqual([{ start: 1080, end: 1440 }]);
+    });
+
+    test('should parse working days', () => {
+      const result = ValidationService.validateBusinessRules({ workingDays: '6,1,2,3,4,5' });
+
+      expect(result.isValid).toBe(true);
+      expect(result.rules?.workingDays).toEqual([1, 2, 3, 4, 5, 6]);
+    });
+
+    test('should reject invalid working days', () => {
+      const result = ValidationService.validateBusinessRules({ workingDays: '1,7' });
+
+      expect(result.isValid).toBe(false);
+      expect(result.error?.error).toBe(ErrorCodes.INVALID_SCHEDULE);
+    });
+
+    test('should reject working hours that end before they start', () => {
+      const result = ValidationService.validateBusinessRules({ workStart: '18' });
+
+      expect(result.isValid).toBe(false);
+      expect(result.error?.error).toBe(ErrorCodes.INVALID_SCHEDULE);
+    });
+
+    test('should reject a lunch break outside working hours', () => {
+      const result = ValidationService.validateBusinessRules({ lunchStart: '6', lunchEnd: '7' });
+
+      expect(result.isValid).toBe(false);
+      expect(result.error?.error).toBe(ErrorCodes.INVALID_SCHEDULE);
+    });
+
+    test('should reject unknown timezones', () => {
+      const result = ValidationService.validateBusinessRules({ timezone: 'Mars/Olympus_Mons' });
+
+      expect(result.isValid).toBe(false);
+      expect(result.error?.error).toBe(ErrorCodes.INVALID_SCHEDULE);
+    });
+  });
+
   describe('createInternalError', () => {
     test('should create internal error response', () => {
       const error = ValidationService.createInternalError('Test error message');
@@ -0,0 +1,352 @@
+import { ErrorCodes, ErrorResponse } from './types'
+
+/**
+ * Request parameters as OpenAPI 3 parameter objects. The same definitions are served in /openapi.json
+ * and checked by ValidationService, so the documented types, ranges and values are the enforced ones.
+ * Rules spanning several parameters (e.g. duration cannot be combined with days) stay in ValidationService.
+ */
+
+export interface JsonSchema {
+    type?: 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array'
+    description?: string
+    format?: string
+    pattern?: string
+    enum?: (string | number)[]
+    minimum?: number
+    maximum?: number
+    default?: unknown
+    example?: unknown
+    nullable?: boolean
+    items?: JsonSchema
+    properties?: Record<string, JsonSchema>
+    required?: string[]
+    additionalProperties?: boolean | JsonSchema
+    oneOf?: JsonSchema[]
+    $ref?: string
+}
+
+// Schema checks a parameter value can fail, in the order they are applied
+export type ParameterCheck = 'required' | 'type' | 'integer' | 'minimum' | 'maximum' | 'enum' | 'pattern'
+
+export interface ParameterSpec {
+    name: string
+    in: 'query' | 'path' | 'header'
+    description: string
+    required?: boolean
+    schema: JsonSchema
+    // Error returned for a failed check instead of the generic InvalidParameters one
+    'x-errors'?: Partial<Record<ParameterCheck, ErrorResponse>>
+}
+
+// ISO 8601 instant in UTC, as accepted by every date-time parameter
+export const ISO_DATE_TIME_PATTERN = '^\\d{4}-\\d{2}-\\d{2}T\\d{2}:\\d{2}:\\d{2}(\\.\\d{3})?Z$'
+
+const ISO_DATE_TIME_SCHEMA: JsonSchema = {
+    type: 'string',
+    format: 'date-time',
+    pattern: ISO_DATE_TIME_PATTERN,
+    example: '2025-08-01T14:00:00Z',
+}
+
+const CALENDAR_DATE_SCHEMA: JsonSchema = {
+    type: 'string',
+    format: 'date',
+    pattern: '^\\d{4}-\\d{2}-\\d{2}$',
+    example: '2026-01-01',
+}
+
+// Largest offsets accepted, about 100 years of business time, so a typo cannot keep a request busy
+export const MAX_BUSINESS_DAYS = 25000
+export const MAX_BUSINESS_HOURS = 200000
+// Calendar days the largest day offset spans at five business days a week, the limit for measured intervals
+export const MAX_SPAN_DAYS = Math.ceil((MAX_BUSINESS_DAYS * 7) / 5)
+
+const invalid = (message: string): ErrorResponse => ({ error: ErrorCodes.INVALID_PARAMETERS, message })
+const negative = (message: string): ErrorResponse => ({ error: ErrorCodes.NEGATIVE_VALUES, message })
+const schedule = (message: string): ErrorResponse => ({ error: ErrorCodes.INVALID_SCHEDULE, message })
+const tooLarge = (message: string): ErrorResponse => ({ error: ErrorCodes.OFFSET_TOO_LARGE, message })
+
+const dateTimeParameter = (name: string, description: string, required = false): ParameterSpec => ({
+    name,
+    in: 'query',
+    description,
+    ...(required && { required }),
+    schema: ISO_DATE_TIME_SCHEMA,
+    'x-errors': {
+        pattern: {
+            error: ErrorCodes.INVALID_DATE_FORMAT,
+            message: `${capitalize(name)} must be in ISO 8601 format with Z suffix (e.g., 2025-08-01T14:00:00Z)`,
+        },
+    },
+})
+
+const rangeDateParameter = (name: string, description: string): ParameterSpec => {
+    const error: ErrorResponse = {
+        error: ErrorCodes.INVALID_DATE_FORMAT,
+        message: 'From and to parameters must both be dates in YYYY-MM-DD format (e.g., 2026-01-01)',
+    }
+    return { name, in: 'query', description, schema: CALENDAR_DATE_SCHEMA, 'x-errors': { type: error, pattern: error } }
+}
+
+export const CALCULATION_PARAMETERS: ParameterSpec[] = [
+    {
+        name: 'days',
+        in: 'query',
+        description: 'Business days to add (or subtract with direction=backward)',
+        schema: { type: 'integer', minimum: 0, maximum: MAX_BUSINESS_DAYS, example: 1 },
+        'x-errors': {
+            type: invalid('Days parameter must be a valid number'),
+            minimum: negative('Days parameter must be a positive integer (use direction=backward to subtract)'),
+            integer: invalid('Days parameter must be a whole number of business days'),
+            maximum: tooLarge(`Days parameter must be at most ${MAX_BUSINESS_DAYS} business days`),
+        },
+    },
+    {
+        name: 'hours',
+        in: 'query',
+        description: 'Business hours to add; decimals must resolve to whole minutes (e.g., 1.5)',
+        schema: { type: 'number', minimum: 0, maximum: MAX_BUSINESS_HOURS, example: 3 },
+        'x-errors': {
+            type: invalid('Hours parameter must be a valid number'),
+            minimum: negative('Hours parameter must be a positive number (use direction=backward to subtract)'),
+            maximum: tooLarge(`Hours parameter must be at most ${MAX_BUSINESS_HOURS} business hours`),
+        },
+    },
+    {
+        name: 'minutes',
+        in: 'query',
+        description: 'Business minutes to add',
+        schema: { type: 'integer', minimum: 0, maximum: MAX_BUSINESS_HOURS * 60, example: 90 },
+        'x-errors': {
+            type: invalid('Minutes parameter must be a valid number'),
+            minimum: negative('Minutes parameter must be a positive integer (use direction=backward to subtract)'),
+            integer: invalid('Minutes parameter must be a whole number'),
+            maximum: tooLarge(`Minutes parameter must be at most ${MAX_BUSINESS_HOURS * 60} business minutes`),
+        },
+    },
+    {
+        name: 'duration',
+        in: 'query',
+        description:
+            'ISO 8601 duration of business days, hours and minutes (e.g., P2DT3H30M); cannot be combined with days, hours or minutes',
+        schema: { type: 'string', example: 'P1DT2H' },
+    },
+    dateTimeParameter('date', 'Start date in UTC; defaults to now'),
+    {
+        name: 'direction',
+        in: 'query',
+        description: 'forward adds business time; backward finds the latest start that finishes by date',
+        schema: { type: 'string', enum: ['forward', 'backward'], default: 'forward' },
+        'x-errors': { enum: invalid('Direction parameter must be either forward or backward') },
+    },
+    {
+        name: 'approximation',
+        in: 'query',
+        description:
+            'How a start outside business time is moved into it; strict rejects it. Defaults to the opposite of direction',
+        schema: { type: 'string', enum: ['backward', 'forward', 'strict'] },
+        'x-errors': { enum: invalid('Approximation parameter must be backward, forward or strict') },
+    },
+]
+
+export const EXPLAIN_PARAMETERS: ParameterSpec[] = [
+    {
+        name: 'explain',
+        in: 'query',
+        description:
+            'Add a step-by-step explanation: the start adjustment, every day crossed with the business minutes used, closed days with holiday names, breaks crossed and the holiday data used',
+        schema: { type: 'boolean', default: false },
+        'x-errors': { type: invalid('Explain parameter must be true or false') },
+    },
+]
+
+const hourParameter = (name: string, description: string): ParameterSpec => ({
+    name,
+    in: 'query',
+    description,
+    schema: { type: 'number', minimum: 0, maximum: 24 },
+    'x-errors': Object.fromEntries(
+        (['type', 'minimum', 'maximum'] as const).map((check) => [
+            check,
+            schedule(`${name} parameter must be an hour between 0 and 24`),
+        ])
+    ),
+})
+
+export const SCHEDULE_PARAMETERS: ParameterSpec[] = [
+    hourParameter('workStart', 'Start of the working day (decimal hour, e.g., 7.5)'),
+    hourParameter('workEnd', 'End of the working day (decimal hour)'),
+    hourParameter('lunchStart', 'Start of the lunch break (decimal hour)'),
+    hourParameter('lunchEnd', 'End of the lunch break (decimal hour)'),
+    {
+        name: 'lunch',
+        in: 'query',
+        description: 'none removes the lunch break',
+        schema: { type: 'string', enum: ['none'] },
+        'x-errors': { enum: schedule('Lunch parameter only accepts none') },
+    },
+    {
+        name: 'segments',
+        in: 'query',
+        description:
+            'Working segments as comma-separated HH:mm-HH:mm ranges; a range ending before it starts crosses midnight',
+        schema: { type: 'string', example: '06:00-10:00,10:30-14:00' },
+    },
+    {
+        name: 'workingDays',
+        in: 'query',
+        description: 'Comma-separated weekdays (0 = Sunday, 6 = Saturday)',
+        schema: { type: 'string', pattern: '^[0-6](,[0-6])*$', example: '1,2,3,4,5' },
+        'x-errors': {
+            pattern: schedule(
+                'workingDays parameter must be a comma-separated list of weekdays (0 = Sunday, 6 = Saturday)'
+            ),
+        },
+    },
+    {
+        name: 'timezone',
+        in: 'query',
+        description: 'IANA timezone of the working hours',
+        schema: { type: 'string', example: 'America/Bogota' },
+    },
+]
+
+export const CALENDAR_PARAMETERS: ParameterSpec[] = [
+    {
+        name: 'calendar',
+        in: 'query',
+        description: 'Named calendar profile; defaults to the default profile',
+        schema: { type: 'string', default: 'default' },
+    },
+    {
+        name: 'country',
+        in: 'query',
+        description: 'Holiday calendar country (ISO 3166-1 alpha-2); also sets its default timezone',
+        schema: { type: 'string', example: 'CO' },
+    },
+]
+
+export const DURATION_PARAMETERS: ParameterSpec[] = [
+    dateTimeParameter('start', 'Start instant in UTC', true),
+    dateTimeParameter('end', 'End instant in UTC', true),
+]
+
+export const STATUS_PARAMETERS: ParameterSpec[] = [
+    dateTimeParameter('date', 'Instant to check in UTC; defaults to now'),
+]
+
+export const HOLIDAY_RANGE_PARAMETERS: ParameterSpec[] = [
+    {
+        name: 'year',
+        in: 'query',
+        description: 'Single year to list; defaults to the current year. Cannot be combined with from/to',
+        schema: { type: 'string', pattern: '^\\d{4}$', example: '2026' },
+        'x-errors': { pattern: invalid('Year parameter must be a four-digit year (e.g., 2026)') },
+    },
+    rangeDateParameter('from', 'First date of the range (inclusive)'),
+    rangeDateParameter('to', 'Last date of the range (inclusive)'),
+]
+
+export const CALENDAR_EXPORT_PARAMETERS: ParameterSpec[] = [
+    ...HOLIDAY_RANGE_PARAMETERS,
+    {
+        name: 'workingHours',
+        in: 'query',
+        description: 'Include every working segment of the business days as timed events',
+        schema: { type: 'boolean', default: false },
+        'x-errors': { type: invalid('WorkingHours parameter must be true or false') },
+    },
+]
+
+export const AUDIT_PARAMETERS: ParameterSpec[] = [
+    {
+        name: 'limit',
+        in: 'query',
+        description: 'Number of entries to return, most recent first',
+        schema: { type: 'integer', minimum: 1, maximum: 1000, default: 100 },
+    },
+]
+
+/**
+ * Check parameter values against their schemas, returning the first error. Values come from the query
+ * string, so numbers and booleans are checked in their string form
+ */
+export function validateParameters(parameters: ParameterSpec[], values: Record<string, unknown>): ErrorResponse | null {
+    for (const parameter of parameters) {
+        const failedCheck = getFailedCheck(parameter, values[parameter.name])
+        if (failedCheck) {
+            return parameter['x-errors']?.[failedCheck] ?? invalid(getDefaultMessage(parameter, failedCheck))
+        }
+    }
+
+    return null
+}
+
+function getFailedCheck(parameter: ParameterSpec, value: unknown): ParameterCheck | null {
+    const { schema } = parameter
+
+    if (value === undefined) {
+        return parameter.required ? 'required' : null
+    }
+
+    if (typeof value !== 'string') {
+        return 'type'
+    }
+
+    if (schema.type === 'boolean') {
+        return value === 'true' || value === 'false' ? null : 'type'
+    }
+
+    if (schema.type === 'number' || schema.type === 'integer') {
+        const number = Number(value)
+        if (value.trim() === '' || isNaN(number)) {
+            return 'type'
+        }
+        if (schema.minimum !== undefined && number < schema.minimum) {
+            return 'minimum'
+        }
+        if (schema.type === 'integer' && !Number.isInteger(number)) {
+            return 'integer'
+        }
+        if (schema.maximum !== undefined && number > schema.maximum) {
+            return 'maximum'
+        }
+        return null
+    }
+
+    if (schema.enum && !schema.enum.includes(value)) {
+        return 'enum'
+    }
+
+    if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+        return 'pattern'
+    }
+
+    return null
+}
+
+function getDefaultMessage(parameter: ParameterSpec, check: ParameterCheck): string {
+    const { name, schema } = parameter
+    const label = `${capitalize(name)} parameter`
+
+    switch (check) {
+        case 'required':
+            return `${label} must be provided`
+        case 'type':
+            return schema.type === 'string' ? `${label} must be a string` : `${label} must be a valid ${schema.type}`
+        case 'integer':
+            return `${label} must be a whole number`
+        case 'minimum':
+            return `${label} must be at least ${schema.minimum}`
+        case 'maximum':
+            return `${label} must be at most ${schema.maximum}`
+        case 'enum':
+            return `${label} must be one of ${schema.enum?.join(', ')}`
+        case 'pattern':
+            return `${label} has an invalid format`
+    }
+}
+
+function capitalize(name: string): string {
+    return `${name.charAt(0).toUpperCase()}${name.slice(1)}`
+}
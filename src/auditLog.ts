@@ -0,0 +1,94 @@
+import { appendFileSync, existsSync, readFileSync } from 'fs'
+import { Logger } from './logger'
+
+/**
+ * Audit trail of the changes made through the admin endpoints. The most recent entries are kept in
+ * memory; with a file configured, every entry is also appended to it as a JSON line and the trail
+ * survives restarts
+ */
+
+export interface AuditEntry {
+    timestamp: string
+    action: string
+    target: string // Country or calendar the action applied to
+    actor: string | null // X-Admin-User header, since admins share one token
+    requestId: string | null
+    details: Record<string, unknown>
+}
+
+export class AuditLog {
+    private static entries: AuditEntry[] = []
+    private static filePath = ''
+    private static readonly MAX_ENTRIES = 1000
+
+    /**
+     * Append future entries to a file and load the latest entries already in it
+     */
+    public static loadFromFile(filePath: string): void {
+        this.filePath = filePath
+        this.entries = []
+
+        if (!existsSync(filePath)) {
+            return
+        }
+
+        for (const line of readFileSync(filePath, 'utf8').split('\n')) {
+            if (line.trim() === '') {
+                continue
+            }
+            try {
+                this.entries.push(JSON.parse(line) as AuditEntry)
+            } catch {
+                Logger.warn('audit_log_line_ignored', { file: filePath })
+            }
+        }
+        this.entries = this.entries.slice(-this.MAX_ENTRIES)
+    }
+
+    public static record(
+        action: string,
+        target: string,
+        actor: string | null,
+        details: Record<string, unknown> = {}
+    ): AuditEntry {
+        const requestId = Logger.getContext().requestId
+        const entry: AuditEntry = {
+            timestamp: new Date().toISOString(),
+            action,
+            target,
+            actor,
+            requestId: typeof requestId === 'string' ? requestId : null,
+            details,
+        }
+
+        this.entries.push(entry)
+        if (this.entries.length > this.MAX_ENTRIES) {
+            this.entries.shift()
+        }
+
+        Logger.info('admin_action', { action, target, actor, details })
+
+        if (this.filePath) {
+            try {
+                appendFileSync(this.filePath, `${JSON.stringify(entry)}\n`)
+            } catch (error) {
+                // The action already happened; losing its file entry must not fail the request
+                Logger.error('audit_log_write_failed', { file: this.filePath, error })
+            }
+        }
+
+        return entry
+    }
+
+    /**
+     * Most recent entries first
+     */
+    public static list(limit: number = this.MAX_ENTRIES): AuditEntry[] {
+        return this.entries.slice(-limit).reverse()
+    }
+
+    public static reset(): void {
+        this.entries = []
+        this.filePath = ''
+    }
+}
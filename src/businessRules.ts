@@ -0,0 +1,186 @@
+import { BusinessRules, DayHours, DaySchedule, WorkingHours } from './types'
+
+/**
+ * Default business rules: Monday to Friday, 8:00 AM - 5:00 PM with a
+ * 12:00 PM - 1:00 PM lunch break, in Colombia time
+ */
+export const DEFAULT_BUSINESS_RULES: BusinessRules = {
+    workingHours: {
+        start: 8, // 8:00 AM
+        end: 17, // 5:00 PM
+        lunchStart: 12, // 12:00 PM
+        lunchEnd: 13, // 1:00 PM
+    },
+    weekdayHours: {},
+    dateHours: {},
+    workingDays: [1, 2, 3, 4, 5], // Monday = 1, ..., Friday = 5
+    workingDates: [],
+    timezone: 'America/Bogota',
+    holidaysUrl: process.env.HOLIDAYS_URL || '',
+}
+
+/**
+ * Check that a working day is consistent, returning a description of the problem if not
+ */
+export function getWorkingHoursError(workingHours: WorkingHours): string | null {
+    const { start, end, lunchStart, lunchEnd } = workingHours
+
+    if ([start, end, lunchStart, lunchEnd].some((hour) => !Number.isFinite(hour) || hour < 0 || hour > 24)) {
+        return 'Working hours must be hours between 0 and 24'
+    }
+
+    if (start >= end) {
+        return 'Working hours must start before they end'
+    }
+
+    if (lunchStart < start || lunchEnd > end || lunchStart > lunchEnd) {
+        return 'Lunch break must fall within working hours'
+    }
+
+    return null
+}
+
+const MINUTES_PER_DAY = 24 * 60
+
+/**
+ * Check that segments are ordered and non-overlapping, returning the problem if not. Segments may
+ * run past midnight (minutes above 1440) as long as the day starts before midnight and spans at most 24 hours
+ */
+export function getDayScheduleError(schedule: DaySchedule): string | null {
+    const [first] = schedule
+    const last = schedule[schedule.length - 1]
+    if (!first || !last) {
+        return 'Working segments must include at least one segment'
+    }
+
+    if (!Number.isInteger(first.start) || first.start < 0 || first.start >= MINUTES_PER_DAY) {
+        return 'Working segments must start between 00:00 and 24:00'
+    }
+
+    if (last.end - first.start > MINUTES_PER_DAY) {
+        return 'Working segments must span at most 24 hours'
+    }
+
+    for (const [index, segment] of schedule.entries()) {
+        const { start, end } = segment
+        if (!Number.isInteger(start) || !Number.isInteger(end)) {
+            return 'Working segments must be whole minutes'
+        }
+
+        if (start >= end) {
+            return 'Working segments must start before they end'
+        }
+
+        const previous = schedule[index - 1]
+        if (previous && start < previous.end) {
+            return 'Working segments must be in order and must not overlap'
+        }
+    }
+
+    return null
+}
+
+/**
+ * Working segments of a day; start/end working hours become the morning and afternoon around lunch
+ */
+export function toDaySchedule(hours: DayHours): DaySchedule {
+    if (Array.isArray(hours)) {
+        return hours
+    }
+
+    const [start, lunchStart, lunchEnd, end] = [hours.start, hours.lunchStart, hours.lunchEnd, hours.end].map((hour) =>
+        Math.round(hour * 60)
+    ) as [number, number, number, number]
+
+    return [
+        { start, end: lunchStart },
+        { start: lunchEnd, end },
+    ].filter((segment) => segment.start < segment.end)
+}
+
+/**
+ * Start/end working hours spanning a day's segments; only a two-segment day keeps its break as lunch
+ */
+export function toWorkingHours(hours: DayHours): WorkingHours {
+    if (!Array.isArray(hours)) {
+        return hours
+    }
+
+    const [first, second] = hours
+    const last = hours[hours.length - 1]
+    const start = (first?.start ?? 0) / 60
+    const end = (last?.end ?? 0) / 60
+
+    if (hours.length === 2 && first && second) {
+        return { start, end, lunchStart: first.end / 60, lunchEnd: second.start / 60 }
+    }
+
+    return { start, end, lunchStart: end, lunchEnd: end }
+}
+
+/**
+ * Parse comma-separated working segments such as "06:00-10:00,10:30-14:00"; null when malformed.
+ * A segment ending before it starts crosses midnight, so "22:00-06:00" is a night shift, and the
+ * segments after it are on the next day
+ */
+export function parseDaySchedule(value: string): DaySchedule | null {
+    const segments: DaySchedule = []
+    let dayOffset = 0
+
+    for (const part of value.split(',')) {
+        const match = /^\s*(\d{1,2}):(\d{2})\s*-\s*(\d{1,2}):(\d{2})\s*$/.exec(part)
+        if (!match) {
+            return null
+        }
+
+        const [startHour, startMinute, endHour, endMinute] = match.slice(1).map(Number) as [
+            number,
+            number,
+            number,
+            number,
+        ]
+        if (startMinute > 59 || endMinute > 59) {
+            return null
+        }
+        // Times are within a day; 24:00 is only allowed as an end, for a segment running until midnight
+        if (startHour > 23 || endHour > 24 || (endHour === 24 && endMinute > 0)) {
+            return null
+        }
+
+        const start = startHour * 60 + startMinute + dayOffset
+        let end = endHour * 60 + endMinute + dayOffset
+        if (end < start) {
+            dayOffset += MINUTES_PER_DAY
+            end += MINUTES_PER_DAY
+        }
+
+        segments.push({ start, end })
+    }
+
+    return segments
+}
+
+export function formatDaySchedule(schedule: DaySchedule): string {
+    const formatTime = (dayMinutes: number): string => {
+        // Times past midnight are written as on the next day, e.g. 1800 as 06:00
+        const minutes = dayMinutes > MINUTES_PER_DAY ? dayMinutes - MINUTES_PER_DAY : dayMinutes
+        return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`
+    }
+    return schedule.map((segment) => `${formatTime(segment.start)}-${formatTime(segment.end)}`).join(',')
+}
+
+export function isValidWorkingDays(workingDays: unknown[]): workingDays is number[] {
+    return (
+        workingDays.length > 0 &&
+        workingDays.every((day) => Number.isInteger(day) && Number(day) >= 0 && Number(day) <= 6)
+    )
+}
+
+export function isValidTimezone(timezone: string): boolean {
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone: timezone })
+        return true
+    } catch {
+        return false
+    }
+}
@@ -1,16 +1,37 @@
 import { zonedTimeToUtc, utcToZonedTime } from 'date-fns-tz'
-import { addDays, getDay, getHours, getMinutes, setHours, setMinutes, addMinutes, subDays } from 'date-fns'
-import { WorkingHours, TimeAdjustment, ColombianHolidays } from './types'
-import { HolidaysService } from './holidays'
+import { addDays, differenceInCalendarDays, format, getDay, parseISO, setMinutes, subDays, startOfDay } from 'date-fns'
+import {
+    ApproximationPolicy,
+    BusinessRules,
+    BusinessTimeResult,
+    BusinessTimeTrace,
+    BusinessTimeTraceDay,
+    BusinessStatus,
+    TimeAdjustment,
+    HolidayList,
+    CalculationDirection,
+    PauseInterval,
+    SlaStatus,
+    DaySchedule,
+    ScheduleExceptions,
+    WorkingSegment,
+} from './types'
+import { HolidaysService, fromDateKey, toDateKey } from './holidays'
+import { DEFAULT_BUSINESS_RULES, toDaySchedule } from './businessRules'
 
 export class BusinessTimeCalculator {
     private static readonly COLOMBIA_TIMEZONE = 'America/Bogota'
-    private static readonly WORKING_HOURS: WorkingHours = {
-        start: 8, // 8:00 AM
-        end: 17, // 5:00 PM
-        lunchStart: 12, // 12:00 PM
-        lunchEnd: 13, // 1:00 PM
-    }
+
+    // Longest run of non-working days searched for the next opening
+    private static readonly MAX_CLOSED_DAYS = 366
+
+    // Most calendar days listed in a calculation trace
+    private static readonly MAX_TRACE_DAYS = 366
+
+    private static readonly DAY_MS = 24 * 60 * 60 * 1000
+
+    // Built once per holiday list and rules, which are not modified once built
+    private static scheduleExceptions: WeakMap<HolidayList, WeakMap<BusinessRules, ScheduleExceptions>> = new WeakMap()
 
     public static getCurrentColombiaTime(): Date {
         return utcToZonedTime(new Date(), this.COLOMBIA_TIMEZONE)
@@ -24,163 +45,254 @@ export class BusinessTimeCalculator {
         return zonedTimeToUtc(colombiaDate, this.COLOMBIA_TIMEZONE)
     }
 
-    public static isBusinessDay(date: Date, holidays: ColombianHolidays): boolean {
+    public static utcToBusinessTime(utcDate: Date, rules: BusinessRules = DEFAULT_BUSINESS_RULES): Date {
+        return utcToZonedTime(utcDate, rules.timezone)
+    }
+
+    public static businessTimeToUtc(zonedDate: Date, rules: BusinessRules = DEFAULT_BUSINESS_RULES): Date {
+        return zonedTimeToUtc(zonedDate, rules.timezone)
+    }
+
+    public static isBusinessDay(
+        date: Date,
+        holidays: HolidayList,
+        rules: BusinessRules = DEFAULT_BUSINESS_RULES
+    ): boolean {
+        // Forced working dates override both the weekday and holidays
+        if (rules.workingDates.length > 0 && HolidaysService.getDateIndex(rules.workingDates).has(toDateKey(date))) {
+            return true
+        }
+
         const dayOfWeek = getDay(date)
         // Monday = 1, Tuesday = 2, ..., Friday = 5, Saturday = 6, Sunday = 0
-        if (dayOfWeek === 0 || dayOfWeek === 6) {
+        if (!rules.workingDays.includes(dayOfWeek)) {
             return false // Weekend
         }
 
         return !HolidaysService.isHoliday(date, holidays)
     }
 
-    public static isWithinWorkingHours(date: Date): boolean {
-        const hours = getHours(date)
-        const minutes = getMinutes(date)
-        const totalMinutes = hours * 60 + minutes
-
-        const startMinutes = this.WORKING_HOURS.start * 60
-        const lunchStartMinutes = this.WORKING_HOURS.lunchStart * 60
-        const lunchEndMinutes = this.WORKING_HOURS.lunchEnd * 60
-        const endMinutes = this.WORKING_HOURS.end * 60
-
-        return (
-            (totalMinutes >= startMinutes && totalMinutes < lunchStartMinutes) ||
-            (totalMinutes >= lunchEndMinutes && totalMinutes < endMinutes)
+    public static isWithinWorkingHours(date: Date, rules: BusinessRules = DEFAULT_BUSINESS_RULES): boolean {
+        // Time after midnight may still belong to the previous day's night shift
+        const day = startOfDay(date)
+        return [subDays(day, 1), day].some((candidate) =>
+            this.getWorkingSegments(candidate, rules).some((segment) => segment.start <= date && date < segment.end)
         )
     }
 
-    public static adjustToPrevBusinessTime(date: Date, holidays: ColombianHolidays): TimeAdjustment {
-        let adjustedDate = new Date(date)
-        let wasAdjusted = false
-        let reason = ''
-        let movedToPrevBusinessDay = false
+    public static adjustToPrevBusinessTime(
+        date: Date,
+        holidays: HolidayList,
+        rules: BusinessRules = DEFAULT_BUSINESS_RULES
+    ): TimeAdjustment {
+        const segment = this.findSegmentStartingBefore(date, holidays, rules, true)
 
-        // First, move to nearest previous business day if needed
-        while (!this.isBusinessDay(adjustedDate, holidays)) {
-            adjustedDate = subDays(adjustedDate, 1)
-            wasAdjusted = true
-            movedToPrevBusinessDay = true
-            reason = 'Moved to next business day (weekend/holiday)'
+        // Already within working time, including the end of a segment
+        if (!segment || date <= segment.end) {
+            return { date: new Date(date), wasAdjusted: false, reason: '' }
         }
 
-        // If we moved to a different business day, always start at 8 AM
-        if (movedToPrevBusinessDay) {
-            adjustedDate = setHours(setMinutes(adjustedDate, 0), this.WORKING_HOURS.end)
-            return { date: adjustedDate, wasAdjusted, reason }
+        // Otherwise go back to the end of the last segment worked, described from the date's own day
+        const daySegments = this.getBusinessSegments(startOfDay(date), holidays, rules)
+        const firstSegment = daySegments[0]
+        const lastSegment = daySegments[daySegments.length - 1]
+        let reason: string
+
+        if (!firstSegment || !lastSegment) {
+            reason = 'Moved to previous business day (weekend/holiday)'
+        } else if (date < firstSegment.start) {
+            reason = `Adjusted to previous business day end (${this.formatTime(segment.end)})`
+        } else if (date >= lastSegment.end) {
+            reason = 'Adjusted to end of business day (after hours)'
+        } else {
+            reason = `Adjusted to start of break (${this.formatTime(segment.end)})`
         }
 
-        // If we're on the same business day, adjust time to working hours if needed
-        const hours = getHours(adjustedDate)
-        const minutes = getMinutes(adjustedDate)
-        const totalMinutes = hours * 60 + minutes
+        return { date: segment.end, wasAdjusted: true, reason }
+    }
 
-        if (totalMinutes < this.WORKING_HOURS.start * 60) {
-            // Before work starts - set to 5:00 PM of previous business day
-            adjustedDate = subDays(adjustedDate, 1)
-            adjustedDate = setHours(setMinutes(adjustedDate, 0), this.WORKING_HOURS.end)
+    public static adjustToNextBusinessTime(
+        date: Date,
+        holidays: HolidayList,
+        rules: BusinessRules = DEFAULT_BUSINESS_RULES
+    ): TimeAdjustment {
+        const segment = this.findSegmentEndingAfter(date, holidays, rules, true)
 
-            // Check if previous day is also a business day
-            while (!this.isBusinessDay(adjustedDate, holidays)) {
-                adjustedDate = subDays(adjustedDate, 1)
-            }
+        // Already within working time, including the end of a segment
+        if (!segment || segment.start <= date) {
+            return { date: new Date(date), wasAdjusted: false, reason: '' }
+        }
 
-            wasAdjusted = true
-            reason = 'Adjusted to previoius business day end (5:00 PM)'
-        } else if (
-            totalMinutes >= this.WORKING_HOURS.lunchStart * 60 &&
-            totalMinutes < this.WORKING_HOURS.lunchEnd * 60
-        ) {
-            // During lunch - set to 12:00 PM
-            adjustedDate = setHours(setMinutes(adjustedDate, 0), this.WORKING_HOURS.lunchStart)
-            wasAdjusted = true
-            reason = 'Adjusted to start of lunch break (12:00 PM)'
-        } else if (totalMinutes >= this.WORKING_HOURS.end * 60) {
-            // After work ends - set to same business day at 5:00 PM
-            adjustedDate = setHours(setMinutes(adjustedDate, 0), this.WORKING_HOURS.end)
+        // Otherwise go forward to the start of the next segment, described from the date's own day
+        const daySegments = this.getBusinessSegments(startOfDay(date), holidays, rules)
+        const firstSegment = daySegments[0]
+        const lastSegment = daySegments[daySegments.length - 1]
+        let reason: string
 
-            wasAdjusted = true
-            reason = 'Adjusted to end of business day (after hours)'
+        if (!firstSegment || !lastSegment) {
+            reason = 'Moved to next business day (weekend/holiday)'
+        } else if (date < firstSegment.start) {
+            reason = 'Adjusted to start of business day (before hours)'
+        } else if (date > lastSegment.end) {
+            reason = `Adjusted to next business day start (${this.formatTime(segment.start)})`
+        } else {
+            reason = `Adjusted to end of break (${this.formatTime(segment.start)})`
         }
 
-        return { date: adjustedDate, wasAdjusted, reason }
+        return { date: segment.start, wasAdjusted: true, reason }
     }
 
-    public static addBusinessDays(startDate: Date, businessDays: number, holidays: ColombianHolidays): Date {
+    public static addBusinessDays(
+        startDate: Date,
+        businessDays: number,
+        holidays: HolidayList,
+        rules: BusinessRules = DEFAULT_BUSINESS_RULES
+    ): Date {
         if (businessDays === 0) return startDate
 
-        let currentDate = new Date(startDate)
+        // Count from the day whose shift the start date belongs to
+        const shiftDay = this.getShiftDay(startDate, holidays, rules)
+        // Offsets longer than a week skip whole weeks at once
+        const exceptions =
+            businessDays > this.getBusinessDaysPerWeek(rules) ? this.getScheduleExceptions(holidays, rules) : null
+        let currentDay = shiftDay
         let remainingDays = businessDays
 
         while (remainingDays > 0) {
-            currentDate = addDays(currentDate, 1)
+            const skip = exceptions && this.skipDayWeeks(currentDay, remainingDays, exceptions, rules, 'forward')
+            if (skip && skip.weeks > 0) {
+                currentDay = addDays(currentDay, skip.weeks * 7)
+                remainingDays -= skip.businessDays
+                continue
+            }
+
+            currentDay = addDays(currentDay, 1)
 
-            if (this.isBusinessDay(currentDate, holidays)) {
+            if (this.isBusinessDay(currentDay, holidays, rules)) {
                 remainingDays--
             }
         }
 
-        return currentDate
+        const currentDate = addDays(startDate, differenceInCalendarDays(currentDay, shiftDay))
+        return this.snapToWorkingHours(currentDate, currentDay, rules, 'forward')
     }
 
-    public static addBusinessHours(startDate: Date, businessHours: number, holidays: ColombianHolidays): Date {
+    public static addBusinessHours(
+        startDate: Date,
+        businessHours: number,
+        holidays: HolidayList,
+        rules: BusinessRules = DEFAULT_BUSINESS_RULES
+    ): Date {
         if (businessHours === 0) return startDate
 
-        let currentDate = new Date(startDate)
-        let remainingMinutes = businessHours * 60
+        // Ensure we're on a business day and within working hours
+        let currentDate = this.adjustToPrevBusinessTime(startDate, holidays, rules).date
+        let remainingMs = Math.round(businessHours * 60) * 60000
+        // Offsets longer than a week skip whole weeks at once
+        const weekMs = this.getRegularWeekMs(rules)
+        const exceptions = weekMs > 0 && remainingMs > weekMs ? this.getScheduleExceptions(holidays, rules) : null
+
+        while (remainingMs > 0) {
+            const skip = exceptions && this.skipHourWeeks(currentDate, remainingMs, weekMs, exceptions, 'forward')
+            if (skip && skip.weeks > 0) {
+                currentDate = addDays(currentDate, skip.weeks * 7)
+                remainingMs -= skip.businessMs
+            }
+
+            // Next working segment, skipping breaks, nights and non-working days
+            const segment = this.findSegmentEndingAfter(currentDate, holidays, rules)
+            if (!segment) {
+                throw this.noWorkingTimeError(currentDate)
+            }
+
+            const from = currentDate > segment.start ? currentDate : segment.start
+            const availableMs = segment.end.getTime() - from.getTime()
+
+            if (remainingMs <= availableMs) {
+                // Can finish within this segment
+                return new Date(from.getTime() + remainingMs)
+            }
 
-        while (remainingMinutes > 0) {
-            // Ensure we're on a business day and within working hours
-            const adjustment = this.adjustToPrevBusinessTime(currentDate, holidays)
-            currentDate = adjustment.date
+            remainingMs -= availableMs
+            currentDate = segment.end
+        }
+
+        return currentDate
+    }
 
-            const currentHour = getHours(currentDate)
-            const currentMinute = getMinutes(currentDate)
-            const currentTotalMinutes = currentHour * 60 + currentMinute
+    public static subtractBusinessDays(
+        startDate: Date,
+        businessDays: number,
+        holidays: HolidayList,
+        rules: BusinessRules = DEFAULT_BUSINESS_RULES
+    ): Date {
+        if (businessDays === 0) return startDate
 
-            let availableMinutesUntilLunch = 0
-            let availableMinutesAfterLunch = 0
+        // Count from the day whose shift the start date belongs to
+        const shiftDay = this.getShiftDay(startDate, holidays, rules)
+        // Offsets longer than a week skip whole weeks at once
+        const exceptions =
+            businessDays > this.getBusinessDaysPerWeek(rules) ? this.getScheduleExceptions(holidays, rules) : null
+        let currentDay = shiftDay
+        let remainingDays = businessDays
 
-            // Calculate available time before lunch
-            if (currentTotalMinutes < this.WORKING_HOURS.lunchStart * 60) {
-                availableMinutesUntilLunch = this.WORKING_HOURS.lunchStart * 60 - currentTotalMinutes
+        while (remainingDays > 0) {
+            const skip = exceptions && this.skipDayWeeks(currentDay, remainingDays, exceptions, rules, 'backward')
+            if (skip && skip.weeks > 0) {
+                currentDay = subDays(currentDay, skip.weeks * 7)
+                remainingDays -= skip.businessDays
+                continue
             }
 
-            // Calculate available time after lunch
-            if (currentTotalMinutes < this.WORKING_HOURS.end * 60) {
-                const startAfterLunch = Math.max(currentTotalMinutes, this.WORKING_HOURS.lunchEnd * 60)
-                availableMinutesAfterLunch = this.WORKING_HOURS.end * 60 - startAfterLunch
+            currentDay = subDays(currentDay, 1)
+
+            if (this.isBusinessDay(currentDay, holidays, rules)) {
+                remainingDays--
             }
+        }
 
-            const totalAvailableToday = availableMinutesUntilLunch + availableMinutesAfterLunch
+        const currentDate = addDays(startDate, differenceInCalendarDays(currentDay, shiftDay))
+        return this.snapToWorkingHours(currentDate, currentDay, rules, 'backward')
+    }
 
-            if (remainingMinutes <= totalAvailableToday) {
-                // Can finish today
-                if (remainingMinutes <= availableMinutesUntilLunch) {
-                    // Finish before lunch
-                    currentDate = addMinutes(currentDate, remainingMinutes)
-                } else {
-                    // Need to go past lunch
-                    const minutesToLunch = availableMinutesUntilLunch
-                    const minutesAfterLunch = remainingMinutes - minutesToLunch
+    public static subtractBusinessHours(
+        startDate: Date,
+        businessHours: number,
+        holidays: HolidayList,
+        rules: BusinessRules = DEFAULT_BUSINESS_RULES
+    ): Date {
+        if (businessHours === 0) return startDate
 
-                    currentDate = addMinutes(currentDate, minutesToLunch)
-                    // Jump to after lunch
-                    currentDate = setHours(setMinutes(currentDate, 0), this.WORKING_HOURS.lunchEnd)
-                    currentDate = addMinutes(currentDate, minutesAfterLunch)
-                }
-                remainingMinutes = 0
-            } else {
-                // Use all available time today and move to next business day
-                remainingMinutes -= totalAvailableToday
-                currentDate = addDays(currentDate, 1)
-                currentDate = setHours(setMinutes(currentDate, 0), this.WORKING_HOURS.start)
-
-                // Find next business day
-                while (!this.isBusinessDay(currentDate, holidays)) {
-                    currentDate = addDays(currentDate, 1)
-                }
+        // Ensure we're on a business day and within working hours
+        let currentDate = this.adjustToNextBusinessTime(startDate, holidays, rules).date
+        let remainingMs = Math.round(businessHours * 60) * 60000
+        // Offsets longer than a week skip whole weeks at once
+        const weekMs = this.getRegularWeekMs(rules)
+        const exceptions = weekMs > 0 && remainingMs > weekMs ? this.getScheduleExceptions(holidays, rules) : null
+
+        while (remainingMs > 0) {
+            const skip = exceptions && this.skipHourWeeks(currentDate, remainingMs, weekMs, exceptions, 'backward')
+            if (skip && skip.weeks > 0) {
+                currentDate = subDays(currentDate, skip.weeks * 7)
+                remainingMs -= skip.businessMs
             }
+
+            // Previous working segment, skipping breaks, nights and non-working days
+            const segment = this.findSegmentStartingBefore(currentDate, holidays, rules)
+            if (!segment) {
+                throw this.noWorkingTimeError(currentDate)
+            }
+
+            const to = currentDate < segment.end ? currentDate : segment.end
+            const availableMs = to.getTime() - segment.start.getTime()
+
+            if (remainingMs <= availableMs) {
+                // Can finish within this segment
+                return new Date(to.getTime() - remainingMs)
+            }
+
+            remainingMs -= availableMs
+            currentDate = segment.start
         }
 
         return currentDate
@@ -190,22 +302,715 @@ export class BusinessTimeCalculator {
         startDate: Date | undefined,
         businessDays: number | undefined,
         businessHours: number | undefined,
-        holidays: ColombianHolidays
+        holidays: HolidayList,
+        direction: CalculationDirection = 'forward',
+        rules: BusinessRules = DEFAULT_BUSINESS_RULES,
+        approximation?: ApproximationPolicy
     ): Date {
-        let currentDate = startDate ? this.utcToColombiaTime(startDate) : this.getCurrentColombiaTime()
+        return this.calculateBusinessTimeResult(
+            startDate,
+            businessDays,
+            businessHours,
+            holidays,
+            direction,
+            rules,
+            approximation
+        ).date
+    }
+
+    /**
+     * Business time calculation that also reports how the start date was moved into business time (in UTC).
+     * The start moves backward for forward calculations and forward for backward ones unless an
+     * approximation policy is given; strict moves it the default way, leaving the rejection to the caller
+     */
+    public static calculateBusinessTimeResult(
+        startDate: Date | undefined,
+        businessDays: number | undefined,
+        businessHours: number | undefined,
+        holidays: HolidayList,
+        direction: CalculationDirection = 'forward',
+        rules: BusinessRules = DEFAULT_BUSINESS_RULES,
+        approximation?: ApproximationPolicy
+    ): BusinessTimeResult {
+        // By default (and in strict mode) the start moves against the calculation direction
+        const roundForward = approximation === 'forward' || (approximation !== 'backward' && direction === 'backward')
+        const start = this.utcToBusinessTime(startDate ?? new Date(), rules)
+        const adjustment = roundForward
+            ? this.adjustToNextBusinessTime(start, holidays, rules)
+            : this.adjustToPrevBusinessTime(start, holidays, rules)
+        let currentDate = adjustment.date
+
+        if (direction === 'backward') {
+            // Mirror of the forward calculation: subtract hours before days
+            if (businessHours && businessHours > 0) {
+                currentDate = this.subtractBusinessHours(currentDate, businessHours, holidays, rules)
+            }
+
+            if (businessDays && businessDays > 0) {
+                currentDate = this.subtractBusinessDays(currentDate, businessDays, holidays, rules)
+            }
+        } else {
+            if (businessDays && businessDays > 0) {
+                currentDate = this.addBusinessDays(currentDate, businessDays, holidays, rules)
+            }
+
+            if (businessHours && businessHours > 0) {
+                currentDate = this.addBusinessHours(currentDate, businessHours, holidays, rules)
+            }
+        }
+
+        return {
+            date: this.businessTimeToUtc(currentDate, rules),
+            adjustment: { ...adjustment, date: this.businessTimeToUtc(adjustment.date, rules) },
+        }
+    }
+
+    public static getWorkingMinutesPerDay(rules: BusinessRules = DEFAULT_BUSINESS_RULES): number {
+        return this.getScheduleMinutes(toDaySchedule(rules.workingHours))
+    }
+
+    /**
+     * Working minutes of a week without holidays, working dates or per-date schedules
+     */
+    private static getWorkingMinutesPerWeek(rules: BusinessRules = DEFAULT_BUSINESS_RULES): number {
+        return [...new Set(rules.workingDays)].reduce(
+            (total, weekday) =>
+                total + this.getScheduleMinutes(toDaySchedule(rules.weekdayHours[weekday] ?? rules.workingHours)),
+            0
+        )
+    }
+
+    private static getScheduleMinutes(schedule: DaySchedule): number {
+        return schedule.reduce((total, segment) => total + segment.end - segment.start, 0)
+    }
+
+    public static countBusinessMinutes(
+        startDate: Date,
+        endDate: Date,
+        holidays: HolidayList,
+        rules: BusinessRules = DEFAULT_BUSINESS_RULES
+    ): number {
+        const firstDate = this.utcToBusinessTime(startDate, rules)
+        const lastDate = this.utcToBusinessTime(endDate, rules)
+        let totalMinutes = 0
+
+        // Start a day early to include a night shift running past midnight into the interval
+        let currentDay = subDays(startOfDay(firstDate), 1)
+
+        while (currentDay < lastDate) {
+            for (const segment of this.getBusinessSegments(currentDay, holidays, rules)) {
+                totalMinutes += this.overlapMinutes(firstDate, lastDate, segment.start, segment.end)
+            }
+
+            currentDay = addDays(currentDay, 1)
+        }
+
+        return Math.floor(totalMinutes)
+    }
+
+    /**
+     * Business time between two UTC instants. The whole days are the business days the interval touches, in
+     * order, each worth its own schedule, so a shortened day counts as a day for its shorter hours
+     */
+    public static calculateBusinessDuration(
+        startDate: Date,
+        endDate: Date,
+        holidays: HolidayList,
+        rules: BusinessRules = DEFAULT_BUSINESS_RULES
+    ): { totalMinutes: number; days: number; hours: number; minutes: number } {
+        const totalMinutes = this.countBusinessMinutes(startDate, endDate, holidays, rules)
+        const firstDate = this.utcToBusinessTime(startDate, rules)
+        const lastDate = this.utcToBusinessTime(endDate, rules)
+        let remainingMinutes = totalMinutes
+        let days = 0
+
+        // Start a day early, as countBusinessMinutes does, for a night shift running into the interval
+        for (let day = subDays(startOfDay(firstDate), 1); day < lastDate; day = addDays(day, 1)) {
+            const segments = this.getBusinessSegments(day, holidays, rules)
+            if (!segments.some((segment) => segment.end > firstDate && segment.start < lastDate)) {
+                continue
+            }
+
+            const dayMinutes = this.getScheduleMinutes(this.getDaySchedule(day, rules))
+            if (dayMinutes > remainingMinutes) {
+                break
+            }
+            remainingMinutes -= dayMinutes
+            days++
+        }
+
+        return {
+            totalMinutes,
+            days,
+            hours: Math.floor(remainingMinutes / 60),
+            minutes: remainingMinutes % 60,
+        }
+    }
 
-        const adjustment = this.adjustToPrevBusinessTime(currentDate, holidays)
-        currentDate = adjustment.date
+    /**
+     * SLA deadline for a business-time budget starting at a UTC instant, pushed back by the business
+     * time spent in pauses. Without pauses the due date matches calculateBusinessTime
+     */
+    public static calculateSlaStatus(
+        startDate: Date,
+        businessDays: number | undefined,
+        businessHours: number | undefined,
+        pauses: PauseInterval[],
+        now: Date,
+        holidays: HolidayList,
+        rules: BusinessRules = DEFAULT_BUSINESS_RULES
+    ): SlaStatus {
+        let dueDate = this.calculateBusinessTime(startDate, businessDays, businessHours, holidays, 'forward', rules)
+        let pausedMinutes = 0
+
+        for (const pause of this.mergePauses(pauses, startDate, now)) {
+            // Pauses after the (shifted) due date no longer stop the clock
+            if (pause.start >= dueDate) {
+                break
+            }
 
-        if (businessDays && businessDays > 0) {
-            currentDate = this.addBusinessDays(currentDate, businessDays, holidays)
+            const minutes = this.countBusinessMinutes(pause.start, pause.end, holidays, rules)
+            const zonedDueDate = this.utcToBusinessTime(dueDate, rules)
+            dueDate = this.businessTimeToUtc(this.addBusinessHours(zonedDueDate, minutes / 60, holidays, rules), rules)
+            pausedMinutes += minutes
         }
 
-        if (businessHours && businessHours > 0) {
-            currentDate = this.addBusinessHours(currentDate, businessHours, holidays)
+        const breached = now > dueDate
+        const remainingMinutes = breached
+            ? -this.countBusinessMinutes(dueDate, now, holidays, rules)
+            : this.countBusinessMinutes(now > startDate ? now : startDate, dueDate, holidays, rules)
+
+        return {
+            dueDate,
+            pausedMinutes,
+            remainingMinutes,
+            breached,
+            paused: pauses.some((pause) => pause.end === null && pause.start <= now),
         }
+    }
+
+    /**
+     * Sorted, non-overlapping pause intervals clipped to the SLA start and to now; an open pause ends now
+     */
+    private static mergePauses(pauses: PauseInterval[], startDate: Date, now: Date): { start: Date; end: Date }[] {
+        const intervals = pauses
+            .map((pause) => ({
+                start: pause.start < startDate ? startDate : pause.start,
+                end: pause.end && pause.end < now ? pause.end : now,
+            }))
+            .filter((pause) => pause.start < pause.end)
+            .sort((a, b) => a.start.getTime() - b.start.getTime())
+
+        const merged: { start: Date; end: Date }[] = []
+        for (const interval of intervals) {
+            const last = merged[merged.length - 1]
+            if (last && interval.start <= last.end) {
+                last.end = interval.end > last.end ? interval.end : last.end
+            } else {
+                merged.push({ ...interval })
+            }
+        }
+
+        return merged
+    }
+
+    /**
+     * Whether a UTC instant is business time, why not, and the surrounding working segments (in UTC)
+     */
+    public static getBusinessStatus(
+        utcDate: Date,
+        holidays: HolidayList,
+        rules: BusinessRules = DEFAULT_BUSINESS_RULES
+    ): BusinessStatus {
+        const date = this.utcToBusinessTime(utcDate, rules)
+        const lastStarted = this.findSegmentStartingBefore(date, holidays, rules, true)
+        const currentSegment = lastStarted && date < lastStarted.end ? lastStarted : null
+
+        if (currentSegment) {
+            const nextSegment = this.findNextSegment(currentSegment.end, holidays, rules)
+            return {
+                isBusinessTime: true,
+                reason: null,
+                currentSegment: this.segmentToUtc(currentSegment, rules),
+                nextOpen: nextSegment ? this.businessTimeToUtc(nextSegment.start, rules) : null,
+                nextClose: this.businessTimeToUtc(currentSegment.end, rules),
+            }
+        }
+
+        const nextSegment = this.findNextSegment(date, holidays, rules)
+        return {
+            isBusinessTime: false,
+            reason: this.getClosedReason(
+                date,
+                this.getBusinessSegments(startOfDay(date), holidays, rules),
+                holidays,
+                rules
+            ),
+            currentSegment: null,
+            nextOpen: nextSegment ? this.businessTimeToUtc(nextSegment.start, rules) : null,
+            nextClose: nextSegment ? this.businessTimeToUtc(nextSegment.end, rules) : null,
+        }
+    }
+
+    /**
+     * Calendar days between the start of a calculation and its result (UTC instants), in the order the
+     * calculation went through them: backwards when the result is before the start. Each day has the
+     * business time used on it and the breaks crossed between its segments; closed days have their reason
+     */
+    public static traceBusinessTime(
+        startDate: Date,
+        endDate: Date,
+        holidays: HolidayList,
+        rules: BusinessRules = DEFAULT_BUSINESS_RULES
+    ): BusinessTimeTrace {
+        const backward = endDate < startDate
+        const firstDate = this.utcToBusinessTime(backward ? endDate : startDate, rules)
+        const lastDate = this.utcToBusinessTime(backward ? startDate : endDate, rules)
+        // Start a day early to include a night shift running past midnight into the interval
+        const firstDay = subDays(startOfDay(firstDate), 1)
+        const lastDay = startOfDay(lastDate)
+        const days: BusinessTimeTraceDay[] = []
+
+        for (let day = backward ? lastDay : firstDay; day >= firstDay && day <= lastDay; ) {
+            const segments = this.getBusinessSegments(day, holidays, rules)
+            const worked = segments
+                .filter((segment) => segment.end > firstDate && segment.start < lastDate)
+                .map((segment) => ({
+                    start: segment.start > firstDate ? segment.start : firstDate,
+                    end: segment.end < lastDate ? segment.end : lastDate,
+                }))
+            const breaks = segments
+                .slice(1)
+                .map((segment, index) => ({ start: segments[index]?.end ?? segment.start, end: segment.start }))
+                .filter((gap) => gap.start >= firstDate && gap.end <= lastDate)
+
+            // The day before only counts when its night shift reaches into the interval
+            if (day > firstDay || worked.length > 0) {
+                if (days.length === this.MAX_TRACE_DAYS) {
+                    return { days, truncated: true }
+                }
+
+                days.push({
+                    day: toDateKey(day),
+                    closed: segments.length > 0 ? null : this.getClosedReason(day, segments, holidays, rules),
+                    minutes: worked.reduce(
+                        (total, segment) => total + (segment.end.getTime() - segment.start.getTime()) / 60000,
+                        0
+                    ),
+                    worked: worked.map((segment) => this.segmentToUtc(segment, rules)),
+                    breaks: breaks.map((gap) => this.segmentToUtc(gap, rules)),
+                })
+            }
+
+            day = backward ? subDays(day, 1) : addDays(day, 1)
+        }
+
+        return { days, truncated: false }
+    }
+
+    /**
+     * Working segments (in UTC) of every business day between two calendar dates (inclusive, YYYY-MM-DD)
+     */
+    public static listWorkingSegments(
+        from: string,
+        to: string,
+        holidays: HolidayList,
+        rules: BusinessRules = DEFAULT_BUSINESS_RULES
+    ): WorkingSegment[] {
+        const segments: WorkingSegment[] = []
+        for (let day = parseISO(from); format(day, 'yyyy-MM-dd') <= to; day = addDays(day, 1)) {
+            segments.push(
+                ...this.getBusinessSegments(day, holidays, rules).map((segment) => this.segmentToUtc(segment, rules))
+            )
+        }
+        return segments
+    }
+
+    private static getClosedReason(
+        date: Date,
+        segments: WorkingSegment[],
+        holidays: HolidayList,
+        rules: BusinessRules
+    ): BusinessStatus['reason'] {
+        // Forced working dates are open even on a holiday or weekend, so only their hours can close them
+        if (!this.isBusinessDay(date, holidays, rules)) {
+            return HolidaysService.isHoliday(date, holidays) ? 'HOLIDAY' : 'WEEKEND'
+        }
+
+        const [firstSegment] = segments
+        const lastSegment = segments[segments.length - 1]
+        if (!firstSegment || !lastSegment) {
+            return 'WEEKEND'
+        }
+
+        if (date < firstSegment.start) {
+            return 'BEFORE_HOURS'
+        }
+
+        // Any break between two segments is reported as LUNCH
+        return date >= lastSegment.end ? 'AFTER_HOURS' : 'LUNCH'
+    }
+
+    /**
+     * Working segments of a zoned calendar day as zoned dates. Segments crossing midnight end on the next day
+     */
+    private static getWorkingSegments(date: Date, rules: BusinessRules): WorkingSegment[] {
+        return this.getDaySchedule(date, rules).map((segment) => ({
+            start: this.setMinuteOfDay(date, segment.start),
+            end: this.setMinuteOfDay(date, segment.end),
+        }))
+    }
+
+    /**
+     * Working segments of a zoned calendar day if it is a business day. The day a segment starts on
+     * governs it, so a night shift is worked or not as a whole
+     */
+    private static getBusinessSegments(day: Date, holidays: HolidayList, rules: BusinessRules): WorkingSegment[] {
+        return this.isBusinessDay(day, holidays, rules) ? this.getWorkingSegments(day, rules) : []
+    }
+
+    /**
+     * First working segment starting at or after a zoned date
+     */
+    private static findNextSegment(date: Date, holidays: HolidayList, rules: BusinessRules): WorkingSegment | null {
+        // The previous day's night shift may have segments starting after midnight
+        let day = subDays(startOfDay(date), 1)
+
+        for (let i = 0; i <= this.MAX_CLOSED_DAYS + 1; i++) {
+            const segment = this.getBusinessSegments(day, holidays, rules).find((candidate) => candidate.start >= date)
+            if (segment) {
+                return segment
+            }
+            day = addDays(day, 1)
+        }
+
+        return null
+    }
+
+    /**
+     * First working segment ending after (or at, when inclusive) a zoned date, searching from the
+     * previous day's night shift onwards
+     */
+    private static findSegmentEndingAfter(
+        date: Date,
+        holidays: HolidayList,
+        rules: BusinessRules,
+        inclusive = false
+    ): WorkingSegment | null {
+        let day = subDays(startOfDay(date), 1)
+
+        for (let i = 0; i <= this.MAX_CLOSED_DAYS + 1; i++) {
+            const segment = this.getBusinessSegments(day, holidays, rules).find((candidate) =>
+                inclusive ? candidate.end >= date : candidate.end > date
+            )
+            if (segment) {
+                return segment
+            }
+            day = addDays(day, 1)
+        }
+
+        return null
+    }
+
+    /**
+     * Last working segment starting before (or at, when inclusive) a zoned date
+     */
+    private static findSegmentStartingBefore(
+        date: Date,
+        holidays: HolidayList,
+        rules: BusinessRules,
+        inclusive = false
+    ): WorkingSegment | null {
+        let day = startOfDay(date)
+
+        for (let i = 0; i <= this.MAX_CLOSED_DAYS + 1; i++) {
+            const segment = [...this.getBusinessSegments(day, holidays, rules)]
+                .reverse()
+                .find((candidate) => (inclusive ? candidate.start <= date : candidate.start < date))
+            if (segment) {
+                return segment
+            }
+            day = subDays(day, 1)
+        }
+
+        return null
+    }
+
+    /**
+     * Calendar day whose shift a zoned date belongs to: the previous day while its night shift lasts
+     */
+    private static getShiftDay(date: Date, holidays: HolidayList, rules: BusinessRules): Date {
+        const day = startOfDay(date)
+        const previousDay = subDays(day, 1)
+        const previousSegments = this.getBusinessSegments(previousDay, holidays, rules)
+        const previousEnd = previousSegments[previousSegments.length - 1]?.end
+
+        return previousEnd && date <= previousEnd ? previousDay : day
+    }
+
+    /**
+     * Business time of a week without holidays, working dates or per-date schedules, or 0 when a night
+     * shift overlaps the next day's first segment and the week's time is not the sum of its segments
+     */
+    private static getRegularWeekMs(rules: BusinessRules): number {
+        const workingDays = new Set(rules.workingDays)
+        const getSchedule = (weekday: number): DaySchedule =>
+            workingDays.has(weekday) ? toDaySchedule(rules.weekdayHours[weekday] ?? rules.workingHours) : []
+
+        for (let weekday = 0; weekday < 7; weekday++) {
+            const schedule = getSchedule(weekday)
+            const lastEnd = schedule[schedule.length - 1]?.end ?? 0
+            const nextStart = getSchedule((weekday + 1) % 7)[0]?.start
+            if (nextStart !== undefined && lastEnd - 24 * 60 > nextStart) {
+                return 0
+            }
+        }
+
+        return this.getWorkingMinutesPerWeek(rules) * 60000
+    }
+
+    private static getBusinessDaysPerWeek(rules: BusinessRules): number {
+        return new Set(rules.workingDays).size
+    }
+
+    /**
+     * Sorted dates that break the weekly schedule, with running totals of the business days and time
+     * each one adds to or removes from a regular day of its weekday
+     */
+    private static getScheduleExceptions(holidays: HolidayList, rules: BusinessRules): ScheduleExceptions {
+        let byRules = this.scheduleExceptions.get(holidays)
+        if (!byRules) {
+            byRules = new WeakMap()
+            this.scheduleExceptions.set(holidays, byRules)
+        }
+
+        let exceptions = byRules.get(rules)
+        if (!exceptions) {
+            exceptions = this.buildScheduleExceptions(holidays, rules)
+            byRules.set(rules, exceptions)
+        }
+        return exceptions
+    }
+
+    private static buildScheduleExceptions(holidays: HolidayList, rules: BusinessRules): ScheduleExceptions {
+        const rescheduledDates = [...new Set([...rules.workingDates, ...Object.keys(rules.dateHours)])].sort()
+        const dates = [...new Set([...holidays, ...rescheduledDates])].sort()
+        const rescheduled = new Set(rescheduledDates)
+        const weekdayMinutes = [0, 1, 2, 3, 4, 5, 6].map((weekday) =>
+            rules.workingDays.includes(weekday)
+                ? this.getScheduleMinutes(toDaySchedule(rules.weekdayHours[weekday] ?? rules.workingHours))
+                : 0
+        )
+        const businessDays = [0]
+        const businessMs = [0]
+
+        for (const date of dates) {
+            const day = fromDateKey(date)
+            const isRegular = rules.workingDays.includes(getDay(day))
+            const regularMinutes = weekdayMinutes[getDay(day)] ?? 0
+            // A plain holiday removes its weekday's time; working dates and per-date hours may change it
+            const isBusiness = rescheduled.has(date) && this.isBusinessDay(day, holidays, rules)
+            const minutes = isBusiness ? this.getScheduleMinutes(this.getDaySchedule(day, rules)) : 0
+
+            businessDays.push((businessDays[businessDays.length - 1] ?? 0) + Number(isBusiness) - Number(isRegular))
+            businessMs.push((businessMs[businessMs.length - 1] ?? 0) + (minutes - regularMinutes) * 60000)
+        }
+
+        return { dates, businessDays, businessMs, rescheduledDates }
+    }
+
+    /**
+     * Number of dates in a sorted list up to and including a zoned day
+     */
+    private static countDatesUpTo(sortedDates: HolidayList, day: Date): number {
+        const key = toDateKey(day)
+        let low = 0
+        let high = sortedDates.length
+
+        while (low < high) {
+            const middle = (low + high) >> 1
+            if ((sortedDates[middle] ?? '') <= key) {
+                low = middle + 1
+            } else {
+                high = middle
+            }
+        }
+
+        return low
+    }
+
+    /**
+     * Total of the running totals' changes for the exception dates after one zoned day, up to another
+     */
+    private static sumExceptions(exceptions: ScheduleExceptions, totals: number[], after: Date, upTo: Date): number {
+        const last = totals[this.countDatesUpTo(exceptions.dates, upTo)] ?? 0
+        const first = totals[this.countDatesUpTo(exceptions.dates, after)] ?? 0
+        return last - first
+    }
+
+    private static isException(exceptions: ScheduleExceptions, day: Date): boolean {
+        const index = this.countDatesUpTo(exceptions.dates, day)
+        return exceptions.dates[index - 1] === toDateKey(day)
+    }
+
+    /**
+     * Whole weeks to skip after (or before) a shift day, and the business days in them: the weekly
+     * business days plus whatever the exception dates in those weeks add or remove. At least one
+     * business day is left so the calculation still ends on the exact day
+     */
+    private static skipDayWeeks(
+        day: Date,
+        remainingDays: number,
+        exceptions: ScheduleExceptions,
+        rules: BusinessRules,
+        direction: CalculationDirection
+    ): { weeks: number; businessDays: number } {
+        const perWeek = this.getBusinessDaysPerWeek(rules)
+        let weeks = perWeek > 0 ? Math.floor((remainingDays - 1) / perWeek) : 0
+
+        while (weeks > 0) {
+            const [after, upTo] =
+                direction === 'forward'
+                    ? [day, addDays(day, weeks * 7)]
+                    : [subDays(day, weeks * 7 + 1), subDays(day, 1)]
+            const businessDays = weeks * perWeek + this.sumExceptions(exceptions, exceptions.businessDays, after, upTo)
+            if (businessDays < remainingDays) {
+                return { weeks, businessDays }
+            }
+            // Working dates added more days than remain
+            weeks = Math.floor(weeks / 2)
+        }
+
+        return { weeks: 0, businessDays: 0 }
+    }
+
+    /**
+     * Whole weeks of business hours to skip after (or before) a zoned date, and the business time in
+     * them. The days they span, from the previous day's night shift to the last day, must be free of
+     * working dates and per-date schedules; holidays only remove their day's time, as long as they
+     * are not in the first or last two days, whose segments may reach past the skipped weeks. At least
+     * one minute is left so the calculation still ends on the exact minute
+     */
+    private static skipHourWeeks(
+        date: Date,
+        remainingMs: number,
+        weekMs: number,
+        exceptions: ScheduleExceptions,
+        direction: CalculationDirection
+    ): { weeks: number; businessMs: number } {
+        const day = startOfDay(date)
+        const { rescheduledDates } = exceptions
+        let weeks = Math.floor((remainingMs - 1) / weekMs)
+
+        // Stop before the nearest working date or per-date schedule
+        const anchor = direction === 'forward' ? subDays(day, 1) : day
+        const index = this.countDatesUpTo(rescheduledDates, direction === 'forward' ? subDays(anchor, 1) : anchor)
+        const rescheduled = rescheduledDates[direction === 'forward' ? index : index - 1]
+        if (rescheduled !== undefined) {
+            const distance = Math.abs(differenceInCalendarDays(fromDateKey(rescheduled), anchor))
+            weeks = Math.min(weeks, Math.floor((distance - 2) / 7))
+        }
+
+        // A daylight saving change in the process time zone makes a week longer or shorter than 7 days
+        while (weeks > 0) {
+            const shifted = direction === 'forward' ? addDays(date, weeks * 7) : subDays(date, weeks * 7)
+            if (Math.abs(shifted.getTime() - date.getTime()) === weeks * 7 * this.DAY_MS) {
+                break
+            }
+            weeks = Math.floor(weeks / 2)
+        }
+
+        // The date's day and the day before are edges in both directions; the far edges move with the weeks
+        if (this.isException(exceptions, day) || this.isException(exceptions, subDays(day, 1))) {
+            return { weeks: 0, businessMs: 0 }
+        }
+
+        for (; weeks > 0; weeks--) {
+            const first = direction === 'forward' ? subDays(day, 1) : subDays(day, weeks * 7 + 1)
+            const last = addDays(first, weeks * 7 + 1)
+            const farEdges = direction === 'forward' ? [subDays(last, 1), last] : [first, addDays(first, 1)]
+            if (!farEdges.some((edge) => this.isException(exceptions, edge))) {
+                const removedMs = this.sumExceptions(
+                    exceptions,
+                    exceptions.businessMs,
+                    addDays(first, 1),
+                    subDays(last, 2)
+                )
+                return { weeks, businessMs: weeks * weekMs + removedMs }
+            }
+        }
+
+        return { weeks: 0, businessMs: 0 }
+    }
+
+    private static noWorkingTimeError(date: Date): Error {
+        return new Error(`No working time within ${this.MAX_CLOSED_DAYS} days of ${format(date, 'yyyy-MM-dd')}`)
+    }
+
+    private static segmentToUtc(segment: WorkingSegment, rules: BusinessRules): WorkingSegment {
+        return { start: this.businessTimeToUtc(segment.start, rules), end: this.businessTimeToUtc(segment.end, rules) }
+    }
+
+    /**
+     * Working segments of a zoned calendar day: a per-date override, else a per-weekday override,
+     * else the regular schedule
+     */
+    public static getDaySchedule(date: Date, rules: BusinessRules = DEFAULT_BUSINESS_RULES): DaySchedule {
+        const hours = rules.dateHours[toDateKey(date)] ?? rules.weekdayHours[getDay(date)]
+        return toDaySchedule(hours ?? rules.workingHours)
+    }
+
+    /**
+     * Keep a date within a shift day's working segments, e.g. when whole days land on a shortened day; a date in a
+     * break moves to the next segment start going forward, or to the previous segment end going backward
+     */
+    private static snapToWorkingHours(
+        date: Date,
+        day: Date,
+        rules: BusinessRules,
+        direction: CalculationDirection
+    ): Date {
+        const segments = this.getWorkingSegments(day, rules)
+        const firstSegment = segments[0]
+        const lastSegment = segments[segments.length - 1]
+
+        if (!firstSegment || !lastSegment) {
+            return date
+        }
+
+        if (date < firstSegment.start) {
+            return firstSegment.start
+        }
+
+        if (date > lastSegment.end) {
+            return lastSegment.end
+        }
+
+        for (const [index, segment] of segments.entries()) {
+            if (date <= segment.end) {
+                const previous = segments[index - 1]
+                if (date >= segment.start || !previous) {
+                    return date
+                }
+                return direction === 'forward' ? segment.start : previous.end
+            }
+        }
+
+        return date
+    }
+
+    private static setMinuteOfDay(date: Date, minutes: number): Date {
+        // Minutes overflow into hours and days, so 450 becomes 7:30 and 1800 6:00 the next day
+        return setMinutes(startOfDay(date), minutes)
+    }
+
+    private static formatTime(date: Date): string {
+        return format(date, 'h:mm a')
+    }
 
-        return this.colombiaTimeToUtc(currentDate)
+    private static overlapMinutes(from: Date, to: Date, segmentStart: Date, segmentEnd: Date): number {
+        const overlap = Math.min(to.getTime(), segmentEnd.getTime()) - Math.max(from.getTime(), segmentStart.getTime())
+        return Math.max(0, overlap) / 60000
     }
 
     public static formatToISO(date: Date): string {
@@ -0,0 +1,120 @@
+import { HolidayDate, WorkingSegment } from './types'
+
+/**
+ * iCalendar (RFC 5545) feed of a calendar profile: holidays and closures as all-day events and,
+ * optionally, its working segments. UIDs depend only on the calendar and the date or start time
+ * of each event, so subscribed clients update events in place when names or sources change
+ */
+
+export interface CalendarFeedOptions {
+    calendar: string
+    timezone: string
+    holidays: HolidayDate[]
+    segments: WorkingSegment[] // UTC
+    generatedAt: Date
+}
+
+const PRODUCT_ID = '-//FechasHabilesAPI//Business Calendar//EN'
+const UID_DOMAIN = 'fechas-habiles-api'
+const MAX_LINE_OCTETS = 75
+
+export function buildCalendarFeed(options: CalendarFeedOptions): string {
+    const { calendar, timezone, holidays, segments, generatedAt } = options
+    const stamp = formatInstant(generatedAt)
+
+    // Holidays sharing an observed date become a single event
+    const holidaysByDate = new Map<string, HolidayDate[]>()
+    for (const holiday of holidays) {
+        holidaysByDate.set(holiday.date, [...(holidaysByDate.get(holiday.date) ?? []), holiday])
+    }
+
+    const lines = [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        `PRODID:${PRODUCT_ID}`,
+        'CALSCALE:GREGORIAN',
+        'METHOD:PUBLISH',
+        `X-WR-CALNAME:${escapeText(`Business calendar (${calendar})`)}`,
+        `X-WR-TIMEZONE:${timezone}`,
+    ]
+
+    for (const [date, dayHolidays] of holidaysByDate) {
+        const isClosure = dayHolidays.every((holiday) => holiday.category === 'CLOSURE')
+        lines.push(
+            'BEGIN:VEVENT',
+            `UID:${isClosure ? 'closure' : 'holiday'}-${formatDate(date)}-${calendar}@${UID_DOMAIN}`,
+            `DTSTAMP:${stamp}`,
+            `DTSTART;VALUE=DATE:${formatDate(date)}`,
+            `DTEND;VALUE=DATE:${formatDate(nextDate(date))}`,
+            `SUMMARY:${escapeText(dayHolidays.map((holiday) => holiday.name).join(', '))}`,
+            `CATEGORIES:${isClosure ? 'CLOSURE' : 'HOLIDAY'}`,
+            'TRANSP:TRANSPARENT',
+            'END:VEVENT'
+        )
+    }
+
+    for (const segment of segments) {
+        lines.push(
+            'BEGIN:VEVENT',
+            `UID:work-${formatInstant(segment.start)}-${calendar}@${UID_DOMAIN}`,
+            `DTSTAMP:${stamp}`,
+            `DTSTART:${formatInstant(segment.start)}`,
+            `DTEND:${formatInstant(segment.end)}`,
+            'SUMMARY:Working hours',
+            'CATEGORIES:WORKING_HOURS',
+            'TRANSP:TRANSPARENT',
+            'END:VEVENT'
+        )
+    }
+
+    lines.push('END:VCALENDAR')
+    return lines.map(foldLine).join('\r\n') + '\r\n'
+}
+
+function formatDate(date: string): string {
+    return date.replace(/-/g, '')
+}
+
+function nextDate(date: string): string {
+    const next = new Date(`${date}T00:00:00Z`)
+    next.setUTCDate(next.getUTCDate() + 1)
+    return next.toISOString().slice(0, 10)
+}
+
+function formatInstant(date: Date): string {
+    // 2025-01-02T13:00:00.000Z -> 20250102T130000Z
+    return date
+        .toISOString()
+        .replace(/[-:]/g, '')
+        .replace(/\.\d{3}/, '')
+}
+
+function escapeText(text: string): string {
+    return text.replace(/[\\;,]/g, (char) => `\\${char}`).replace(/\r?\n/g, '\\n')
+}
+
+/**
+ * Split a content line into lines of at most 75 octets, continued with a leading space,
+ * without breaking multi-byte characters
+ */
+function foldLine(line: string): string {
+    const parts: string[] = []
+    let current = ''
+    let octets = 0
+
+    for (const char of line) {
+        const size = Buffer.byteLength(char)
+        // Continuation lines lose one octet to the leading space
+        const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1
+        if (octets + size > limit) {
+            parts.push(current)
+            current = ''
+            octets = 0
+        }
+        current += char
+        octets += size
+    }
+
+    parts.push(current)
+    return parts.join('\r\n ')
+}
@@ -0,0 +1,403 @@
+import { existsSync, readFileSync, writeFileSync } from 'fs'
+import { addDays, format, parseISO } from 'date-fns'
+import {
+    BusinessRules,
+    CalendarClosure,
+    CalendarOverrides,
+    CalendarProfile,
+    CalendarWorkingDate,
+    DayHours,
+    HolidaySourceType,
+    WorkingHours,
+} from './types'
+import {
+    DEFAULT_BUSINESS_RULES,
+    getDayScheduleError,
+    getWorkingHoursError,
+    isValidTimezone,
+    isValidWorkingDays,
+    parseDaySchedule,
+    toWorkingHours,
+} from './businessRules'
+import { DEFAULT_COUNTRY, getHolidayProvider } from './holidayProviders'
+
+/**
+ * Calendar profile as written in the configuration file. Every field is optional
+ * and falls back to the default business rules.
+ */
+interface CalendarConfigEntry {
+    country?: string
+    workingHours?: WorkingHoursConfig
+    weekdayHours?: Record<string, WorkingHoursConfig>
+    dateHours?: Record<string, WorkingHoursConfig>
+    workingDays?: unknown[]
+    timezone?: string
+    holidaySource?: string
+    closures?: unknown[]
+    workingDates?: unknown[]
+}
+
+// Start/end hours with a lunch break, or working segments such as ["06:00-10:00", "10:30-14:00"]
+type WorkingHoursConfig = Partial<WorkingHours> | string[]
+
+type OverrideKind = keyof CalendarOverrides
+
+const HOLIDAY_SOURCES: HolidaySourceType[] = ['API', 'COMPUTED']
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/
+
+export class CalendarRegistry {
+    public static readonly DEFAULT_CALENDAR = 'default'
+
+    private static profiles: Map<string, CalendarProfile> = new Map([
+        [this.DEFAULT_CALENDAR, this.createDefaultProfile()],
+    ])
+
+    // Runtime closures and working dates per calendar, applied on top of the configured profiles
+    private static overrides: Map<string, CalendarOverrides> = new Map()
+    private static overridesFile = ''
+
+    /**
+     * Load calendar profiles from a JSON file, replacing any previously loaded profiles
+     */
+    public static loadFromFile(filePath: string): void {
+        let config: unknown
+        try {
+            config = JSON.parse(readFileSync(filePath, 'utf8'))
+        } catch (error) {
+            throw new Error(
+                `Unable to read calendars file ${filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`
+            )
+        }
+
+        this.configure(config)
+    }
+
+    /**
+     * Replace the loaded profiles with the ones in a parsed configuration object.
+     * The default profile is always available and can be redefined by the configuration.
+     */
+    public static configure(config: unknown): void {
+        const calendars = (config as { calendars?: unknown } | null)?.calendars
+        if (!calendars || typeof calendars !== 'object' || Array.isArray(calendars)) {
+            throw new Error('Calendars configuration must contain a "calendars" object')
+        }
+
+        const profiles = new Map([[this.DEFAULT_CALENDAR, this.createDefaultProfile()]])
+        for (const [name, entry] of Object.entries(calendars)) {
+            profiles.set(name, this.parseProfile(name, entry))
+        }
+
+        this.profiles = profiles
+    }
+
+    /**
+     * Drop every configured profile and runtime override, keeping only the default calendar
+     */
+    public static reset(): void {
+        this.profiles = new Map([[this.DEFAULT_CALENDAR, this.createDefaultProfile()]])
+        this.overrides = new Map()
+        this.overridesFile = ''
+    }
+
+    public static get(name: string): CalendarProfile | undefined {
+        const profile = this.profiles.get(name)
+        return profile && this.applyOverrides(profile)
+    }
+
+    public static getDefault(): CalendarProfile {
+        return this.get(this.DEFAULT_CALENDAR) ?? this.createDefaultProfile()
+    }
+
+    public static list(): CalendarProfile[] {
+        return [...this.profiles.values()].map((profile) => this.applyOverrides(profile))
+    }
+
+    /**
+     * Load runtime overrides from a JSON file and persist every later change to it.
+     * A missing file starts with no overrides and is created on the first change.
+     */
+    public static loadOverrides(filePath: string): void {
+        this.overridesFile = filePath
+        this.overrides = new Map()
+
+        if (!existsSync(filePath)) {
+            return
+        }
+
+        let config: unknown
+        try {
+            config = JSON.parse(readFileSync(filePath, 'utf8'))
+        } catch (error) {
+            throw new Error(
+                `Unable to read calendar overrides file ${filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`
+            )
+        }
+
+        const calendars = (config as { calendars?: unknown } | null)?.calendars
+        if (!calendars || typeof calendars !== 'object' || Array.isArray(calendars)) {
+            throw new Error('Calendar overrides file must contain a "calendars" object')
+        }
+
+        for (const [name, value] of Object.entries(calendars)) {
+            const fail = (message: string): never => {
+                throw new Error(`Invalid overrides for calendar "${name}": ${message}`)
+            }
+            const entry = (value ?? {}) as CalendarConfigEntry
+            this.overrides.set(name, {
+                closures: this.parseNamedDates(entry.closures ?? [], 'closures', 'Company closure', fail),
+                workingDates: this.parseNamedDates(entry.workingDates ?? [], 'workingDates', 'Working day', fail),
+            })
+        }
+    }
+
+    /**
+     * Runtime overrides of a calendar, without the closures and working dates from its configuration
+     */
+    public static getOverrides(name: string): CalendarOverrides {
+        return this.overrides.get(name) ?? { closures: [], workingDates: [] }
+    }
+
+    /**
+     * Add or rename a runtime closure or working date. A date is never both: setting one kind
+     * removes the date from the other
+     */
+    public static setOverride(name: string, kind: OverrideKind, entry: CalendarClosure | CalendarWorkingDate): void {
+        const current = this.getOverrides(name)
+        const otherKind: OverrideKind = kind === 'closures' ? 'workingDates' : 'closures'
+        const updated = {
+            ...current,
+            [kind]: [...current[kind].filter((item) => item.date !== entry.date), entry].sort((a, b) =>
+                a.date.localeCompare(b.date)
+            ),
+            [otherKind]: current[otherKind].filter((item) => item.date !== entry.date),
+        }
+
+        this.saveOverrides(name, updated)
+    }
+
+    /**
+     * Remove a runtime closure or working date, returning false when the date was not set
+     */
+    public static removeOverride(name: string, kind: OverrideKind, date: string): boolean {
+        const current = this.getOverrides(name)
+        if (!current[kind].some((item) => item.date === date)) {
+            return false
+        }
+
+        this.saveOverrides(name, { ...current, [kind]: current[kind].filter((item) => item.date !== date) })
+        return true
+    }
+
+    /**
+     * Write the overrides to the file before applying them, so a failed write leaves memory unchanged
+     */
+    private static saveOverrides(name: string, calendarOverrides: CalendarOverrides): void {
+        const overrides = new Map(this.overrides).set(name, calendarOverrides)
+
+        if (this.overridesFile) {
+            const calendars = Object.fromEntries(overrides)
+            writeFileSync(this.overridesFile, `${JSON.stringify({ calendars }, null, 4)}\n`)
+        }
+
+        this.overrides = overrides
+    }
+
+    /**
+     * A profile with its runtime overrides merged in. Runtime entries win over configured ones
+     * for the same date, and a configured closure is cancelled by a runtime working date and vice versa
+     */
+    private static applyOverrides(profile: CalendarProfile): CalendarProfile {
+        const overrides = this.overrides.get(profile.name)
+        if (!overrides) {
+            return profile
+        }
+
+        const overridden = new Set([...overrides.closures, ...overrides.workingDates].map((item) => item.date))
+        const closures = [...profile.closures.filter((item) => !overridden.has(item.date)), ...overrides.closures]
+        const workingDates = [
+            ...profile.workingDates.filter((item) => !overridden.has(item.date)),
+            ...overrides.workingDates,
+        ]
+
+        return {
+            ...profile,
+            rules: { ...profile.rules, workingDates: workingDates.map((item) => item.date).sort() },
+            closures: closures.sort((a, b) => a.date.localeCompare(b.date)),
+            workingDates: workingDates.sort((a, b) => a.date.localeCompare(b.date)),
+        }
+    }
+
+    private static createDefaultProfile(): CalendarProfile {
+        return {
+            name: this.DEFAULT_CALENDAR,
+            country: DEFAULT_COUNTRY,
+            rules: DEFAULT_BUSINESS_RULES,
+            holidaySource: 'API',
+            closures: [],
+            workingDates: [],
+        }
+    }
+
+    private static parseProfile(name: string, value: unknown): CalendarProfile {
+        const fail = (message: string): never => {
+            throw new Error(`Invalid calendar "${name}": ${message}`)
+        }
+
+        if (!value || typeof value !== 'object' || Array.isArray(value)) {
+            return fail('profile must be an object')
+        }
+
+        const entry = value as CalendarConfigEntry
+
+        const provider = getHolidayProvider(typeof entry.country === 'string' ? entry.country : DEFAULT_COUNTRY)
+        if (!provider) {
+            return fail(`unsupported country ${String(entry.country)}`)
+        }
+        const workingHours = this.parseWorkingHours(entry.workingHours, DEFAULT_BUSINESS_RULES.workingHours, fail)
+
+        // Per-weekday and per-date schedules start from the profile's working hours
+        const weekdayHours: BusinessRules['weekdayHours'] = {}
+        for (const [weekday, hours] of Object.entries(entry.weekdayHours ?? {})) {
+            if (!/^[0-6]$/.test(weekday)) {
+                fail(`weekdayHours keys must be weekdays (0 = Sunday, 6 = Saturday), got ${weekday}`)
+            }
+            weekdayHours[Number(weekday)] = this.parseWorkingHours(hours, workingHours, (message) =>
+                fail(`weekdayHours ${weekday}: ${message}`)
+            )
+        }
+
+        const dateHours: BusinessRules['dateHours'] = {}
+        for (const [date, hours] of Object.entries(entry.dateHours ?? {})) {
+            if (!DATE_REGEX.test(date)) {
+                fail(`dateHours keys must be dates in YYYY-MM-DD format, got ${date}`)
+            }
+            dateHours[date] = this.parseWorkingHours(hours, workingHours, (message) =>
+                fail(`dateHours ${date}: ${message}`)
+            )
+        }
+
+        const workingDays = entry.workingDays ?? DEFAULT_BUSINESS_RULES.workingDays
+        if (!Array.isArray(workingDays) || !isValidWorkingDays(workingDays)) {
+            return fail('workingDays must be a non-empty list of weekdays (0 = Sunday, 6 = Saturday)')
+        }
+
+        // Schedules follow the country's timezone unless the profile sets its own
+        const timezone = entry.timezone ?? provider.timezone
+        if (typeof timezone !== 'string' || !isValidTimezone(timezone)) {
+            return fail(`unknown timezone ${String(timezone)}`)
+        }
+
+        const holidaySource = (entry.holidaySource ?? 'API').toUpperCase() as HolidaySourceType
+        if (!HOLIDAY_SOURCES.includes(holidaySource)) {
+            return fail(`holidaySource must be one of ${HOLIDAY_SOURCES.join(', ')}`)
+        }
+
+        const workingDates = this.parseNamedDates(entry.workingDates ?? [], 'workingDates', 'Working day', fail)
+        const rules: BusinessRules = {
+            ...DEFAULT_BUSINESS_RULES,
+            workingHours,
+            weekdayHours,
+            dateHours,
+            workingDays: [...new Set(workingDays)].sort(),
+            workingDates: workingDates.map((item) => item.date),
+            timezone,
+            holidaysUrl: provider.holidaysUrl,
+        }
+
+        return {
+            name,
+            country: provider.countryCode,
+            rules,
+            holidaySource,
+            closures: this.parseNamedDates(entry.closures ?? [], 'closures', 'Company closure', fail),
+            workingDates,
+        }
+    }
+
+    /**
+     * Working hours given in a profile, completing missing fields from a base schedule.
+     * A list of segments replaces the base schedule entirely
+     */
+    private static parseWorkingHours(
+        value: WorkingHoursConfig | undefined,
+        base: DayHours,
+        fail: (message: string) => never
+    ): DayHours {
+        if (value === undefined) {
+            return base
+        }
+
+        if (Array.isArray(value)) {
+            const schedule = value.every((segment) => typeof segment === 'string')
+                ? parseDaySchedule(value.join(','))
+                : null
+            if (!schedule) {
+                return fail('working segments must be HH:mm-HH:mm ranges')
+            }
+
+            const scheduleError = getDayScheduleError(schedule)
+            return scheduleError ? fail(scheduleError) : schedule
+        }
+
+        if (typeof value !== 'object' || value === null) {
+            return fail('working hours must be an object or a list of segments')
+        }
+
+        const workingHours: WorkingHours = { ...toWorkingHours(base), ...value }
+
+        // Schedules that only move the day boundaries and leave out the lunch break have none
+        if (value.lunchStart === undefined && value.lunchEnd === undefined) {
+            workingHours.lunchStart = workingHours.end
+            workingHours.lunchEnd = workingHours.end
+        }
+
+        const workingHoursError = getWorkingHoursError(workingHours)
+        if (workingHoursError) {
+            fail(workingHoursError)
+        }
+
+        return workingHours
+    }
+
+    /**
+     * Closures and working dates are either single dates ({ date, name }) or inclusive
+     * ranges ({ from, to, name }) such as a judicial vacation period
+     */
+    private static parseNamedDates(
+        value: unknown[],
+        field: OverrideKind,
+        defaultName: string,
+        fail: (message: string) => never
+    ): CalendarClosure[] {
+        if (!Array.isArray(value)) {
+            return fail(`${field} must be a list`)
+        }
+
+        const closures: CalendarClosure[] = []
+        for (const item of value) {
+            const { date, from, to, name } = (item ?? {}) as Record<string, unknown>
+            const closureName = typeof name === 'string' && name ? name : defaultName
+
+            if (typeof date === 'string' && DATE_REGEX.test(date)) {
+                closures.push({ date, name: closureName })
+            } else if (
+                typeof from === 'string' &&
+                typeof to === 'string' &&
+                DATE_REGEX.test(from) &&
+                DATE_REGEX.test(to)
+            ) {
+                if (to < from) {
+                    fail(`${field} range ${from} - ${to} ends before it starts`)
+                }
+
+                for (let day = parseISO(from); format(day, 'yyyy-MM-dd') <= to; day = addDays(day, 1)) {
+                    closures.push({ date: format(day, 'yyyy-MM-dd'), name: closureName })
+                }
+            } else {
+                fail(`each entry in ${field} needs a date or a from/to range in YYYY-MM-DD format`)
+            }
+        }
+
+        return closures.sort((a, b) => a.date.localeCompare(b.date))
+    }
+}
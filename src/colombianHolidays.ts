@@ -0,0 +1,101 @@
+import { HolidayDate, HolidayList } from './types'
+import {
+    addUtcDays,
+    describeHoliday,
+    generateForYears,
+    getEasterSunday,
+    moveToNextMonday,
+    sortHolidays,
+    toHolidayList,
+    utcDate,
+} from './holidayRules'
+
+export { getEasterSunday } from './holidayRules'
+
+/**
+ * Colombian holiday calendar computed from the rules of Ley 51 de 1983 (Ley Emiliani)
+ * Used as the fallback source when the external holiday service is unavailable
+ */
+
+interface HolidayRule {
+    name: string
+    month: number // 1-12
+    day: number
+}
+
+interface EasterRule {
+    name: string
+    offset: number // Days relative to Easter Sunday
+}
+
+// Holidays always observed on their calendar date
+const FIXED_HOLIDAYS: HolidayRule[] = [
+    { name: "New Year's Day", month: 1, day: 1 },
+    { name: 'Labor Day', month: 5, day: 1 },
+    { name: 'Independence Day', month: 7, day: 20 },
+    { name: 'Battle of Boyacá', month: 8, day: 7 },
+    { name: 'Immaculate Conception', month: 12, day: 8 },
+    { name: 'Christmas Day', month: 12, day: 25 },
+]
+
+// Holidays moved to the following Monday when they do not fall on one (Ley Emiliani)
+const EMILIANI_HOLIDAYS: HolidayRule[] = [
+    { name: 'Epiphany', month: 1, day: 6 },
+    { name: "Saint Joseph's Day", month: 3, day: 19 },
+    { name: 'Saint Peter and Saint Paul', month: 6, day: 29 },
+    { name: 'Assumption of Mary', month: 8, day: 15 },
+    { name: 'Columbus Day', month: 10, day: 12 },
+    { name: "All Saints' Day", month: 11, day: 1 },
+    { name: 'Independence of Cartagena', month: 11, day: 11 },
+]
+
+// Holidays observed on a fixed weekday relative to Easter Sunday
+const EASTER_HOLIDAYS: EasterRule[] = [
+    { name: 'Maundy Thursday', offset: -3 },
+    { name: 'Good Friday', offset: -2 },
+]
+
+// Easter-relative holidays moved to the following Monday (Ley Emiliani)
+const EASTER_EMILIANI_HOLIDAYS: EasterRule[] = [
+    { name: 'Ascension Day', offset: 39 },
+    { name: 'Corpus Christi', offset: 60 },
+    { name: 'Sacred Heart', offset: 68 },
+]
+
+/**
+ * Get the Colombian holidays for a single year with their names and original dates
+ */
+export function getColombianHolidayDetailsForYear(year: number): HolidayDate[] {
+    const easter = getEasterSunday(year)
+    return sortHolidays([
+        ...FIXED_HOLIDAYS.map((rule) => describeHoliday(rule.name, 'FIXED', utcDate(year, rule.month, rule.day))),
+        ...EMILIANI_HOLIDAYS.map((rule) => {
+            const original = utcDate(year, rule.month, rule.day)
+            return describeHoliday(rule.name, 'MOVABLE', original, moveToNextMonday(original))
+        }),
+        ...EASTER_HOLIDAYS.map((rule) => describeHoliday(rule.name, 'EASTER', addUtcDays(easter, rule.offset))),
+        ...EASTER_EMILIANI_HOLIDAYS.map((rule) => {
+            const original = addUtcDays(easter, rule.offset)
+            return describeHoliday(rule.name, 'EASTER', original, moveToNextMonday(original))
+        }),
+    ])
+}
+
+/**
+ * Get the observed Colombian holidays for a single year, sorted and without duplicates
+ */
+export function getColombianHolidaysForYear(year: number): HolidayList {
+    // Two holidays can be observed on the same Monday (e.g. 2025-06-30)
+    return toHolidayList(getColombianHolidayDetailsForYear(year))
+}
+
+/**
+ * Get the observed Colombian holidays for an inclusive range of years
+ */
+export function generateColombianHolidays(startYear: number, endYear: number): HolidayList {
+    return generateForYears(startYear, endYear, getColombianHolidaysForYear)
+}
+
+export function generateColombianHolidayDetails(startYear: number, endYear: number): HolidayDate[] {
+    return generateForYears(startYear, endYear, getColombianHolidayDetailsForYear)
+}
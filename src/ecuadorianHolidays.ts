@@ -0,0 +1,74 @@
+import { HolidayDate, HolidayList } from './types'
+import {
+    addUtcDays,
+    describeHoliday,
+    generateForYears,
+    getEasterSunday,
+    sortHolidays,
+    toHolidayList,
+    utcDate,
+} from './holidayRules'
+
+/**
+ * Ecuadorian holiday calendar computed from the Ley Orgánica de Servicio Público (2016 reform)
+ * Civic holidays move to the nearest Monday or Friday; New Year, Carnival, Good Friday,
+ * All Souls, Independence of Cuenca and Christmas are kept on their dates
+ */
+
+interface HolidayRule {
+    name: string
+    month: number // 1-12
+    day: number
+}
+
+const FIXED_HOLIDAYS: HolidayRule[] = [
+    { name: "New Year's Day", month: 1, day: 1 },
+    { name: 'Labor Day', month: 5, day: 1 },
+    { name: "All Souls' Day", month: 11, day: 2 },
+    { name: 'Independence of Cuenca', month: 11, day: 3 },
+    { name: 'Christmas Day', month: 12, day: 25 },
+]
+
+// Holidays moved to the nearest Monday or Friday
+const MOVABLE_HOLIDAYS: HolidayRule[] = [
+    { name: 'Battle of Pichincha', month: 5, day: 24 },
+    { name: 'First Cry of Independence', month: 8, day: 10 },
+    { name: 'Independence of Guayaquil', month: 10, day: 9 },
+]
+
+const EASTER_HOLIDAYS = [
+    { name: 'Carnival Monday', offset: -48 },
+    { name: 'Carnival Tuesday', offset: -47 },
+    { name: 'Good Friday', offset: -2 },
+]
+
+// Days to shift by weekday: Tuesday to Monday, Wednesday/Thursday and Saturday to Friday, Sunday to Monday
+const WEEKDAY_SHIFT = [1, 0, -1, 2, 1, 0, -1]
+
+function moveToLongWeekend(date: Date): Date {
+    return addUtcDays(date, WEEKDAY_SHIFT[date.getUTCDay()] ?? 0)
+}
+
+export function getEcuadorianHolidayDetailsForYear(year: number): HolidayDate[] {
+    const easter = getEasterSunday(year)
+    return sortHolidays([
+        ...FIXED_HOLIDAYS.map((rule) => describeHoliday(rule.name, 'FIXED', utcDate(year, rule.month, rule.day))),
+        ...MOVABLE_HOLIDAYS.map((rule) => {
+            const original = utcDate(year, rule.month, rule.day)
+            return describeHoliday(rule.name, 'MOVABLE', original, moveToLongWeekend(original))
+        }),
+        ...EASTER_HOLIDAYS.map((rule) => describeHoliday(rule.name, 'EASTER', addUtcDays(easter, rule.offset))),
+    ])
+}
+
+export function getEcuadorianHolidaysForYear(year: number): HolidayList {
+    return toHolidayList(getEcuadorianHolidayDetailsForYear(year))
+}
+
+export function generateEcuadorianHolidays(startYear: number, endYear: number): HolidayList {
+    return generateForYears(startYear, endYear, getEcuadorianHolidaysForYear)
+}
+
+export function generateEcuadorianHolidayDetails(startYear: number, endYear: number): HolidayDate[] {
+    return generateForYears(startYear, endYear, getEcuadorianHolidayDetailsForYear)
+}
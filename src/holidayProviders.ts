@@ -0,0 +1,69 @@
+import { HolidayDate, HolidayList } from './types'
+import { DEFAULT_BUSINESS_RULES } from './businessRules'
+import { generateColombianHolidayDetails, generateColombianHolidays } from './colombianHolidays'
+import { generatePeruvianHolidayDetails, generatePeruvianHolidays } from './peruvianHolidays'
+import { generateEcuadorianHolidayDetails, generateEcuadorianHolidays } from './ecuadorianHolidays'
+import { generateMexicanHolidayDetails, generateMexicanHolidays } from './mexicanHolidays'
+
+/**
+ * A country whose holidays can be fetched from an external service and, when
+ * that fails, computed locally for any year range
+ */
+export interface HolidayProvider {
+    countryCode: string // ISO 3166-1 alpha-2
+    name: string
+    timezone: string
+    holidaysUrl: string
+    computeHolidays(startYear: number, endYear: number): HolidayList
+    describeHolidays(startYear: number, endYear: number): HolidayDate[]
+}
+
+export const DEFAULT_COUNTRY = 'CO'
+
+const HOLIDAY_PROVIDERS: HolidayProvider[] = [
+    {
+        countryCode: 'CO',
+        name: 'Colombia',
+        timezone: DEFAULT_BUSINESS_RULES.timezone,
+        holidaysUrl: DEFAULT_BUSINESS_RULES.holidaysUrl,
+        computeHolidays: generateColombianHolidays,
+        describeHolidays: generateColombianHolidayDetails,
+    },
+    {
+        countryCode: 'PE',
+        name: 'Peru',
+        timezone: 'America/Lima',
+        holidaysUrl: process.env.HOLIDAYS_URL_PE || '',
+        computeHolidays: generatePeruvianHolidays,
+        describeHolidays: generatePeruvianHolidayDetails,
+    },
+    {
+        countryCode: 'EC',
+        name: 'Ecuador',
+        timezone: 'America/Guayaquil',
+        holidaysUrl: process.env.HOLIDAYS_URL_EC || '',
+        computeHolidays: generateEcuadorianHolidays,
+        describeHolidays: generateEcuadorianHolidayDetails,
+    },
+    {
+        countryCode: 'MX',
+        name: 'Mexico',
+        timezone: 'America/Mexico_City',
+        holidaysUrl: process.env.HOLIDAYS_URL_MX || '',
+        computeHolidays: generateMexicanHolidays,
+        describeHolidays: generateMexicanHolidayDetails,
+    },
+]
+
+export function getHolidayProvider(countryCode: string): HolidayProvider | undefined {
+    const code = countryCode.toUpperCase()
+    return HOLIDAY_PROVIDERS.find((provider) => provider.countryCode === code)
+}
+
+export function getDefaultHolidayProvider(): HolidayProvider {
+    return HOLIDAY_PROVIDERS[0] as HolidayProvider
+}
+
+export function listHolidayProviders(): HolidayProvider[] {
+    return [...HOLIDAY_PROVIDERS]
+}
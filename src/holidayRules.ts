@@ -0,0 +1,98 @@
+import { HolidayCategory, HolidayDate, HolidayList } from './types'
+
+/**
+ * Date helpers shared by the computed holiday calendars. All dates are UTC
+ * midnight so calendar arithmetic does not depend on the server timezone.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Compute Easter Sunday (UTC midnight) using the anonymous Gregorian algorithm
+ */
+export function getEasterSunday(year: number): Date {
+    const a = year % 19
+    const b = Math.floor(year / 100)
+    const c = year % 100
+    const d = Math.floor(b / 4)
+    const e = b % 4
+    const f = Math.floor((b + 8) / 25)
+    const g = Math.floor((b - f + 1) / 3)
+    const h = (19 * a + b - d - g + 15) % 30
+    const i = Math.floor(c / 4)
+    const k = c % 4
+    const l = (32 + 2 * e + 2 * i - h - k) % 7
+    const m = Math.floor((a + 11 * h + 22 * l) / 451)
+    const month = Math.floor((h + l - 7 * m + 114) / 31)
+    const day = ((h + l - 7 * m + 114) % 31) + 1
+
+    return new Date(Date.UTC(year, month - 1, day))
+}
+
+export function utcDate(year: number, month: number, day: number): Date {
+    return new Date(Date.UTC(year, month - 1, day))
+}
+
+export function addUtcDays(date: Date, days: number): Date {
+    return new Date(date.getTime() + days * DAY_MS)
+}
+
+export function moveToNextMonday(date: Date): Date {
+    // Monday = 1, ..., Sunday = 0
+    const daysUntilMonday = (8 - date.getUTCDay()) % 7
+    return addUtcDays(date, daysUntilMonday)
+}
+
+/**
+ * The nth occurrence (1-based) of a weekday in a month, e.g. the third Monday of March
+ */
+export function nthWeekdayOfMonth(year: number, month: number, weekday: number, nth: number): Date {
+    const firstOfMonth = utcDate(year, month, 1)
+    const offset = (weekday - firstOfMonth.getUTCDay() + 7) % 7
+    return addUtcDays(firstOfMonth, offset + (nth - 1) * 7)
+}
+
+export function toDateString(date: Date): string {
+    return date.toISOString().slice(0, 10)
+}
+
+/**
+ * Describe a holiday observed on `observed`, which defaults to its original date
+ */
+export function describeHoliday(
+    name: string,
+    category: HolidayCategory,
+    original: Date,
+    observed: Date = original
+): HolidayDate {
+    return { date: toDateString(observed), originalDate: toDateString(original), name, category }
+}
+
+/**
+ * Holidays sorted by observed date, then by name
+ */
+export function sortHolidays(holidays: HolidayDate[]): HolidayDate[] {
+    return [...holidays].sort((a, b) => a.date.localeCompare(b.date) || a.name.localeCompare(b.name))
+}
+
+/**
+ * Sorted observed dates without duplicates, as two holidays can be observed on the same day
+ */
+export function toHolidayList(holidays: HolidayDate[]): HolidayList {
+    return [...new Set(holidays.map((holiday) => holiday.date))].sort()
+}
+
+/**
+ * Run a single-year generator over an inclusive range of years
+ */
+export function generateForYears<T>(
+    startYear: number,
+    endYear: number,
+    getHolidaysForYear: (year: number) => T[]
+): T[] {
+    const holidays: T[] = []
+    for (let year = startYear; year <= endYear; year++) {
+        holidays.push(...getHolidaysForYear(year))
+    }
+    return holidays
+}
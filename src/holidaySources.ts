@@ -0,0 +1,238 @@
+import { readFileSync } from 'fs'
+import { HolidayList } from './types'
+import { getHolidayProvider } from './holidayProviders'
+
+/**
+ * Ordered holiday sources per country, merged into the holiday list used by the calculations.
+ * Countries without configured sources keep using their single holiday service URL.
+ */
+
+// http: JSON array of dates from a URL; json and ics: local files; computed: the country's legal rules
+export type HolidaySourceType = 'http' | 'json' | 'ics' | 'computed'
+
+// merge adds the dates, override replaces earlier dates in every year it covers, remove drops the dates
+export type HolidaySourceMode = 'merge' | 'override' | 'remove'
+
+export interface HolidaySource {
+    type: HolidaySourceType
+    location: string // URL or file path, empty for the computed calendar
+    mode: HolidaySourceMode
+}
+
+export interface HolidayLayer {
+    mode: HolidaySourceMode
+    holidays: HolidayList
+}
+
+interface HolidaySourceEntry {
+    type?: unknown
+    url?: unknown
+    path?: unknown
+    mode?: unknown
+}
+
+const SOURCE_TYPES: HolidaySourceType[] = ['http', 'json', 'ics', 'computed']
+const SOURCE_MODES: HolidaySourceMode[] = ['merge', 'override', 'remove']
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/
+const ICS_DATE_REGEX = /^(\d{4})(\d{2})(\d{2})/
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export class HolidaySourceRegistry {
+    private static sources: Map<string, HolidaySource[]> = new Map()
+
+    /**
+     * Load holiday sources from a JSON file, replacing any previously loaded sources
+     */
+    public static loadFromFile(filePath: string): void {
+        let config: unknown
+        try {
+            config = JSON.parse(readFileSync(filePath, 'utf8'))
+        } catch (error) {
+            throw new Error(
+                `Unable to read holiday sources file ${filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`
+            )
+        }
+
+        this.configure(config)
+    }
+
+    /**
+     * Replace the loaded sources with the ones in a parsed configuration object
+     */
+    public static configure(config: unknown): void {
+        const countries = (config as { countries?: unknown } | null)?.countries
+        if (!countries || typeof countries !== 'object' || Array.isArray(countries)) {
+            throw new Error('Holiday sources configuration must contain a "countries" object')
+        }
+
+        const sources = new Map<string, HolidaySource[]>()
+        for (const [code, entries] of Object.entries(countries)) {
+            const provider = getHolidayProvider(code)
+            if (!provider) {
+                throw new Error(`Invalid holiday sources for "${code}": unsupported country`)
+            }
+            if (!Array.isArray(entries) || entries.length === 0) {
+                throw new Error(`Invalid holiday sources for "${code}": expected a non-empty list of sources`)
+            }
+
+            sources.set(
+                provider.countryCode,
+                entries.map((entry, index) =>
+                    this.parseSource((entry ?? {}) as HolidaySourceEntry, (message: string): never => {
+                        throw new Error(`Invalid holiday source ${index + 1} for "${code}": ${message}`)
+                    })
+                )
+            )
+        }
+
+        this.sources = sources
+    }
+
+    /**
+     * Drop every configured source so all countries use their holiday service URL again
+     */
+    public static reset(): void {
+        this.sources = new Map()
+    }
+
+    public static get(countryCode: string): HolidaySource[] | undefined {
+        return this.sources.get(countryCode.toUpperCase())
+    }
+
+    private static parseSource(entry: HolidaySourceEntry, fail: (message: string) => never): HolidaySource {
+        const type = entry.type as HolidaySourceType
+        if (!SOURCE_TYPES.includes(type)) {
+            fail(`type must be one of ${SOURCE_TYPES.join(', ')}`)
+        }
+
+        const mode = (entry.mode ?? 'merge') as HolidaySourceMode
+        if (!SOURCE_MODES.includes(mode)) {
+            fail(`mode must be one of ${SOURCE_MODES.join(', ')}`)
+        }
+
+        if (type === 'computed') {
+            return { type, location: '', mode }
+        }
+
+        const key = type === 'http' ? 'url' : 'path'
+        const location = entry[key]
+        if (typeof location !== 'string' || location.trim() === '') {
+            fail(`${type} sources need a "${key}"`)
+        }
+
+        return { type, location: String(location), mode }
+    }
+}
+
+/**
+ * Read the dates of a local json or ics holiday source
+ */
+export function readHolidayFile(source: HolidaySource): HolidayList {
+    const content = readFileSync(source.location, 'utf8')
+    return source.type === 'ics' ? parseIcsHolidays(content) : parseJsonHolidays(content)
+}
+
+/**
+ * Dates from a JSON array of YYYY-MM-DD strings or of objects with a date, such as a /holidays response
+ */
+export function parseJsonHolidays(content: string): HolidayList {
+    const data: unknown = JSON.parse(content)
+    if (!Array.isArray(data)) {
+        throw new Error('Holiday file must contain a JSON array')
+    }
+
+    return normalizeHolidays(
+        data.map((item: unknown) => {
+            const date = typeof item === 'string' ? item : (item as { date?: unknown } | null)?.date
+            if (typeof date !== 'string' || !DATE_REGEX.test(date)) {
+                throw new Error(`Invalid holiday ${JSON.stringify(item)}, expected YYYY-MM-DD`)
+            }
+            return date
+        })
+    )
+}
+
+/**
+ * Dates of the all-day events in an iCalendar file. A multi-day event covers every day up to its
+ * (exclusive) DTEND; recurrence rules are not expanded, so each occurrence must be its own event
+ */
+export function parseIcsHolidays(content: string): HolidayList {
+    // Long lines are folded onto continuation lines starting with a space or tab (RFC 5545)
+    const lines = content.replace(/\r?\n[ \t]/g, '').split(/\r?\n/)
+    const holidays: HolidayList = []
+    let event: { start?: string; end?: string } | null = null
+
+    for (const line of lines) {
+        const separator = line.indexOf(':')
+        if (separator === -1) {
+            continue
+        }
+
+        const name = line.slice(0, separator).split(';')[0]?.toUpperCase()
+        const value = line.slice(separator + 1).trim()
+
+        if (name === 'BEGIN' && value.toUpperCase() === 'VEVENT') {
+            event = {}
+        } else if (name === 'END' && value.toUpperCase() === 'VEVENT' && event) {
+            if (!event.start) {
+                throw new Error('Calendar event without DTSTART')
+            }
+            holidays.push(...expandIcsEvent(event.start, event.end))
+            event = null
+        } else if (event && name === 'DTSTART') {
+            event.start = value
+        } else if (event && name === 'DTEND') {
+            event.end = value
+        }
+    }
+
+    return normalizeHolidays(holidays)
+}
+
+/**
+ * Merge holiday layers in order. An override layer replaces everything earlier layers listed for the
+ * years it covers; a remove layer drops its dates from the earlier layers
+ */
+export function mergeHolidayLayers(layers: HolidayLayer[]): HolidayList {
+    let merged = new Set<string>()
+
+    for (const layer of layers) {
+        if (layer.mode === 'remove') {
+            layer.holidays.forEach((date) => merged.delete(date))
+            continue
+        }
+
+        if (layer.mode === 'override') {
+            const years = new Set(layer.holidays.map((date) => date.slice(0, 4)))
+            merged = new Set([...merged].filter((date) => !years.has(date.slice(0, 4))))
+        }
+        layer.holidays.forEach((date) => merged.add(date))
+    }
+
+    return [...merged].sort()
+}
+
+function expandIcsEvent(start: string, end: string | undefined): HolidayList {
+    const first = parseIcsDate(start)
+    // DTEND of an all-day event is exclusive; a timed event only marks the day it starts on
+    const last = end && !end.includes('T') ? parseIcsDate(end).getTime() - DAY_MS : first.getTime()
+
+    const dates: HolidayList = []
+    for (let time = first.getTime(); time <= Math.max(last, first.getTime()); time += DAY_MS) {
+        dates.push(new Date(time).toISOString().slice(0, 10))
+    }
+    return dates
+}
+
+function parseIcsDate(value: string): Date {
+    const match = ICS_DATE_REGEX.exec(value)
+    const date = match ? new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3]))) : null
+    if (!date || date.getUTCDate() !== Number(match?.[3]) || date.getUTCMonth() !== Number(match?.[2]) - 1) {
+        throw new Error(`Invalid calendar date ${value}`)
+    }
+    return date
+}
+
+function normalizeHolidays(holidays: HolidayList): HolidayList {
+    return [...new Set(holidays)].sort()
+}
@@ -1,6 +1,11 @@
 import axios from 'axios'
-import { ColombianHolidays, ErrorCodes, ErrorResponse } from './types'
-import { FALLBACK_COLOMBIAN_HOLIDAYS, getFallbackHolidays } from './fallbackHolidays'
+import { createHash } from 'crypto'
+import { existsSync, readFileSync, writeFileSync } from 'fs'
+import { CalendarProfile, HolidayDate, HolidayList, HolidayOverride, ErrorCodes, ErrorResponse } from './types'
+import { DEFAULT_COUNTRY, HolidayProvider, getDefaultHolidayProvider, getHolidayProvider } from './holidayProviders'
+import { HolidaySource, HolidaySourceRegistry, mergeHolidayLayers, readHolidayFile } from './holidaySources'
+import { Logger } from './logger'
+import { Metrics } from './metrics'
 
 interface CircuitBreakerState {
     failures: number
@@ -15,23 +20,80 @@ export enum HolidayServiceStatus {
 }
 
 export interface HolidayServiceResult {
-    holidays: ColombianHolidays
+    holidays: HolidayList
     status: HolidayServiceStatus
-    source: 'CACHE' | 'API' | 'FALLBACK'
+    source: 'CACHE' | 'SNAPSHOT' | 'API' | 'FALLBACK' | 'COMPUTED' | 'SOURCES'
     lastUpdated: number | null
 }
 
+export interface HolidaySourceStatus {
+    type: HolidaySource['type']
+    location: string
+    mode: HolidaySource['mode']
+    status: 'PENDING' | 'OK' | 'FAILED'
+    holidayCount: number | null
+    lastLoaded: number | null
+    error: string | null
+}
+
+export interface HolidayDetailsResult extends Omit<HolidayServiceResult, 'holidays'> {
+    holidays: HolidayDate[]
+}
+
+interface ProviderState {
+    cache: HolidayList | null
+    cacheSource: 'CACHE' | 'SNAPSHOT' // SNAPSHOT until the first fetch after loading the snapshot file
+    cacheUrl: string
+    lastFetch: number
+    circuitBreaker: CircuitBreakerState
+    sources: SourceState[]
+}
+
+// Last load of a configured holiday source; a failed source keeps its last good holidays
+interface SourceState {
+    source: HolidaySource
+    holidays: HolidayList | null
+    status: HolidaySourceStatus['status']
+    error: string | null
+    lastLoaded: number
+}
+
+// Last good holiday dataset of a country as stored in the snapshot file
+interface HolidaySnapshot {
+    holidays: HolidayList
+    fetchedAt: string
+    sourceUrl: string
+}
+
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/
+
+/**
+ * YYYY-MM-DD of a date's local calendar day; same as format(date, 'yyyy-MM-dd') at a fraction of the cost
+ */
+export function toDateKey(date: Date): string {
+    const month = String(date.getMonth() + 1).padStart(2, '0')
+    const day = String(date.getDate()).padStart(2, '0')
+    return `${date.getFullYear()}-${month}-${day}`
+}
+
+/**
+ * Local midnight of a YYYY-MM-DD date; same as parseISO(key) at a fraction of the cost
+ */
+export function fromDateKey(key: string): Date {
+    const [year, month, day] = key.split('-').map(Number)
+    return new Date(year ?? NaN, (month ?? NaN) - 1, day ?? NaN)
+}
+
 export class HolidaysService {
-    private static cache: ColombianHolidays | null = null
-    private static lastFetch: number = 0
+    // Cache and circuit breaker state per country code
+    private static states: Map<string, ProviderState> = new Map()
+    private static snapshots: Map<string, HolidaySnapshot> = new Map()
+    private static overrides: Map<string, HolidayOverride> = new Map()
+    private static dateIndexes: WeakMap<HolidayList, Set<string>> = new WeakMap()
+    private static snapshotFile = ''
     private static readonly CACHE_DURATION = 24 * 60 * 60 * 1000 // 24 hours
 
     // Circuit breaker configuration
-    private static circuitBreaker: CircuitBreakerState = {
-        failures: 0,
-        lastFailureTime: 0,
-        state: 'CLOSED',
-    }
     private static readonly MAX_FAILURES = 3
     private static readonly CIRCUIT_TIMEOUT = 5 * 60 * 1000 // 5 minutes
 
@@ -39,74 +101,526 @@ export class HolidaysService {
     private static readonly MAX_RETRIES = 3
     private static readonly BASE_DELAY = 1000 // 1 second
 
-    public static async getColombianHolidays(holidaysUrl: string): Promise<HolidayServiceResult> {
+    public static async getColombianHolidays(
+        holidaysUrl: string,
+        startYear?: number,
+        endYear?: number
+    ): Promise<HolidayServiceResult> {
+        return this.getProviderHolidays(getDefaultHolidayProvider(), holidaysUrl, startYear, endYear)
+    }
+
+    /**
+     * Holidays for any supported country. Colombia keeps going through getColombianHolidays.
+     */
+    public static async getHolidays(
+        countryCode: string = DEFAULT_COUNTRY,
+        startYear?: number,
+        endYear?: number
+    ): Promise<HolidayServiceResult> {
+        const provider = getHolidayProvider(countryCode)
+        if (!provider) {
+            throw new Error(`No holiday provider for country ${countryCode}`)
+        }
+
+        if (provider.countryCode === DEFAULT_COUNTRY) {
+            return this.getColombianHolidays(provider.holidaysUrl, startYear, endYear)
+        }
+
+        return this.getProviderHolidays(provider, provider.holidaysUrl, startYear, endYear)
+    }
+
+    private static async getProviderHolidays(
+        provider: HolidayProvider,
+        holidaysUrl: string,
+        startYear?: number,
+        endYear?: number,
+        force = false
+    ): Promise<HolidayServiceResult> {
+        const fromYear = startYear ?? new Date().getFullYear()
+        const toYear = endYear ?? fromYear + 1
+
+        const sources = HolidaySourceRegistry.get(provider.countryCode)
+        const result = sources
+            ? await this.getSourcedHolidays(provider, sources, fromYear, toYear, force)
+            : await this.loadProviderHolidays(provider, holidaysUrl, fromYear, toYear, force)
+
+        return { ...result, holidays: this.applyOverride(provider.countryCode, result.holidays) }
+    }
+
+    private static async loadProviderHolidays(
+        provider: HolidayProvider,
+        holidaysUrl: string,
+        fromYear: number,
+        toYear: number,
+        force: boolean
+    ): Promise<HolidayServiceResult> {
         const now = Date.now()
+        const state = this.getState(provider.countryCode)
+        const country = provider.countryCode
+
+        // A snapshot fetched from another holiday service URL does not count as cached data
+        const cache = state.cacheSource === 'SNAPSHOT' && state.cacheUrl !== holidaysUrl ? null : state.cache
+
+        // The additional countries' services are optional: without one their computed calendar is the source of
+        // truth. Colombia keeps retrying its service and reports the computed calendar as a fallback.
+        if (!holidaysUrl && country !== DEFAULT_COUNTRY) {
+            return {
+                holidays: provider.computeHolidays(fromYear, toYear),
+                status: HolidayServiceStatus.HEALTHY,
+                source: 'COMPUTED',
+                lastUpdated: null,
+            }
+        }
 
         // Return cached data if still valid
-        if (this.cache && now - this.lastFetch < this.CACHE_DURATION) {
+        if (!force && cache && now - state.lastFetch < this.CACHE_DURATION) {
             return {
-                holidays: this.cache,
+                holidays: this.withComputedYears(cache, provider, fromYear, toYear),
                 status: HolidayServiceStatus.HEALTHY,
-                source: 'CACHE',
-                lastUpdated: this.lastFetch,
+                source: state.cacheSource,
+                lastUpdated: state.lastFetch,
             }
         }
 
-        // Check circuit breaker state
-        if (this.isCircuitOpen(now)) {
-            console.warn('Circuit breaker is OPEN, using fallback holidays')
-            return this.getFallbackResult()
+        // Check circuit breaker state; stale cached data still beats the computed fallback
+        if (this.isCircuitOpen(state, country, now)) {
+            if (cache) {
+                Logger.warn('holiday_data_degraded', { country, source: state.cacheSource, reason: 'circuit_open' })
+                return {
+                    holidays: this.withComputedYears(cache, provider, fromYear, toYear),
+                    status: HolidayServiceStatus.DEGRADED,
+                    source: state.cacheSource,
+                    lastUpdated: state.lastFetch,
+                }
+            }
+
+            Logger.warn('holiday_data_degraded', { country, source: 'FALLBACK', reason: 'circuit_open' })
+            return this.getFallbackResult(provider, fromYear, toYear)
         }
 
         // Attempt to fetch fresh data with retry logic
         try {
-            const holidays = await this.fetchWithRetry(holidaysUrl)
+            const holidays = await this.fetchWithRetry(holidaysUrl, country)
 
             // Success - reset circuit breaker and update cache
-            this.resetCircuitBreaker()
-            this.cache = holidays
-            this.lastFetch = now
-
-            console.log('Successfully fetched fresh holidays data')
+            this.resetCircuitBreaker(state, country)
+            state.cache = holidays
+            state.cacheSource = 'CACHE'
+            state.cacheUrl = holidaysUrl
+            state.lastFetch = now
+            this.saveSnapshot(country, { holidays, fetchedAt: new Date(now).toISOString(), sourceUrl: holidaysUrl })
+
+            Logger.info('holiday_data_refreshed', { country, url: holidaysUrl, holidayCount: holidays.length })
             return {
-                holidays,
+                holidays: this.withComputedYears(holidays, provider, fromYear, toYear),
                 status: HolidayServiceStatus.HEALTHY,
                 source: 'API',
                 lastUpdated: now,
             }
         } catch (error) {
-            console.error('Failed to fetch holidays after retries:', error)
-            this.recordFailure(now)
+            Logger.error('holiday_fetch_failed', { country, url: holidaysUrl, error })
+            this.recordFailure(state, country, now)
 
             // Return cached data if available
-            if (this.cache) {
-                console.warn('Using stale cached holidays data due to API failure')
+            if (cache) {
+                Logger.warn('holiday_data_degraded', { country, source: state.cacheSource, reason: 'fetch_failed' })
                 return {
-                    holidays: this.cache,
+                    holidays: this.withComputedYears(cache, provider, fromYear, toYear),
                     status: HolidayServiceStatus.DEGRADED,
-                    source: 'CACHE',
-                    lastUpdated: this.lastFetch,
+                    source: state.cacheSource,
+                    lastUpdated: state.lastFetch,
                 }
             }
 
-            // Final fallback to static data
-            console.warn('Using static fallback holidays data')
-            return this.getFallbackResult()
+            // Final fallback to computed data
+            Logger.warn('holiday_data_degraded', { country, source: 'FALLBACK', reason: 'fetch_failed' })
+            return this.getFallbackResult(provider, fromYear, toYear)
         }
     }
 
-    private static async fetchWithRetry(url: string): Promise<ColombianHolidays> {
+    /**
+     * Holidays merged from a country's configured sources, in order. Each source is reloaded once its
+     * data is older than the cache duration, and a source that fails keeps serving its last good data
+     */
+    private static async getSourcedHolidays(
+        provider: HolidayProvider,
+        sources: HolidaySource[],
+        fromYear: number,
+        toYear: number,
+        force: boolean
+    ): Promise<HolidayServiceResult> {
+        const now = Date.now()
+        const country = provider.countryCode
+        const state = this.getState(country)
+        const layers = this.getSourceStates(state, sources)
+
+        for (const layer of layers) {
+            const isFresh = layer.status === 'OK' && now - layer.lastLoaded < this.CACHE_DURATION
+            if (layer.source.type !== 'computed' && (force || !isFresh)) {
+                await this.loadSource(layer, state, country, now)
+            }
+        }
+
+        const available = layers.filter((layer) => layer.source.type === 'computed' || layer.holidays)
+        if (available.length === 0) {
+            Logger.warn('holiday_data_degraded', { country, source: 'FALLBACK', reason: 'no_source' })
+            return this.getFallbackResult(provider, fromYear, toYear)
+        }
+
+        // A national feed that has not loaded yet is replaced by the computed calendar, so a local correction
+        // layered on top of it does not drop the country's holidays
+        const isNationalFeed = (layer: SourceState): boolean =>
+            (layer.source.type === 'http' || layer.source.type === 'json') && layer.source.mode !== 'remove'
+        const holidays = mergeHolidayLayers(
+            layers
+                .filter((layer) => layer.source.type === 'computed' || layer.holidays || isNationalFeed(layer))
+                .map((layer) => ({
+                    mode: layer.source.mode,
+                    holidays: layer.holidays ?? provider.computeHolidays(fromYear, toYear),
+                }))
+        )
+
+        return {
+            holidays: this.withComputedYears(holidays, provider, fromYear, toYear),
+            status: layers.every((layer) => layer.status === 'OK')
+                ? HolidayServiceStatus.HEALTHY
+                : HolidayServiceStatus.DEGRADED,
+            source: 'SOURCES',
+            lastUpdated: state.lastFetch || null,
+        }
+    }
+
+    private static async loadSource(
+        layer: SourceState,
+        state: ProviderState,
+        country: string,
+        now: number
+    ): Promise<void> {
+        const { source } = layer
+
+        try {
+            if (source.type === 'http') {
+                // HTTP sources of a country share its circuit breaker
+                if (this.isCircuitOpen(state, country, now)) {
+                    throw new Error('Circuit breaker is OPEN')
+                }
+
+                try {
+                    layer.holidays = await this.fetchWithRetry(source.location, country)
+                } catch (error) {
+                    this.recordFailure(state, country, now)
+                    throw error
+                }
+                this.resetCircuitBreaker(state, country)
+                // The snapshot loaded at startup is superseded and no longer seeds reconfigured sources
+                state.cacheSource = 'CACHE'
+                this.saveSnapshot(country, {
+                    holidays: layer.holidays,
+                    fetchedAt: new Date(now).toISOString(),
+                    sourceUrl: source.location,
+                })
+            } else {
+                layer.holidays = readHolidayFile(source)
+            }
+
+            layer.status = 'OK'
+            layer.error = null
+            layer.lastLoaded = now
+            state.lastFetch = now
+        } catch (error) {
+            Logger.error('holiday_source_failed', { country, type: source.type, location: source.location, error })
+            layer.status = 'FAILED'
+            layer.error = error instanceof Error ? error.message : 'Unknown error'
+        }
+    }
+
+    /**
+     * Load state of the configured sources, started over whenever the configuration changes. An HTTP source
+     * starts from the snapshot loaded at startup when it was taken from the same URL
+     */
+    private static getSourceStates(state: ProviderState, sources: HolidaySource[]): SourceState[] {
+        const isCurrent =
+            state.sources.length === sources.length &&
+            state.sources.every((layer, index) => layer.source === sources[index])
+
+        if (!isCurrent) {
+            state.sources = sources.map((source): SourceState => {
+                if (source.type === 'http' && state.cacheSource === 'SNAPSHOT' && state.cacheUrl === source.location) {
+                    return {
+                        source,
+                        holidays: state.cache,
+                        status: 'OK',
+                        error: null,
+                        lastLoaded: state.lastFetch,
+                    }
+                }
+                return {
+                    source,
+                    holidays: null,
+                    status: source.type === 'computed' ? 'OK' : 'PENDING',
+                    error: null,
+                    lastLoaded: 0,
+                }
+            })
+        }
+        return state.sources
+    }
+
+    /**
+     * Holidays for a calendar profile: its country's holiday source plus the profile's own closures
+     */
+    public static async getCalendarHolidays(
+        calendar: CalendarProfile,
+        startYear: number,
+        endYear: number
+    ): Promise<HolidayServiceResult> {
+        const result =
+            calendar.holidaySource === 'COMPUTED'
+                ? {
+                      holidays: this.applyOverride(
+                          calendar.country,
+                          this.getComputedHolidays(startYear, endYear, calendar.country)
+                      ),
+                      status: HolidayServiceStatus.HEALTHY,
+                      source: 'COMPUTED' as const,
+                      lastUpdated: null,
+                  }
+                : await this.getHolidays(calendar.country, startYear, endYear)
+
+        if (calendar.closures.length === 0) {
+            return result
+        }
+
+        const closures = calendar.closures.map((closure) => closure.date)
+        return {
+            ...result,
+            holidays: [...new Set([...result.holidays, ...closures])].sort(),
+        }
+    }
+
+    /**
+     * Named holidays of a calendar profile between two dates (inclusive, YYYY-MM-DD). Observed dates
+     * come from the same source as the calculations; names and original dates come from the computed
+     * rules wherever the observed date matches
+     */
+    public static async getCalendarHolidayDetails(
+        calendar: CalendarProfile,
+        from: string,
+        to: string
+    ): Promise<HolidayDetailsResult> {
+        const startYear = Number(from.slice(0, 4))
+        const endYear = Number(to.slice(0, 4))
+        const result = await this.getCalendarHolidays(calendar, startYear, endYear)
+
+        const described = new Map<string, HolidayDate[]>()
+        for (const holiday of getHolidayProvider(calendar.country)?.describeHolidays(startYear, endYear) ?? []) {
+            described.set(holiday.date, [...(described.get(holiday.date) ?? []), holiday])
+        }
+        const closures = new Map(calendar.closures.map((closure) => [closure.date, closure.name]))
+
+        const holidays = result.holidays
+            .filter((date) => date >= from && date <= to)
+            .flatMap((date): HolidayDate[] => {
+                const rules = described.get(date)
+                if (rules) {
+                    return rules
+                }
+
+                const closure = closures.get(date)
+                return closure !== undefined
+                    ? [{ date, originalDate: date, name: closure, category: 'CLOSURE' }]
+                    : [{ date, originalDate: date, name: 'Holiday', category: 'EXTERNAL' }]
+            })
+
+        return { ...result, holidays }
+    }
+
+    /**
+     * Warm the holiday caches from a snapshot file and write every later successful fetch to it.
+     * The snapshot is only a cache: a missing or unreadable file starts cold instead of failing
+     */
+    public static loadSnapshot(filePath: string): void {
+        this.snapshotFile = filePath
+        this.snapshots = new Map()
+
+        if (!existsSync(filePath)) {
+            return
+        }
+
+        let countries: unknown
+        try {
+            countries = (JSON.parse(readFileSync(filePath, 'utf8')) as { countries?: unknown } | null)?.countries
+        } catch (error) {
+            Logger.warn('holiday_snapshot_ignored', { file: filePath, reason: 'unreadable', error })
+            return
+        }
+
+        if (!countries || typeof countries !== 'object' || Array.isArray(countries)) {
+            Logger.warn('holiday_snapshot_ignored', { file: filePath, reason: 'missing_countries' })
+            return
+        }
+
+        for (const [country, value] of Object.entries(countries)) {
+            const snapshot = value as Partial<HolidaySnapshot> | null
+            const fetchedAt = Date.parse(String(snapshot?.fetchedAt))
+            const holidays = snapshot?.holidays
+            if (
+                !Array.isArray(holidays) ||
+                holidays.length === 0 ||
+                !holidays.every((date) => typeof date === 'string' && DATE_REGEX.test(date)) ||
+                typeof snapshot?.sourceUrl !== 'string' ||
+                isNaN(fetchedAt)
+            ) {
+                Logger.warn('holiday_snapshot_ignored', { file: filePath, country, reason: 'invalid' })
+                continue
+            }
+
+            this.snapshots.set(country, {
+                holidays,
+                fetchedAt: String(snapshot.fetchedAt),
+                sourceUrl: snapshot.sourceUrl,
+            })
+
+            const state = this.getState(country)
+            if (!state.cache) {
+                state.cache = holidays
+                state.cacheSource = 'SNAPSHOT'
+                state.cacheUrl = snapshot.sourceUrl
+                state.lastFetch = fetchedAt
+            }
+        }
+    }
+
+    /**
+     * Fetch a country's holidays now instead of waiting for the cache to expire. An open circuit breaker
+     * still blocks the fetch, so reset it first to retry a failing holiday service immediately
+     */
+    public static async refreshHolidays(countryCode: string): Promise<HolidayServiceResult> {
+        const provider = getHolidayProvider(countryCode)
+        if (!provider) {
+            throw new Error(`No holiday provider for country ${countryCode}`)
+        }
+
+        return this.getProviderHolidays(provider, provider.holidaysUrl, undefined, undefined, true)
+    }
+
+    /**
+     * Drop a country's cached holidays and source data so the next request fetches them again.
+     * The snapshot file keeps the last good data for restarts
+     */
+    public static clearCache(countryCode: string): void {
+        const state = this.getState(countryCode.toUpperCase())
+        state.cache = null
+        state.cacheSource = 'CACHE'
+        state.cacheUrl = ''
+        state.lastFetch = 0
+        state.sources = []
+    }
+
+    /**
+     * Close a country's circuit breaker so the next request calls the holiday service again
+     */
+    public static closeCircuitBreaker(countryCode: string): void {
+        const country = countryCode.toUpperCase()
+        const state = this.getState(country)
+        this.resetCircuitBreaker(state, country)
+        state.circuitBreaker.lastFailureTime = 0
+    }
+
+    /**
+     * Apply a holiday dataset on top of a country's holidays, replacing any previous override
+     */
+    public static setOverride(countryCode: string, override: HolidayOverride): void {
+        this.overrides.set(countryCode.toUpperCase(), override)
+    }
+
+    public static removeOverride(countryCode: string): boolean {
+        return this.overrides.delete(countryCode.toUpperCase())
+    }
+
+    /**
+     * The country's holiday override, unless it has expired
+     */
+    public static getOverride(countryCode: string): HolidayOverride | null {
+        const country = countryCode.toUpperCase()
+        const override = this.overrides.get(country)
+        if (override?.expiresAt && Date.parse(override.expiresAt) <= Date.now()) {
+            this.overrides.delete(country)
+            Logger.info('holiday_override_expired', { country, expiresAt: override.expiresAt })
+            return null
+        }
+        return override ?? null
+    }
+
+    /**
+     * Drop every cache, circuit breaker, snapshot and override
+     */
+    public static reset(): void {
+        this.states = new Map()
+        this.snapshots = new Map()
+        this.snapshotFile = ''
+        this.overrides = new Map()
+    }
+
+    private static applyOverride(countryCode: string, holidays: HolidayList): HolidayList {
+        const override = this.getOverride(countryCode)
+        if (!override) {
+            return holidays
+        }
+
+        return mergeHolidayLayers([
+            { mode: 'merge', holidays },
+            { mode: override.mode, holidays: override.holidays },
+        ])
+    }
+
+    private static saveSnapshot(country: string, snapshot: HolidaySnapshot): void {
+        if (!this.snapshotFile) {
+            return
+        }
+
+        this.snapshots.set(country, snapshot)
+        try {
+            const countries = Object.fromEntries(this.snapshots)
+            writeFileSync(this.snapshotFile, `${JSON.stringify({ countries }, null, 4)}\n`)
+        } catch (error) {
+            // Serving the fresh data matters more than persisting it
+            Logger.error('holiday_snapshot_write_failed', { file: this.snapshotFile, error })
+        }
+    }
+
+    private static getState(countryCode: string): ProviderState {
+        let state = this.states.get(countryCode)
+        if (!state) {
+            state = {
+                cache: null,
+                cacheSource: 'CACHE',
+                cacheUrl: '',
+                lastFetch: 0,
+                circuitBreaker: { failures: 0, lastFailureTime: 0, state: 'CLOSED' },
+                sources: [],
+            }
+            this.states.set(countryCode, state)
+        }
+        return state
+    }
+
+    private static async fetchWithRetry(url: string, country: string): Promise<HolidayList> {
         let lastError: Error
 
         for (let attempt = 0; attempt <= this.MAX_RETRIES; attempt++) {
-            try {
-                if (attempt > 0) {
-                    const delay = this.calculateBackoffDelay(attempt)
-                    console.log(`Retrying holiday fetch in ${delay}ms (attempt ${attempt + 1}/${this.MAX_RETRIES + 1})`)
-                    await this.sleep(delay)
-                }
+            if (attempt > 0) {
+                const delay = this.calculateBackoffDelay(attempt)
+                Logger.info('holiday_fetch_retry', { country, url, attempt: attempt + 1, delayMs: Math.round(delay) })
+                await this.sleep(delay)
+                Metrics.increment('holiday_fetch_retries_total', { country })
+            }
+
+            Metrics.increment('holiday_fetch_attempts_total', { country })
+            const startTime = Date.now()
 
-                const response = await axios.get<ColombianHolidays>(url, {
+            try {
+                const response = await axios.get<HolidayList>(url, {
                     timeout: 10000,
                     headers: {
                         Accept: 'application/json',
@@ -118,10 +632,30 @@ export class HolidaysService {
                     throw new Error('Invalid response format from holidays service')
                 }
 
+                if (response.data.length === 0) {
+                    throw new Error('Holidays service returned an empty list')
+                }
+
+                Logger.info('holiday_fetch_attempt', {
+                    country,
+                    url,
+                    attempt: attempt + 1,
+                    outcome: 'success',
+                    durationMs: Date.now() - startTime,
+                    holidayCount: response.data.length,
+                })
                 return response.data
             } catch (error) {
                 lastError = error instanceof Error ? error : new Error('Unknown error')
-                console.warn(`Holiday fetch attempt ${attempt + 1} failed:`, lastError.message)
+                Metrics.increment('holiday_fetch_failures_total', { country })
+                Logger.warn('holiday_fetch_attempt', {
+                    country,
+                    url,
+                    attempt: attempt + 1,
+                    outcome: 'failure',
+                    durationMs: Date.now() - startTime,
+                    error: lastError,
+                })
             }
         }
 
@@ -139,11 +673,16 @@ export class HolidaysService {
         return new Promise((resolve) => setTimeout(resolve, ms))
     }
 
-    private static isCircuitOpen(now: number): boolean {
-        if (this.circuitBreaker.state === 'OPEN') {
-            if (now - this.circuitBreaker.lastFailureTime > this.CIRCUIT_TIMEOUT) {
-                this.circuitBreaker.state = 'HALF_OPEN'
-                console.log('Circuit breaker moving to HALF_OPEN state')
+    private static isCircuitOpen(state: ProviderState, country: string, now: number): boolean {
+        const circuitBreaker = state.circuitBreaker
+        if (circuitBreaker.state === 'OPEN') {
+            if (now - circuitBreaker.lastFailureTime > this.CIRCUIT_TIMEOUT) {
+                circuitBreaker.state = 'HALF_OPEN'
+                Logger.info('holiday_circuit_breaker', {
+                    country,
+                    state: 'HALF_OPEN',
+                    failures: circuitBreaker.failures,
+                })
                 return false
             }
             return true
@@ -151,66 +690,153 @@ export class HolidaysService {
         return false
     }
 
-    private static recordFailure(now: number): void {
-        this.circuitBreaker.failures++
-        this.circuitBreaker.lastFailureTime = now
+    private static recordFailure(state: ProviderState, country: string, now: number): void {
+        const circuitBreaker = state.circuitBreaker
+        circuitBreaker.failures++
+        circuitBreaker.lastFailureTime = now
 
-        if (this.circuitBreaker.failures >= this.MAX_FAILURES) {
-            this.circuitBreaker.state = 'OPEN'
-            console.warn(`Circuit breaker opened after ${this.circuitBreaker.failures} failures`)
+        if (circuitBreaker.failures >= this.MAX_FAILURES) {
+            circuitBreaker.state = 'OPEN'
+            Logger.warn('holiday_circuit_breaker', { country, state: 'OPEN', failures: circuitBreaker.failures })
         }
     }
 
-    private static resetCircuitBreaker(): void {
-        if (this.circuitBreaker.failures > 0) {
-            console.log('Circuit breaker reset - service recovered')
+    private static resetCircuitBreaker(state: ProviderState, country: string): void {
+        const circuitBreaker = state.circuitBreaker
+        if (circuitBreaker.failures > 0) {
+            Logger.info('holiday_circuit_breaker', { country, state: 'CLOSED', failures: 0 })
         }
-        this.circuitBreaker.failures = 0
-        this.circuitBreaker.state = 'CLOSED'
+        circuitBreaker.failures = 0
+        circuitBreaker.state = 'CLOSED'
     }
 
-    private static getFallbackResult(): HolidayServiceResult {
-        const currentYear = new Date().getFullYear()
-        const holidays = getFallbackHolidays(currentYear, currentYear + 1)
-
+    private static getFallbackResult(
+        provider: HolidayProvider,
+        startYear: number,
+        endYear: number
+    ): HolidayServiceResult {
         return {
-            holidays,
+            holidays: provider.computeHolidays(startYear, endYear),
             status: HolidayServiceStatus.FAILED,
             source: 'FALLBACK',
             lastUpdated: null,
         }
     }
 
-    public static getServiceStatus(): {
+    /**
+     * Holidays computed from a country's legal rules, available for any year range
+     */
+    public static getComputedHolidays(
+        startYear: number,
+        endYear: number,
+        countryCode: string = DEFAULT_COUNTRY
+    ): HolidayList {
+        const provider = getHolidayProvider(countryCode)
+        if (!provider) {
+            throw new Error(`No holiday provider for country ${countryCode}`)
+        }
+
+        return provider.computeHolidays(startYear, endYear)
+    }
+
+    /**
+     * Fill in computed holidays for requested years the fetched data does not cover,
+     * so calculations never run against an empty holiday set
+     */
+    private static withComputedYears(
+        holidays: HolidayList,
+        provider: HolidayProvider,
+        startYear: number,
+        endYear: number
+    ): HolidayList {
+        const coveredYears = new Set(holidays.map((holiday) => holiday.slice(0, 4)))
+        const missing: HolidayList = []
+
+        for (let year = startYear; year <= endYear; year++) {
+            if (!coveredYears.has(String(year))) {
+                missing.push(...provider.computeHolidays(year, year))
+            }
+        }
+
+        return missing.length > 0 ? [...holidays, ...missing].sort() : holidays
+    }
+
+    public static getServiceStatus(countryCode: string = DEFAULT_COUNTRY): {
         status: HolidayServiceStatus
         circuitState: string
         failures: number
         lastFetch: number | null
         cacheAge: number | null
+        snapshot: { fetchedAt: string; sourceUrl: string } | null
+        sources: HolidaySourceStatus[] | null
+        override: HolidayOverride | null
     } {
         const now = Date.now()
-        const cacheAge = this.lastFetch ? now - this.lastFetch : null
+        const state = this.getState(countryCode.toUpperCase())
+        const cacheAge = state.lastFetch ? now - state.lastFetch : null
+        const sources = HolidaySourceRegistry.get(countryCode)
+        const layers = sources ? this.getSourceStates(state, sources) : []
 
         let status = HolidayServiceStatus.HEALTHY
-        if (this.circuitBreaker.state === 'OPEN') {
+        if (state.circuitBreaker.state === 'OPEN') {
             status = HolidayServiceStatus.FAILED
-        } else if (cacheAge && cacheAge > this.CACHE_DURATION) {
+        } else if ((cacheAge && cacheAge > this.CACHE_DURATION) || layers.some((layer) => layer.status === 'FAILED')) {
             status = HolidayServiceStatus.DEGRADED
         }
 
         return {
             status,
-            circuitState: this.circuitBreaker.state,
-            failures: this.circuitBreaker.failures,
-            lastFetch: this.lastFetch || null,
+            circuitState: state.circuitBreaker.state,
+            failures: state.circuitBreaker.failures,
+            lastFetch: state.lastFetch || null,
             cacheAge,
+            snapshot: this.getSnapshotInfo(countryCode.toUpperCase()),
+            sources: sources
+                ? layers.map((layer) => ({
+                      type: layer.source.type,
+                      location: layer.source.location,
+                      mode: layer.source.mode,
+                      status: layer.status,
+                      holidayCount: layer.holidays?.length ?? null,
+                      lastLoaded: layer.lastLoaded || null,
+                      error: layer.error,
+                  }))
+                : null,
+            override: this.getOverride(countryCode),
         }
     }
 
-    public static isHoliday(date: Date, holidays: ColombianHolidays): boolean {
-        const dateStr = date.toISOString().split('T')[0]
-        if (!dateStr) return false
-        return holidays.includes(dateStr)
+    private static getSnapshotInfo(countryCode: string): { fetchedAt: string; sourceUrl: string } | null {
+        const snapshot = this.snapshots.get(countryCode)
+        return snapshot ? { fetchedAt: snapshot.fetchedAt, sourceUrl: snapshot.sourceUrl } : null
+    }
+
+    /**
+     * Short fingerprint of a holiday list, identifying the exact holiday data a response was computed with
+     */
+    public static getDatasetVersion(holidays: HolidayList): string {
+        return createHash('sha256')
+            .update([...holidays].sort().join(','))
+            .digest('hex')
+            .slice(0, 12)
+    }
+
+    public static isHoliday(date: Date, holidays: HolidayList): boolean {
+        // Calendar date of the zoned wall-clock time, which late schedules can push past UTC midnight
+        return this.getDateIndex(holidays).has(toDateKey(date))
+    }
+
+    /**
+     * Set of the dates in a list, built once per list so that day-by-day calculations do not scan it.
+     * Holiday lists are never modified once built, so an index stays valid for as long as its list
+     */
+    public static getDateIndex(dates: HolidayList): Set<string> {
+        let index = this.dateIndexes.get(dates)
+        if (!index) {
+            index = new Set(dates)
+            this.dateIndexes.set(dates, index)
+        }
+        return index
     }
 
     public static createHolidaysError(originalError: unknown): ErrorResponse {
@@ -1,72 +1,539 @@
 import express, { Request, Response, NextFunction } from 'express'
-import { BusinessTimeResponse, ErrorResponse } from './types'
+import { randomUUID, timingSafeEqual } from 'crypto'
+import { format } from 'date-fns'
+import {
+    ApproximationPolicy,
+    BatchItemResult,
+    BatchResponse,
+    BusinessDurationResponse,
+    BusinessStatusResponse,
+    BusinessRules,
+    BusinessTimeResponse,
+    CalculationDirection,
+    CalculationExplanation,
+    CalendarProfile,
+    ErrorCodes,
+    ErrorResponse,
+    HolidayList,
+    HolidayListResponse,
+    SlaDeadlineResponse,
+    TimeAdjustment,
+    ValidationResult,
+    WorkingSegment,
+} from './types'
 import { ValidationService } from './validation'
-import { HolidaysService, HolidayServiceStatus } from './holidays'
+import { HolidaysService, HolidayServiceResult, HolidayServiceStatus } from './holidays'
 import { BusinessTimeCalculator } from './businessTime'
+import { DEFAULT_BUSINESS_RULES, formatDaySchedule, toDaySchedule } from './businessRules'
+import { CalendarRegistry } from './calendars'
+import { buildCalendarFeed } from './calendarFeed'
+import { Logger, LogLevel } from './logger'
+import { Metrics } from './metrics'
+import { HolidayProvider, getHolidayProvider, listHolidayProviders } from './holidayProviders'
+import { HolidaySourceRegistry } from './holidaySources'
+import { buildOpenApiDocument, renderDocsPage } from './openapi'
+import { AuditLog } from './auditLog'
 
 const app = express()
 const PORT = process.env.PORT || 3000
-const HOLIDAYS_URL = process.env.HOLIDAYS_URL || ''
+const HOLIDAYS_URL = DEFAULT_BUSINESS_RULES.holidaysUrl
+const CALENDARS_FILE = process.env.CALENDARS_FILE || ''
+const CALENDAR_OVERRIDES_FILE = process.env.CALENDAR_OVERRIDES_FILE || ''
+const HOLIDAY_SNAPSHOT_FILE = process.env.HOLIDAY_SNAPSHOT_FILE || ''
+const HOLIDAY_SOURCES_FILE = process.env.HOLIDAY_SOURCES_FILE || ''
+const AUDIT_LOG_FILE = process.env.AUDIT_LOG_FILE || ''
+const BATCH_MAX_ITEMS = Number(process.env.BATCH_MAX_ITEMS) || 1000
+const REQUEST_ID_REGEX = /^[\w.:-]{1,128}$/
+const OPENAPI_DOCUMENT = buildOpenApiDocument()
+const DOCS_PAGE = renderDocsPage(OPENAPI_DOCUMENT)
+
+// Load named calendar profiles; an invalid file stops the server at startup
+if (CALENDARS_FILE) {
+    CalendarRegistry.loadFromFile(CALENDARS_FILE)
+}
+
+// Closures and working dates managed through the admin endpoints survive restarts in this file
+if (CALENDAR_OVERRIDES_FILE) {
+    CalendarRegistry.loadOverrides(CALENDAR_OVERRIDES_FILE)
+}
+
+// Ordered holiday sources per country; an invalid file stops the server at startup
+if (HOLIDAY_SOURCES_FILE) {
+    HolidaySourceRegistry.loadFromFile(HOLIDAY_SOURCES_FILE)
+}
+
+// Admin actions are appended to this file as JSON lines
+if (AUDIT_LOG_FILE) {
+    AuditLog.loadFromFile(AUDIT_LOG_FILE)
+}
+
+// The last good holiday data survives restarts in this file, so a cold start does not depend on the upstream
+if (HOLIDAY_SNAPSHOT_FILE) {
+    HolidaysService.loadSnapshot(HOLIDAY_SNAPSHOT_FILE)
+}
+
+// Conservative count of working weeks per year, used to size the holiday range a calculation may cross
+const WORKING_WEEKS_PER_YEAR = 48
+
+function getHolidayYearRange(
+    startDate: Date | undefined,
+    days = 0,
+    hours = 0,
+    direction: CalculationDirection = 'forward',
+    rules: BusinessRules = DEFAULT_BUSINESS_RULES
+): [number, number] {
+    const startYear = (startDate ?? new Date()).getUTCFullYear()
+    const hoursPerDay = BusinessTimeCalculator.getWorkingMinutesPerDay(rules) / 60
+    const businessDaysPerYear = rules.workingDays.length * WORKING_WEEKS_PER_YEAR
+    const spannedYears = Math.ceil((days + hours / hoursPerDay) / businessDaysPerYear)
+    return direction === 'backward'
+        ? [startYear - spannedYears - 1, startYear]
+        : [startYear, startYear + spannedYears + 1]
+}
+
+// Minutes are folded into fractional hours for the calculator
+function getTotalHours(parsedRequest: { hours: number | undefined; minutes: number | undefined }): number | undefined {
+    const { hours, minutes } = parsedRequest
+    return hours === undefined && minutes === undefined ? undefined : (hours ?? 0) + (minutes ?? 0) / 60
+}
+
+// Run one calculation; in strict mode a start outside business time is an error instead of being moved.
+// Each calculation is logged with its inputs, result and any adjustment of the start date
+function calculateBusinessTime(
+    parsedRequest: NonNullable<ValidationResult['parsedRequest']>,
+    holidays: HolidayList,
+    rules: BusinessRules,
+    logLevel: LogLevel = 'info'
+): BusinessTimeResponse | ErrorResponse {
+    const { days, hours, minutes, startDate, direction, approximation } = parsedRequest
+    const { date, adjustment } = BusinessTimeCalculator.calculateBusinessTimeResult(
+        startDate,
+        days,
+        getTotalHours(parsedRequest),
+        holidays,
+        direction,
+        rules,
+        approximation
+    )
+
+    const response = getCalculationResponse(date, adjustment, approximation)
+    Logger.log(logLevel, 'business_time_calculated', {
+        start: startDate ? BusinessTimeCalculator.formatToISO(startDate) : null,
+        days: days ?? null,
+        hours: hours ?? null,
+        minutes: minutes ?? null,
+        direction,
+        approximation,
+        ...('error' in response
+            ? { error: response.error }
+            : { result: response.date, adjustment: response.adjustment }),
+    })
+
+    return response
+}
+
+function getCalculationResponse(
+    date: Date,
+    adjustment: TimeAdjustment,
+    approximation: ApproximationPolicy
+): BusinessTimeResponse | ErrorResponse {
+    if (!adjustment.wasAdjusted) {
+        return { date: BusinessTimeCalculator.formatToISO(date) }
+    }
+
+    const reason = adjustment.reason ?? 'Outside business time'
+    if (approximation === 'strict') {
+        return {
+            error: ErrorCodes.OUTSIDE_BUSINESS_TIME,
+            message: `Start date is outside business time: ${reason}`,
+        }
+    }
+
+    return {
+        date: BusinessTimeCalculator.formatToISO(date),
+        adjustment: { start: BusinessTimeCalculator.formatToISO(adjustment.date), reason },
+    }
+}
+
+// Step-by-step account of a calculation for explain=true: the days crossed between the adjusted start and
+// the result, with the holidays named from the same source as the calculation
+async function explainCalculation(
+    response: BusinessTimeResponse,
+    startDate: Date,
+    direction: CalculationDirection,
+    holidayResult: HolidayServiceResult,
+    calendar: CalendarProfile,
+    rules: BusinessRules
+): Promise<CalculationExplanation> {
+    const adjustedStart = response.adjustment ? new Date(response.adjustment.start) : startDate
+    const endDate = new Date(response.date)
+    const { holidays } = holidayResult
+    const trace = BusinessTimeCalculator.traceBusinessTime(adjustedStart, endDate, holidays, rules)
+
+    const holidayDays = trace.days.filter((day) => day.closed === 'HOLIDAY').map((day) => day.day)
+    const holidayNames = new Map<string, string[]>()
+    if (holidayDays.length > 0) {
+        const details = await HolidaysService.getCalendarHolidayDetails(
+            calendar,
+            holidayDays.reduce((first, day) => (day < first ? day : first)),
+            holidayDays.reduce((last, day) => (day > last ? day : last))
+        )
+        for (const holiday of details.holidays) {
+            holidayNames.set(holiday.date, [...(holidayNames.get(holiday.date) ?? []), holiday.name])
+        }
+    }
+
+    const toWindow = (segment: WorkingSegment): { start: string; end: string } => ({
+        start: BusinessTimeCalculator.formatToISO(segment.start),
+        end: BusinessTimeCalculator.formatToISO(segment.end),
+    })
+
+    return {
+        start: BusinessTimeCalculator.formatToISO(startDate),
+        adjustedStart: BusinessTimeCalculator.formatToISO(adjustedStart),
+        adjustmentReason: response.adjustment?.reason ?? null,
+        direction,
+        totalMinutes: BusinessTimeCalculator.countBusinessMinutes(
+            direction === 'backward' ? endDate : adjustedStart,
+            direction === 'backward' ? adjustedStart : endDate,
+            holidays,
+            rules
+        ),
+        days: trace.days.map((day) => ({
+            date: day.day,
+            type: day.closed === null ? 'BUSINESS_DAY' : day.closed === 'HOLIDAY' ? 'HOLIDAY' : 'WEEKEND',
+            ...(day.closed === 'HOLIDAY' && { holidays: holidayNames.get(day.day) ?? ['Holiday'] }),
+            minutes: day.minutes,
+            worked: day.worked.map(toWindow),
+            breaks: day.breaks.map(toWindow),
+        })),
+        truncated: trace.truncated,
+        holidayData: {
+            calendar: calendar.name,
+            country: calendar.country,
+            source: holidayResult.source,
+            status: holidayResult.status,
+            lastUpdated: holidayResult.lastUpdated ? new Date(holidayResult.lastUpdated).toISOString() : null,
+            version: HolidaysService.getDatasetVersion(holidays),
+        },
+    }
+}
+
+function setHolidayHeaders(res: Response, holidayResult: Omit<HolidayServiceResult, 'holidays'>): void {
+    res.set({
+        'X-Holiday-Service-Status': holidayResult.status,
+        'X-Holiday-Data-Source': holidayResult.source,
+        'X-Holiday-Last-Updated': holidayResult.lastUpdated
+            ? new Date(holidayResult.lastUpdated).toISOString()
+            : 'never',
+    })
+
+    Metrics.increment('holiday_data_responses_total', { source: holidayResult.source, status: holidayResult.status })
+
+    // Log degraded service status
+    if (holidayResult.status !== HolidayServiceStatus.HEALTHY) {
+        Logger.warn('holiday_data_served', { source: holidayResult.source, status: holidayResult.status })
+    }
+}
+
+// Matched route pattern rather than the raw path, so IDs and dates in paths do not multiply log and metric values
+function getRouteLabel(req: Request): string {
+    return req.route ? `${req.baseUrl}${String(req.route.path)}` : 'unmatched'
+}
+
+function getCalendarStatuses(): Record<string, unknown>[] {
+    return CalendarRegistry.list().map((calendar) => ({
+        name: calendar.name,
+        country: calendar.country,
+        timezone: calendar.rules.timezone,
+        workingDays: calendar.rules.workingDays,
+        workingHours: calendar.rules.workingHours,
+        holidaySource: calendar.holidaySource,
+        // Computed holidays never depend on the external service
+        holidayStatus:
+            calendar.holidaySource === 'COMPUTED'
+                ? HolidayServiceStatus.HEALTHY
+                : HolidaysService.getServiceStatus(calendar.country).status,
+        closures: calendar.closures.length,
+        workingDates: calendar.workingDates.length,
+    }))
+}
+
+function getCountryStatuses(): Record<string, unknown> {
+    return Object.fromEntries(
+        listHolidayProviders().map((provider) => [
+            provider.countryCode,
+            {
+                name: provider.name,
+                timezone: provider.timezone,
+                source: HolidaySourceRegistry.get(provider.countryCode)
+                    ? 'SOURCES'
+                    : provider.holidaysUrl
+                      ? 'API'
+                      : 'COMPUTED',
+                ...HolidaysService.getServiceStatus(provider.countryCode),
+            },
+        ])
+    )
+}
 
 // Middleware
-app.use(express.json())
+// Request ID and structured request log. An incoming X-Request-Id is kept so logs correlate across services;
+// every entry logged while handling the request, including holiday fetches, carries the ID
+app.use((req: Request, res: Response, next: NextFunction): void => {
+    const incomingId = req.get('X-Request-Id')
+    const requestId = incomingId && REQUEST_ID_REGEX.test(incomingId) ? incomingId : randomUUID()
+    const startTime = process.hrtime.bigint()
+    res.set('X-Request-Id', requestId)
+
+    res.on('finish', () => {
+        const status = res.statusCode
+        Logger.log(status >= 500 ? 'error' : 'info', 'http_request', {
+            requestId,
+            method: req.method,
+            path: req.path,
+            route: getRouteLabel(req),
+            status,
+            durationMs: Number(process.hrtime.bigint() - startTime) / 1e6,
+        })
+    })
+
+    Logger.runWithContext({ requestId }, next)
+})
+
+// Large batches can exceed the default 100kb JSON body limit
+app.use(express.json({ limit: '1mb' }))
 
-// Request logging middleware
+// Request metrics, labelled with the matched route pattern to keep the number of series bounded
 app.use((req: Request, res: Response, next: NextFunction): void => {
-    const startTime = Date.now()
-    console.log(`${new Date().toISOString()} - ${req.method} ${req.path} - Query:`, req.query)
+    const startTime = process.hrtime.bigint()
 
-    // Log response time and status
-    const originalSend = res.send
-    res.send = function (data) {
-        const duration = Date.now() - startTime
-        console.log(`${new Date().toISOString()} - ${req.method} ${req.path} - ${res.statusCode} - ${duration}ms`)
-        return originalSend.call(this, data)
-    }
+    res.on('finish', () => {
+        const labels = { method: req.method, route: getRouteLabel(req), status: String(res.statusCode) }
+        Metrics.increment('http_requests_total', labels)
+        Metrics.observe('http_request_duration_seconds', labels, Number(process.hrtime.bigint() - startTime) / 1e9)
+    })
 
     next()
 })
 
+// Constant-time comparison, so response times do not reveal how much of a guessed token is right
+function isMatchingToken(received: string, expected: string): boolean {
+    const receivedBuffer = Buffer.from(received)
+    const expectedBuffer = Buffer.from(expected)
+    return receivedBuffer.length === expectedBuffer.length && timingSafeEqual(receivedBuffer, expectedBuffer)
+}
+
+// Admin endpoints require the ADMIN_TOKEN bearer token and are disabled without one
+function requireAdmin(req: Request, res: Response, next: NextFunction): void {
+    const adminToken = process.env.ADMIN_TOKEN
+    if (!adminToken || !isMatchingToken(req.get('Authorization') ?? '', `Bearer ${adminToken}`)) {
+        const errorResponse: ErrorResponse = {
+            error: ErrorCodes.UNAUTHORIZED,
+            message: adminToken
+                ? 'A valid admin bearer token is required'
+                : 'Admin endpoints are disabled (ADMIN_TOKEN is not set)',
+        }
+        res.status(401).json(errorResponse)
+        return
+    }
+
+    next()
+}
+
+// Admins share one token, so the optional X-Admin-User header names who made a change in the audit trail
+function getAdminUser(req: Request): string | null {
+    return req.get('X-Admin-User') || null
+}
+
+// Country of an admin holiday route, or undefined after sending a 404
+function getAdminProvider(req: Request, res: Response): HolidayProvider | undefined {
+    const provider = getHolidayProvider(req.params.country ?? '')
+    if (!provider) {
+        const errorResponse: ErrorResponse = {
+            error: ErrorCodes.UNKNOWN_COUNTRY,
+            message: `Unsupported country. Available countries: ${listHolidayProviders()
+                .map((candidate) => candidate.countryCode)
+                .join(', ')}`,
+        }
+        res.status(404).json(errorResponse)
+    }
+    return provider
+}
+
 // Main business time calculation endpoint
 app.get('/calculate-business-time', async (req: Request, res: Response): Promise<void> => {
     try {
         // Validate request parameters
-        const validation = ValidationService.validateRequest(req.query)
+        const validation = ValidationService.validateCalculationRequest(req.query)
 
         if (!validation.isValid || !validation.parsedRequest) {
             res.status(400).json(validation.error)
             return
         }
 
-        const { days, hours, startDate } = validation.parsedRequest
+        const calendarValidation = ValidationService.validateCalendar(req.query)
 
-        // Fetch holidays
-        const holidayResult = await HolidaysService.getColombianHolidays(HOLIDAYS_URL)
+        if (!calendarValidation.isValid || !calendarValidation.calendar || !calendarValidation.rules) {
+            res.status(400).json(calendarValidation.error)
+            return
+        }
+
+        // An explanation reports the start, so "now" is fixed before calculating
+        const parsedRequest = validation.explain
+            ? { ...validation.parsedRequest, startDate: validation.parsedRequest.startDate ?? new Date() }
+            : validation.parsedRequest
+        const { days, startDate, direction } = parsedRequest
+        const hours = getTotalHours(parsedRequest)
+        const { calendar, rules } = calendarValidation
+
+        // Fetch holidays covering every year the calculation may reach
+        const [startYear, endYear] = getHolidayYearRange(startDate, days, hours, direction, rules)
+        const holidayResult = await HolidaysService.getCalendarHolidays(calendar, startYear, endYear)
 
         // Add service status headers
-        res.set({
-            'X-Holiday-Service-Status': holidayResult.status,
-            'X-Holiday-Data-Source': holidayResult.source,
-            'X-Holiday-Last-Updated': holidayResult.lastUpdated
-                ? new Date(holidayResult.lastUpdated).toISOString()
-                : 'never',
+        setHolidayHeaders(res, holidayResult)
+
+        // Calculate business time
+        const response = calculateBusinessTime(parsedRequest, holidayResult.holidays, rules)
+
+        if (validation.explain && startDate && !('error' in response)) {
+            response.explanation = await explainCalculation(
+                response,
+                startDate,
+                direction,
+                holidayResult,
+                calendar,
+                rules
+            )
+        }
+
+        res.status('error' in response ? 400 : 200).json(response)
+    } catch (error) {
+        Logger.error('internal_error', { error })
+        const errorResponse = ValidationService.createInternalError(
+            'An unexpected error occurred while processing your request'
+        )
+        res.status(500).json(errorResponse)
+    }
+})
+
+// Batch calculation endpoint: one holiday lookup for many start dates
+app.post('/calculate-business-time/batch', async (req: Request, res: Response): Promise<void> => {
+    try {
+        const batchValidation = ValidationService.validateBatchRequest(req.body, BATCH_MAX_ITEMS)
+
+        if (!batchValidation.isValid || !batchValidation.items) {
+            const status = batchValidation.error?.error === ErrorCodes.BATCH_TOO_LARGE ? 413 : 400
+            res.status(status).json(batchValidation.error)
+            return
+        }
+
+        const calendarValidation = ValidationService.validateCalendar(req.query)
+
+        if (!calendarValidation.isValid || !calendarValidation.calendar || !calendarValidation.rules) {
+            res.status(400).json(calendarValidation.error)
+            return
+        }
+
+        const { calendar, rules } = calendarValidation
+        const items = batchValidation.items.map((item) => ({
+            id: item.id,
+            validation: ValidationService.validateBatchItem(item),
+        }))
+
+        // Fetch holidays once, covering every year any valid item may reach
+        const yearRanges = items.flatMap(({ validation }) =>
+            validation.parsedRequest
+                ? [
+                      getHolidayYearRange(
+                          validation.parsedRequest.startDate,
+                          validation.parsedRequest.days,
+                          getTotalHours(validation.parsedRequest),
+                          validation.parsedRequest.direction,
+                          rules
+                      ),
+                  ]
+                : []
+        )
+
+        let holidays: string[] = []
+        if (yearRanges.length > 0) {
+            const startYear = Math.min(...yearRanges.map(([start]) => start))
+            const endYear = Math.max(...yearRanges.map(([, end]) => end))
+            const holidayResult = await HolidaysService.getCalendarHolidays(calendar, startYear, endYear)
+            setHolidayHeaders(res, holidayResult)
+            holidays = holidayResult.holidays
+        }
+
+        const results = items.map(({ id, validation }): BatchItemResult => {
+            const itemId = typeof id === 'string' || typeof id === 'number' ? { id } : {}
+
+            if (!validation.isValid || !validation.parsedRequest) {
+                return { ...itemId, ...(validation.error && { error: validation.error }) }
+            }
+
+            // Items are logged at debug level; the request log covers the batch as a whole
+            const result = calculateBusinessTime(validation.parsedRequest, holidays, rules, 'debug')
+
+            return 'error' in result ? { ...itemId, error: result } : { ...itemId, ...result }
         })
 
-        // Log degraded service status
-        if (holidayResult.status !== HolidayServiceStatus.HEALTHY) {
-            console.warn(`Holiday service is ${holidayResult.status}, using ${holidayResult.source} data`)
+        const response: BatchResponse = { results }
+
+        res.status(200).json(response)
+    } catch (error) {
+        Logger.error('internal_error', { error })
+        const errorResponse = ValidationService.createInternalError(
+            'An unexpected error occurred while processing your request'
+        )
+        res.status(500).json(errorResponse)
+    }
+})
+
+// Business time elapsed between two instants
+app.get('/business-time-between', async (req: Request, res: Response): Promise<void> => {
+    try {
+        const validation = ValidationService.validateDurationRequest(req.query)
+
+        if (!validation.isValid || !validation.parsedRequest) {
+            res.status(400).json(validation.error)
+            return
         }
 
-        // Calculate business time
-        const resultDate = BusinessTimeCalculator.calculateBusinessTime(startDate, days, hours, holidayResult.holidays)
+        const calendarValidation = ValidationService.validateCalendar(req.query)
 
-        const response: BusinessTimeResponse = {
-            date: BusinessTimeCalculator.formatToISO(resultDate),
+        if (!calendarValidation.isValid || !calendarValidation.calendar || !calendarValidation.rules) {
+            res.status(400).json(calendarValidation.error)
+            return
+        }
+
+        const { startDate, endDate } = validation.parsedRequest
+        const { calendar, rules } = calendarValidation
+
+        const holidayResult = await HolidaysService.getCalendarHolidays(
+            calendar,
+            startDate.getUTCFullYear(),
+            endDate.getUTCFullYear()
+        )
+        setHolidayHeaders(res, holidayResult)
+
+        const duration = BusinessTimeCalculator.calculateBusinessDuration(
+            startDate,
+            endDate,
+            holidayResult.holidays,
+            rules
+        )
+
+        const response: BusinessDurationResponse = {
+            start: BusinessTimeCalculator.formatToISO(startDate),
+            end: BusinessTimeCalculator.formatToISO(endDate),
+            ...duration,
         }
 
         res.status(200).json(response)
     } catch (error) {
-        console.error('Internal server error:', error)
+        Logger.error('internal_error', { error })
         const errorResponse = ValidationService.createInternalError(
             'An unexpected error occurred while processing your request'
         )
@@ -74,15 +541,416 @@ app.get('/calculate-business-time', async (req: Request, res: Response): Promise
     }
 })
 
+// SLA deadline with pause intervals, evaluated at a given instant
+app.post('/sla/deadline', async (req: Request, res: Response): Promise<void> => {
+    try {
+        const validation = ValidationService.validateSlaRequest(req.body)
+
+        if (!validation.isValid || !validation.parsedRequest) {
+            res.status(400).json(validation.error)
+            return
+        }
+
+        const calendarValidation = ValidationService.validateCalendar(req.query)
+
+        if (!calendarValidation.isValid || !calendarValidation.calendar || !calendarValidation.rules) {
+            res.status(400).json(calendarValidation.error)
+            return
+        }
+
+        const { startDate, now, days, pauses } = validation.parsedRequest
+        const hours = getTotalHours(validation.parsedRequest)
+        const { calendar, rules } = calendarValidation
+
+        // Pauses push the deadline past the budget, so cover every year up to the latest pause or now
+        const [startYear, budgetEndYear] = getHolidayYearRange(startDate, days, hours, 'forward', rules)
+        const latestInstant = Math.max(now.getTime(), ...pauses.map((pause) => (pause.end ?? now).getTime()))
+        const endYear = Math.max(budgetEndYear, new Date(latestInstant).getUTCFullYear() + 1)
+        const holidayResult = await HolidaysService.getCalendarHolidays(calendar, startYear, endYear)
+        setHolidayHeaders(res, holidayResult)
+
+        const sla = BusinessTimeCalculator.calculateSlaStatus(
+            startDate,
+            days,
+            hours,
+            pauses,
+            now,
+            holidayResult.holidays,
+            rules
+        )
+
+        const response: SlaDeadlineResponse = {
+            start: BusinessTimeCalculator.formatToISO(startDate),
+            now: BusinessTimeCalculator.formatToISO(now),
+            dueDate: BusinessTimeCalculator.formatToISO(sla.dueDate),
+            pausedMinutes: sla.pausedMinutes,
+            remainingMinutes: sla.remainingMinutes,
+            breached: sla.breached,
+            paused: sla.paused,
+        }
+
+        res.status(200).json(response)
+    } catch (error) {
+        Logger.error('internal_error', { error })
+        const errorResponse = ValidationService.createInternalError(
+            'An unexpected error occurred while processing your request'
+        )
+        res.status(500).json(errorResponse)
+    }
+})
+
+// Whether an instant is business time, and the surrounding working windows
+app.get('/business-status', async (req: Request, res: Response): Promise<void> => {
+    try {
+        const validation = ValidationService.validateStatusRequest(req.query)
+
+        if (!validation.isValid || !validation.date) {
+            res.status(400).json(validation.error)
+            return
+        }
+
+        const calendarValidation = ValidationService.validateCalendar(req.query)
+
+        if (!calendarValidation.isValid || !calendarValidation.calendar || !calendarValidation.rules) {
+            res.status(400).json(calendarValidation.error)
+            return
+        }
+
+        const { date } = validation
+        const { calendar, rules } = calendarValidation
+
+        // The next opening can fall in the following year, e.g. on December 31
+        const year = BusinessTimeCalculator.utcToBusinessTime(date, rules).getFullYear()
+        const holidayResult = await HolidaysService.getCalendarHolidayDetails(
+            calendar,
+            `${year}-01-01`,
+            `${year + 1}-12-31`
+        )
+        setHolidayHeaders(res, holidayResult)
+
+        const holidays = holidayResult.holidays.map((holiday) => holiday.date)
+        const status = BusinessTimeCalculator.getBusinessStatus(date, holidays, rules)
+        const localDate = format(BusinessTimeCalculator.utcToBusinessTime(date, rules), 'yyyy-MM-dd')
+        const holidayNames = holidayResult.holidays
+            .filter((holiday) => holiday.date === localDate)
+            .map((holiday) => holiday.name)
+
+        const response: BusinessStatusResponse = {
+            date: BusinessTimeCalculator.formatToISO(date),
+            isBusinessTime: status.isBusinessTime,
+            reason: status.reason,
+            ...(status.reason === 'HOLIDAY' && { holiday: holidayNames.join(', ') }),
+            currentSegment: status.currentSegment && {
+                start: BusinessTimeCalculator.formatToISO(status.currentSegment.start),
+                end: BusinessTimeCalculator.formatToISO(status.currentSegment.end),
+            },
+            nextOpen: status.nextOpen && BusinessTimeCalculator.formatToISO(status.nextOpen),
+            nextClose: status.nextClose && BusinessTimeCalculator.formatToISO(status.nextClose),
+        }
+
+        res.status(200).json(response)
+    } catch (error) {
+        Logger.error('internal_error', { error })
+        const errorResponse = ValidationService.createInternalError(
+            'An unexpected error occurred while processing your request'
+        )
+        res.status(500).json(errorResponse)
+    }
+})
+
+// Holiday listing with names and categories, from the same source the calculations use
+app.get('/holidays', async (req: Request, res: Response): Promise<void> => {
+    try {
+        const validation = ValidationService.validateHolidayListRequest(req.query)
+
+        if (!validation.isValid || !validation.range) {
+            res.status(400).json(validation.error)
+            return
+        }
+
+        const calendarValidation = ValidationService.validateCalendar(req.query)
+
+        if (!calendarValidation.isValid || !calendarValidation.calendar) {
+            res.status(400).json(calendarValidation.error)
+            return
+        }
+
+        const { from, to } = validation.range
+        const { calendar } = calendarValidation
+        const holidayResult = await HolidaysService.getCalendarHolidayDetails(calendar, from, to)
+
+        const response: HolidayListResponse = {
+            country: calendar.country,
+            calendar: calendar.name,
+            from,
+            to,
+            source: holidayResult.source,
+            status: holidayResult.status,
+            lastUpdated: holidayResult.lastUpdated ? new Date(holidayResult.lastUpdated).toISOString() : null,
+            holidays: holidayResult.holidays,
+        }
+
+        res.status(200).json(response)
+    } catch (error) {
+        Logger.error('internal_error', { error })
+        const errorResponse = ValidationService.createInternalError(
+            'An unexpected error occurred while listing holidays'
+        )
+        res.status(500).json(errorResponse)
+    }
+})
+
+// iCalendar feed of a calendar's holidays and closures, optionally with its working hours
+app.get('/calendar.ics', async (req: Request, res: Response): Promise<void> => {
+    try {
+        const validation = ValidationService.validateCalendarExportRequest(req.query)
+
+        if (!validation.isValid || !validation.range) {
+            res.status(400).json(validation.error)
+            return
+        }
+
+        const calendarValidation = ValidationService.validateCalendar(req.query)
+
+        if (!calendarValidation.isValid || !calendarValidation.calendar || !calendarValidation.rules) {
+            res.status(400).json(calendarValidation.error)
+            return
+        }
+
+        const { from, to } = validation.range
+        const { calendar, rules } = calendarValidation
+        const holidayResult = await HolidaysService.getCalendarHolidayDetails(calendar, from, to)
+        setHolidayHeaders(res, holidayResult)
+
+        const segments = validation.includeWorkingHours
+            ? BusinessTimeCalculator.listWorkingSegments(
+                  from,
+                  to,
+                  holidayResult.holidays.map((holiday) => holiday.date),
+                  rules
+              )
+            : []
+
+        res.status(200)
+            .type('text/calendar; charset=utf-8')
+            .set('Content-Disposition', `inline; filename="${calendar.name}.ics"`)
+            .send(
+                buildCalendarFeed({
+                    calendar: calendar.name,
+                    timezone: rules.timezone,
+                    holidays: holidayResult.holidays,
+                    segments,
+                    generatedAt: new Date(),
+                })
+            )
+    } catch (error) {
+        Logger.error('internal_error', { error })
+        const errorResponse = ValidationService.createInternalError(
+            'An unexpected error occurred while exporting the calendar'
+        )
+        res.status(500).json(errorResponse)
+    }
+})
+
+// Runtime closures and working dates of a calendar
+app.get('/admin/calendars/:calendar/overrides', requireAdmin, (req: Request, res: Response): void => {
+    const calendar = req.params.calendar ?? ''
+    if (!CalendarRegistry.get(calendar)) {
+        const errorResponse: ErrorResponse = {
+            error: ErrorCodes.UNKNOWN_CALENDAR,
+            message: `Calendar ${calendar} not found`,
+        }
+        res.status(404).json(errorResponse)
+        return
+    }
+
+    res.status(200).json({ calendar, ...CalendarRegistry.getOverrides(calendar) })
+})
+
+const OVERRIDE_ROUTES = [
+    { path: 'closures', kind: 'closures', defaultName: 'Company closure' },
+    { path: 'working-dates', kind: 'workingDates', defaultName: 'Working day' },
+] as const
+
+for (const { path, kind, defaultName } of OVERRIDE_ROUTES) {
+    app.put(`/admin/calendars/:calendar/${path}/:date`, requireAdmin, (req: Request, res: Response): void => {
+        try {
+            const calendar = req.params.calendar ?? ''
+            const validation = ValidationService.validateCalendarDateEntry(
+                calendar,
+                req.params.date ?? '',
+                req.body,
+                defaultName
+            )
+
+            if (!validation.isValid || !validation.entry) {
+                const status = validation.error?.error === ErrorCodes.UNKNOWN_CALENDAR ? 404 : 400
+                res.status(status).json(validation.error)
+                return
+            }
+
+            CalendarRegistry.setOverride(calendar, kind, validation.entry)
+            AuditLog.record('calendar_override_set', calendar, getAdminUser(req), { kind, ...validation.entry })
+            res.status(200).json({ calendar, ...CalendarRegistry.getOverrides(calendar) })
+        } catch (error) {
+            Logger.error('calendar_override_save_failed', { calendar: req.params.calendar, kind, error })
+            const errorResponse = ValidationService.createInternalError('Unable to save calendar overrides')
+            res.status(500).json(errorResponse)
+        }
+    })
+
+    app.delete(`/admin/calendars/:calendar/${path}/:date`, requireAdmin, (req: Request, res: Response): void => {
+        try {
+            const calendar = req.params.calendar ?? ''
+            const date = req.params.date ?? ''
+
+            if (!CalendarRegistry.removeOverride(calendar, kind, date)) {
+                const errorResponse: ErrorResponse = {
+                    error: 'NotFound',
+                    message: `No ${kind} override for ${date} in calendar ${calendar}`,
+                }
+                res.status(404).json(errorResponse)
+                return
+            }
+
+            AuditLog.record('calendar_override_removed', calendar, getAdminUser(req), { kind, date })
+            res.status(200).json({ calendar, ...CalendarRegistry.getOverrides(calendar) })
+        } catch (error) {
+            Logger.error('calendar_override_save_failed', { calendar: req.params.calendar, kind, error })
+            const errorResponse = ValidationService.createInternalError('Unable to save calendar overrides')
+            res.status(500).json(errorResponse)
+        }
+    })
+}
+
+// Fetch a country's holidays now, bypassing the 24-hour cache
+app.post('/admin/holidays/:country/refresh', requireAdmin, async (req: Request, res: Response): Promise<void> => {
+    try {
+        const provider = getAdminProvider(req, res)
+        if (!provider) {
+            return
+        }
+
+        const country = provider.countryCode
+        const result = await HolidaysService.refreshHolidays(country)
+        const details = { source: result.source, status: result.status, holidayCount: result.holidays.length }
+        AuditLog.record('holidays_refreshed', country, getAdminUser(req), details)
+
+        res.status(200).json({
+            country,
+            ...details,
+            lastUpdated: result.lastUpdated ? new Date(result.lastUpdated).toISOString() : null,
+            service: HolidaysService.getServiceStatus(country),
+        })
+    } catch (error) {
+        Logger.error('internal_error', { error })
+        const errorResponse = ValidationService.createInternalError('Unable to refresh holidays')
+        res.status(500).json(errorResponse)
+    }
+})
+
+// Drop a country's cached holidays; the next request fetches them again
+app.delete('/admin/holidays/:country/cache', requireAdmin, (req: Request, res: Response): void => {
+    const provider = getAdminProvider(req, res)
+    if (!provider) {
+        return
+    }
+
+    const country = provider.countryCode
+    const { cacheAge } = HolidaysService.getServiceStatus(country)
+    HolidaysService.clearCache(country)
+    AuditLog.record('holiday_cache_cleared', country, getAdminUser(req), { cacheAgeMs: cacheAge })
+
+    res.status(200).json({ country, service: HolidaysService.getServiceStatus(country) })
+})
+
+// Close a country's circuit breaker so the next request calls the holiday service again
+app.post('/admin/holidays/:country/circuit-breaker/reset', requireAdmin, (req: Request, res: Response): void => {
+    const provider = getAdminProvider(req, res)
+    if (!provider) {
+        return
+    }
+
+    const country = provider.countryCode
+    const { circuitState, failures } = HolidaysService.getServiceStatus(country)
+    HolidaysService.closeCircuitBreaker(country)
+    AuditLog.record('circuit_breaker_reset', country, getAdminUser(req), { previousState: circuitState, failures })
+
+    res.status(200).json({ country, service: HolidaysService.getServiceStatus(country) })
+})
+
+// Temporary holiday dataset applied on top of a country's holidays, e.g. a newly decreed holiday
+app.put('/admin/holidays/:country/override', requireAdmin, (req: Request, res: Response): void => {
+    const provider = getAdminProvider(req, res)
+    if (!provider) {
+        return
+    }
+
+    const validation = ValidationService.validateHolidayOverride(req.body)
+    if (!validation.isValid || !validation.override) {
+        res.status(400).json(validation.error)
+        return
+    }
+
+    const country = provider.countryCode
+    const { override } = validation
+    HolidaysService.setOverride(country, override)
+    AuditLog.record('holiday_override_set', country, getAdminUser(req), {
+        mode: override.mode,
+        holidays: override.holidays,
+        reason: override.reason,
+        expiresAt: override.expiresAt,
+    })
+
+    res.status(200).json({ country, override })
+})
+
+app.delete('/admin/holidays/:country/override', requireAdmin, (req: Request, res: Response): void => {
+    const provider = getAdminProvider(req, res)
+    if (!provider) {
+        return
+    }
+
+    const country = provider.countryCode
+    const override = HolidaysService.getOverride(country)
+    if (!override) {
+        const errorResponse: ErrorResponse = {
+            error: 'NotFound',
+            message: `No holiday override for country ${country}`,
+        }
+        res.status(404).json(errorResponse)
+        return
+    }
+
+    HolidaysService.removeOverride(country)
+    AuditLog.record('holiday_override_removed', country, getAdminUser(req), {
+        mode: override.mode,
+        holidays: override.holidays,
+    })
+
+    res.status(200).json({ country, override: null })
+})
+
+// Audit trail of admin changes, most recent first
+app.get('/admin/audit', requireAdmin, (req: Request, res: Response): void => {
+    const validation = ValidationService.validateAuditRequest(req.query)
+    if (!validation.isValid || validation.limit === undefined) {
+        res.status(400).json(validation.error)
+        return
+    }
+
+    res.status(200).json({ entries: AuditLog.list(validation.limit) })
+})
+
 // Holiday service status endpoint
 app.get('/holiday-status', async (req: Request, res: Response): Promise<void> => {
     try {
         const serviceStatus = HolidaysService.getServiceStatus()
-        let response: any = { ...serviceStatus }
+        let response: any = { ...serviceStatus, countries: getCountryStatuses(), calendars: getCalendarStatuses() }
 
         // Optionally test the service with a fresh call
         if (req.query.test === 'true') {
-            console.log('Testing holiday service connectivity...')
+            Logger.info('holiday_service_test')
             try {
                 const testResult = await HolidaysService.getColombianHolidays(HOLIDAYS_URL)
                 response.testResult = {
@@ -101,12 +969,35 @@ app.get('/holiday-status', async (req: Request, res: Response): Promise<void> =>
 
         res.status(200).json(response)
     } catch (error) {
-        console.error('Error checking holiday service status:', error)
+        Logger.error('internal_error', { error })
         const errorResponse = ValidationService.createInternalError('Error retrieving holiday service status')
         res.status(500).json(errorResponse)
     }
 })
 
+// Prometheus metrics; holiday service gauges are read at scrape time
+app.get('/metrics', (req: Request, res: Response): void => {
+    const circuitStates: Record<string, number> = { CLOSED: 0, HALF_OPEN: 1, OPEN: 2 }
+
+    for (const provider of listHolidayProviders()) {
+        const status = HolidaysService.getServiceStatus(provider.countryCode)
+        const labels = { country: provider.countryCode }
+        Metrics.setGauge('holiday_circuit_breaker_state', labels, circuitStates[status.circuitState] ?? null)
+        Metrics.setGauge('holiday_cache_age_seconds', labels, status.cacheAge === null ? null : status.cacheAge / 1000)
+    }
+
+    res.status(200).type('text/plain; version=0.0.4; charset=utf-8').send(Metrics.render())
+})
+
+// API contract, built from the same parameter schemas the validation uses
+app.get('/openapi.json', (req: Request, res: Response): void => {
+    res.status(200).json(OPENAPI_DOCUMENT)
+})
+
+app.get('/docs', (req: Request, res: Response): void => {
+    res.status(200).type('html').send(DOCS_PAGE)
+})
+
 // Health check endpoint
 app.get('/health', (req: Request, res: Response): void => {
     const holidayServiceStatus = HolidaysService.getServiceStatus()
@@ -125,6 +1016,8 @@ app.get('/health', (req: Request, res: Response): void => {
                 cacheAgeMs: holidayServiceStatus.cacheAge,
             },
         },
+        countries: getCountryStatuses(),
+        calendars: getCalendarStatuses(),
     }
 
     // Set overall health status based on critical services
@@ -146,8 +1039,18 @@ app.use((req: Request, res: Response): void => {
 })
 
 // Global error handler
-app.use((error: Error, req: Request, res: Response, next: NextFunction): void => {
-    console.error('Unhandled error:', error)
+app.use((error: Error & { type?: string }, req: Request, res: Response, next: NextFunction): void => {
+    // Request bodies that are not valid JSON are rejected by express.json() before reaching a route
+    if (error instanceof SyntaxError && error.type === 'entity.parse.failed') {
+        const errorResponse: ErrorResponse = {
+            error: ErrorCodes.INVALID_PARAMETERS,
+            message: 'Request body must be valid JSON',
+        }
+        res.status(400).json(errorResponse)
+        return
+    }
+
+    Logger.error('unhandled_error', { error })
     const errorResponse = ValidationService.createInternalError('An unexpected server error occurred')
     res.status(500).json(errorResponse)
 })
@@ -155,16 +1058,16 @@ app.use((error: Error, req: Request, res: Response, next: NextFunction): void =>
 // Start server only if not in test environment
 if (process.env.NODE_ENV !== 'test') {
     app.listen(PORT, (): void => {
-        console.log(`FechasHabilesAPI server running on port ${PORT}`)
-        console.log(`Business hours: 8:00 AM - 5:00 PM (Colombia time)`)
-        console.log(`Lunch break: 12:00 PM - 1:00 PM`)
-        console.log(`Timezone: America/Bogota`)
-        console.log(`Holiday service URL: ${HOLIDAYS_URL}`)
-        console.log(`Holiday service features: Circuit breaker, retry logic, fallback data`)
-        console.log(`Endpoints:`)
-        console.log(`   GET /calculate-business-time - Main API endpoint`)
-        console.log(`   GET /health - Health check with service status`)
-        console.log(`   GET /holiday-status - Detailed holiday service status`)
+        const { workingHours, workingDays, timezone } = DEFAULT_BUSINESS_RULES
+        Logger.info('server_started', {
+            port: Number(PORT),
+            workingSegments: formatDaySchedule(toDaySchedule(workingHours)),
+            workingDays,
+            timezone,
+            holidaysUrl: HOLIDAYS_URL,
+            countries: listHolidayProviders().map((provider) => provider.countryCode),
+            calendars: CalendarRegistry.list().map((calendar) => calendar.name),
+        })
     })
 }
 
@@ -0,0 +1,82 @@
+import { AsyncLocalStorage } from 'async_hooks'
+
+/**
+ * Structured logger writing one JSON object per line. Fields bound with runWithContext, such as the
+ * request ID, are added to every entry logged while handling that request, including holiday fetches
+ */
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error'
+export type LogFields = Record<string, unknown>
+
+const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error']
+
+export class Logger {
+    private static level: LogLevel = this.parseLevel(process.env.LOG_LEVEL)
+    private static context = new AsyncLocalStorage<LogFields>()
+
+    public static setLevel(level: string | undefined): void {
+        this.level = this.parseLevel(level)
+    }
+
+    /**
+     * Run a function with fields added to every entry it logs, across awaits
+     */
+    public static runWithContext<T>(fields: LogFields, fn: () => T): T {
+        return this.context.run({ ...this.context.getStore(), ...fields }, fn)
+    }
+
+    public static getContext(): LogFields {
+        return this.context.getStore() ?? {}
+    }
+
+    public static debug(event: string, fields: LogFields = {}): void {
+        this.log('debug', event, fields)
+    }
+
+    public static info(event: string, fields: LogFields = {}): void {
+        this.log('info', event, fields)
+    }
+
+    public static warn(event: string, fields: LogFields = {}): void {
+        this.log('warn', event, fields)
+    }
+
+    public static error(event: string, fields: LogFields = {}): void {
+        this.log('error', event, fields)
+    }
+
+    public static log(level: LogLevel, event: string, fields: LogFields = {}): void {
+        if (LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf(this.level)) {
+            return
+        }
+
+        const entry = {
+            timestamp: new Date().toISOString(),
+            level,
+            event,
+            ...this.getContext(),
+            ...Object.fromEntries(Object.entries(fields).map(([key, value]) => [key, this.serialize(value)])),
+        }
+        const line = JSON.stringify(entry)
+
+        if (level === 'error') {
+            console.error(line)
+        } else if (level === 'warn') {
+            console.warn(line)
+        } else {
+            console.log(line)
+        }
+    }
+
+    private static parseLevel(level: string | undefined): LogLevel {
+        return LOG_LEVELS.find((candidate) => candidate === level?.toLowerCase()) ?? 'info'
+    }
+
+    private static serialize(value: unknown): unknown {
+        // Errors have no enumerable properties and would log as {}
+        if (value instanceof Error) {
+            return { name: value.name, message: value.message, stack: value.stack }
+        }
+        return value
+    }
+}
@@ -0,0 +1,175 @@
+/**
+ * In-process metrics rendered in the Prometheus text exposition format (version 0.0.4)
+ */
+
+type MetricType = 'counter' | 'gauge' | 'histogram'
+
+interface MetricDefinition {
+    type: MetricType
+    help: string
+}
+
+export type MetricLabels = Record<string, string>
+
+interface Series {
+    labels: MetricLabels
+    value: number
+}
+
+interface HistogramSeries {
+    labels: MetricLabels
+    bucketCounts: number[] // Observations per bucket, not cumulative
+    sum: number
+    count: number
+}
+
+const METRICS = {
+    http_requests_total: {
+        type: 'counter',
+        help: 'HTTP requests by method, route and status code',
+    },
+    http_request_duration_seconds: {
+        type: 'histogram',
+        help: 'HTTP request latency by method, route and status code',
+    },
+    holiday_fetch_attempts_total: {
+        type: 'counter',
+        help: 'Requests made to holiday services, including retries',
+    },
+    holiday_fetch_retries_total: {
+        type: 'counter',
+        help: 'Holiday service requests that retried a failed attempt',
+    },
+    holiday_fetch_failures_total: {
+        type: 'counter',
+        help: 'Holiday service requests that failed',
+    },
+    holiday_circuit_breaker_state: {
+        type: 'gauge',
+        help: 'Holiday service circuit breaker state (0 = closed, 1 = half-open, 2 = open)',
+    },
+    holiday_cache_age_seconds: {
+        type: 'gauge',
+        help: 'Age of the cached holiday data',
+    },
+    holiday_data_responses_total: {
+        type: 'counter',
+        help: 'Responses computed with holiday data, by data source and holiday service status',
+    },
+} satisfies Record<string, MetricDefinition>
+
+export type MetricName = keyof typeof METRICS
+
+// Upper bounds in seconds, from fast calculations to requests waiting on holiday service retries
+const DURATION_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10]
+
+export class Metrics {
+    private static series: Map<MetricName, Map<string, Series>> = new Map()
+    private static histograms: Map<MetricName, Map<string, HistogramSeries>> = new Map()
+
+    public static increment(name: MetricName, labels: MetricLabels = {}, value = 1): void {
+        const series = this.getSeries(name, labels)
+        series.value += value
+    }
+
+    /**
+     * Set a gauge, or remove its series when the value is unknown
+     */
+    public static setGauge(name: MetricName, labels: MetricLabels, value: number | null): void {
+        if (value === null) {
+            this.series.get(name)?.delete(this.labelKey(labels))
+            return
+        }
+
+        this.getSeries(name, labels).value = value
+    }
+
+    public static observe(name: MetricName, labels: MetricLabels, value: number): void {
+        let family = this.histograms.get(name)
+        if (!family) {
+            family = new Map()
+            this.histograms.set(name, family)
+        }
+
+        const key = this.labelKey(labels)
+        let histogram = family.get(key)
+        if (!histogram) {
+            histogram = { labels, bucketCounts: DURATION_BUCKETS.map(() => 0), sum: 0, count: 0 }
+            family.set(key, histogram)
+        }
+
+        const bucket = DURATION_BUCKETS.findIndex((bound) => value <= bound)
+        if (bucket !== -1) {
+            histogram.bucketCounts[bucket] = (histogram.bucketCounts[bucket] ?? 0) + 1
+        }
+        histogram.sum += value
+        histogram.count++
+    }
+
+    /**
+     * Drop every recorded value
+     */
+    public static reset(): void {
+        this.series = new Map()
+        this.histograms = new Map()
+    }
+
+    public static render(): string {
+        const lines: string[] = []
+
+        for (const [name, definition] of Object.entries(METRICS) as [MetricName, MetricDefinition][]) {
+            lines.push(`# HELP ${name} ${definition.help}`, `# TYPE ${name} ${definition.type}`)
+
+            if (definition.type === 'histogram') {
+                for (const histogram of this.histograms.get(name)?.values() ?? []) {
+                    let cumulative = 0
+                    DURATION_BUCKETS.forEach((bound, index) => {
+                        cumulative += histogram.bucketCounts[index] ?? 0
+                        lines.push(
+                            `${name}_bucket${this.formatLabels({ ...histogram.labels, le: String(bound) })} ${cumulative}`
+                        )
+                    })
+                    lines.push(
+                        `${name}_bucket${this.formatLabels({ ...histogram.labels, le: '+Inf' })} ${histogram.count}`,
+                        `${name}_sum${this.formatLabels(histogram.labels)} ${histogram.sum}`,
+                        `${name}_count${this.formatLabels(histogram.labels)} ${histogram.count}`
+                    )
+                }
+                continue
+            }
+
+            for (const series of this.series.get(name)?.values() ?? []) {
+                lines.push(`${name}${this.formatLabels(series.labels)} ${series.value}`)
+            }
+        }
+
+        return `${lines.join('\n')}\n`
+    }
+
+    private static getSeries(name: MetricName, labels: MetricLabels): Series {
+        let family = this.series.get(name)
+        if (!family) {
+            family = new Map()
+            this.series.set(name, family)
+        }
+
+        const key = this.labelKey(labels)
+        let series = family.get(key)
+        if (!series) {
+            series = { labels, value: 0 }
+            family.set(key, series)
+        }
+        return series
+    }
+
+    private static labelKey(labels: MetricLabels): string {
+        return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)))
+    }
+
+    private static formatLabels(labels: MetricLabels): string {
+        const pairs = Object.entries(labels).map(
+            ([name, value]) => `${name}="${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`
+        )
+        return pairs.length > 0 ? `{${pairs.join(',')}}` : ''
+    }
+}
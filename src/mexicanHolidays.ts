@@ -0,0 +1,74 @@
+import { HolidayDate, HolidayList } from './types'
+import {
+    describeHoliday,
+    generateForYears,
+    nthWeekdayOfMonth,
+    sortHolidays,
+    toHolidayList,
+    utcDate,
+} from './holidayRules'
+
+/**
+ * Mexican mandatory rest days (Ley Federal del Trabajo, article 74)
+ */
+
+interface HolidayRule {
+    name: string
+    month: number // 1-12
+    day: number
+}
+
+interface MondayRule {
+    name: string
+    month: number // 1-12
+    day: number // Commemorated date
+    nth: number // Observed on the nth Monday of the month
+}
+
+const FIXED_HOLIDAYS: HolidayRule[] = [
+    { name: "New Year's Day", month: 1, day: 1 },
+    { name: 'Labor Day', month: 5, day: 1 },
+    { name: 'Independence Day', month: 9, day: 16 },
+    { name: 'Christmas Day', month: 12, day: 25 },
+]
+
+const MONDAY_HOLIDAYS: MondayRule[] = [
+    { name: 'Constitution Day', month: 2, day: 5, nth: 1 },
+    { name: "Benito Juárez's Birthday", month: 3, day: 21, nth: 3 },
+    { name: 'Revolution Day', month: 11, day: 20, nth: 3 },
+]
+
+// October 1 is a rest day every six years, when the federal executive takes office
+const INAUGURATION_CYCLE_BASE_YEAR = 2024
+
+export function getMexicanHolidayDetailsForYear(year: number): HolidayDate[] {
+    const holidays = [
+        ...FIXED_HOLIDAYS.map((rule) => describeHoliday(rule.name, 'FIXED', utcDate(year, rule.month, rule.day))),
+        ...MONDAY_HOLIDAYS.map((rule) =>
+            describeHoliday(
+                rule.name,
+                'MOVABLE',
+                utcDate(year, rule.month, rule.day),
+                nthWeekdayOfMonth(year, rule.month, 1, rule.nth)
+            )
+        ),
+    ]
+
+    if (year >= INAUGURATION_CYCLE_BASE_YEAR && (year - INAUGURATION_CYCLE_BASE_YEAR) % 6 === 0) {
+        holidays.push(describeHoliday('Transmission of Federal Executive Power', 'FIXED', utcDate(year, 10, 1)))
+    }
+
+    return sortHolidays(holidays)
+}
+
+export function getMexicanHolidaysForYear(year: number): HolidayList {
+    return toHolidayList(getMexicanHolidayDetailsForYear(year))
+}
+
+export function generateMexicanHolidays(startYear: number, endYear: number): HolidayList {
+    return generateForYears(startYear, endYear, getMexicanHolidaysForYear)
+}
+
+export function generateMexicanHolidayDetails(startYear: number, endYear: number): HolidayDate[] {
+    return generateForYears(startYear, endYear, getMexicanHolidayDetailsForYear)
+}
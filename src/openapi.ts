@@ -0,0 +1,855 @@
+import { ErrorCodes } from './types'
+import {
+    AUDIT_PARAMETERS,
+    CALCULATION_PARAMETERS,
+    CALENDAR_EXPORT_PARAMETERS,
+    CALENDAR_PARAMETERS,
+    DURATION_PARAMETERS,
+    EXPLAIN_PARAMETERS,
+    HOLIDAY_RANGE_PARAMETERS,
+    ISO_DATE_TIME_PATTERN,
+    JsonSchema,
+    ParameterSpec,
+    SCHEDULE_PARAMETERS,
+    STATUS_PARAMETERS,
+} from './apiSchema'
+
+/**
+ * OpenAPI 3 description of the API, served at /openapi.json and rendered at /docs. Query parameters come
+ * from apiSchema, the definitions ValidationService enforces
+ */
+
+interface OperationSpec {
+    summary: string
+    description?: string
+    tags: string[]
+    parameters?: (ParameterSpec | { $ref: string })[]
+    requestBody?: Record<string, unknown>
+    responses: Record<string, Record<string, unknown>>
+    security?: Record<string, string[]>[]
+}
+
+export interface OpenApiDocument {
+    openapi: string
+    info: { title: string; version: string; description: string }
+    tags: { name: string; description: string }[]
+    paths: Record<string, Partial<Record<'get' | 'post' | 'put' | 'delete', OperationSpec>>>
+    components: {
+        schemas: Record<string, JsonSchema>
+        responses: Record<string, Record<string, unknown>>
+        headers: Record<string, Record<string, unknown>>
+        parameters: Record<string, ParameterSpec>
+        securitySchemes: Record<string, Record<string, unknown>>
+    }
+}
+
+const ref = (name: string): JsonSchema => ({ $ref: `#/components/schemas/${name}` })
+
+const DATE_TIME: JsonSchema = { type: 'string', format: 'date-time', example: '2025-08-01T14:00:00Z' }
+const CALENDAR_DATE: JsonSchema = { type: 'string', format: 'date', example: '2025-12-24' }
+const BUDGET_PROPERTIES: Record<string, JsonSchema> = {
+    days: { type: 'integer', minimum: 0 },
+    hours: { type: 'number', minimum: 0 },
+    minutes: { type: 'integer', minimum: 0 },
+    duration: { type: 'string', example: 'P1DT2H' },
+}
+
+const HOLIDAY_HEADERS = {
+    'X-Holiday-Service-Status': { $ref: '#/components/headers/X-Holiday-Service-Status' },
+    'X-Holiday-Data-Source': { $ref: '#/components/headers/X-Holiday-Data-Source' },
+    'X-Holiday-Last-Updated': { $ref: '#/components/headers/X-Holiday-Last-Updated' },
+}
+
+const jsonResponse = (description: string, schema: JsonSchema, withHolidayHeaders = true): Record<string, unknown> => ({
+    description,
+    ...(withHolidayHeaders && { headers: HOLIDAY_HEADERS }),
+    content: { 'application/json': { schema } },
+})
+
+const errorResponse = (name: string): Record<string, unknown> => ({ $ref: `#/components/responses/${name}` })
+
+const ADMIN_SECURITY = [{ adminToken: [] }]
+const CALENDAR_PARAMETER = { $ref: '#/components/parameters/calendarPath' }
+const DATE_PARAMETER = { $ref: '#/components/parameters/datePath' }
+const COUNTRY_PARAMETER = { $ref: '#/components/parameters/countryPath' }
+const ADMIN_USER_PARAMETER = { $ref: '#/components/parameters/adminUser' }
+
+const holidayAdminOperation = (summary: string, description: string): OperationSpec => ({
+    summary,
+    description,
+    tags: ['Admin'],
+    security: ADMIN_SECURITY,
+    parameters: [COUNTRY_PARAMETER, ADMIN_USER_PARAMETER],
+    responses: {
+        '200': jsonResponse('Holiday service status after the action', ref('HolidayAdminResponse'), false),
+        '401': errorResponse('Unauthorized'),
+        '404': errorResponse('NotFound'),
+    },
+})
+
+const OVERRIDE_KINDS = [
+    { path: 'closures', label: 'closure', description: 'A date the calendar is closed, e.g. a company holiday' },
+    {
+        path: 'working-dates',
+        label: 'working date',
+        description: 'A date worked regardless of weekday or holidays, e.g. a Saturday compensating a bridge day',
+    },
+] as const
+
+export function buildOpenApiDocument(): OpenApiDocument {
+    const calendarQuery = [...CALENDAR_PARAMETERS, ...SCHEDULE_PARAMETERS]
+
+    const paths: OpenApiDocument['paths'] = {
+        '/calculate-business-time': {
+            get: {
+                summary: 'Add or subtract business time',
+                description:
+                    'Adds business days, then business hours, to a start date, skipping weekends, holidays and breaks. Provide at least one of days, hours, minutes or duration.',
+                tags: ['Calculations'],
+                parameters: [...CALCULATION_PARAMETERS, ...EXPLAIN_PARAMETERS, ...calendarQuery],
+                responses: {
+                    '200': jsonResponse('Resulting date in UTC', ref('BusinessTimeResponse')),
+                    '400': errorResponse('BadRequest'),
+                    '500': errorResponse('InternalError'),
+                },
+            },
+        },
+        '/calculate-business-time/batch': {
+            post: {
+                summary: 'Run many calculations with one holiday lookup',
+                description:
+                    'Items take the same fields as the calculation query string. An invalid item gets an error without failing the batch.',
+                tags: ['Calculations'],
+                parameters: calendarQuery,
+                requestBody: {
+                    required: true,
+                    content: {
+                        'application/json': { schema: { type: 'array', items: ref('BatchItem') } },
+                    },
+                },
+                responses: {
+                    '200': jsonResponse('One result per item, in order', ref('BatchResponse')),
+                    '400': errorResponse('BadRequest'),
+                    '413': {
+                        description: 'More items than BATCH_MAX_ITEMS (BatchTooLarge)',
+                        content: { 'application/json': { schema: ref('ErrorResponse') } },
+                    },
+                    '500': errorResponse('InternalError'),
+                },
+            },
+        },
+        '/business-time-between': {
+            get: {
+                summary: 'Business time elapsed between two instants',
+                tags: ['Calculations'],
+                parameters: [...DURATION_PARAMETERS, ...calendarQuery],
+                responses: {
+                    '200': jsonResponse('Elapsed business time', ref('BusinessDurationResponse')),
+                    '400': errorResponse('BadRequest'),
+                    '500': errorResponse('InternalError'),
+                },
+            },
+        },
+        '/sla/deadline': {
+            post: {
+                summary: 'SLA deadline with pause intervals',
+                description: 'Due date of a business-time budget from start, pushed back by pauses, evaluated at now.',
+                tags: ['Calculations'],
+                parameters: calendarQuery,
+                requestBody: {
+                    required: true,
+                    content: { 'application/json': { schema: ref('SlaDeadlineRequest') } },
+                },
+                responses: {
+                    '200': jsonResponse('Deadline and remaining time', ref('SlaDeadlineResponse')),
+                    '400': errorResponse('BadRequest'),
+                    '500': errorResponse('InternalError'),
+                },
+            },
+        },
+        '/business-status': {
+            get: {
+                summary: 'Whether an instant is business time',
+                tags: ['Calculations'],
+                parameters: [...STATUS_PARAMETERS, ...calendarQuery],
+                responses: {
+                    '200': jsonResponse('Status and surrounding working windows', ref('BusinessStatusResponse')),
+                    '400': errorResponse('BadRequest'),
+                    '500': errorResponse('InternalError'),
+                },
+            },
+        },
+        '/holidays': {
+            get: {
+                summary: 'List holidays and closures',
+                tags: ['Holidays'],
+                parameters: [...HOLIDAY_RANGE_PARAMETERS, ...CALENDAR_PARAMETERS],
+                responses: {
+                    '200': jsonResponse('Holidays in the range', ref('HolidayListResponse'), false),
+                    '400': errorResponse('BadRequest'),
+                    '500': errorResponse('InternalError'),
+                },
+            },
+        },
+        '/calendar.ics': {
+            get: {
+                summary: 'iCalendar feed of holidays, closures and working hours',
+                tags: ['Holidays'],
+                parameters: [...CALENDAR_EXPORT_PARAMETERS, ...calendarQuery],
+                responses: {
+                    '200': {
+                        description: 'RFC 5545 calendar',
+                        headers: HOLIDAY_HEADERS,
+                        content: { 'text/calendar': { schema: { type: 'string' } } },
+                    },
+                    '400': errorResponse('BadRequest'),
+                    '500': errorResponse('InternalError'),
+                },
+            },
+        },
+        '/admin/calendars/{calendar}/overrides': {
+            get: {
+                summary: 'Runtime closures and working dates of a calendar',
+                tags: ['Admin'],
+                security: ADMIN_SECURITY,
+                parameters: [CALENDAR_PARAMETER],
+                responses: {
+                    '200': jsonResponse('Calendar overrides', ref('CalendarOverrides'), false),
+                    '401': errorResponse('Unauthorized'),
+                    '404': errorResponse('NotFound'),
+                },
+            },
+        },
+        '/admin/holidays/{country}/refresh': {
+            post: {
+                ...holidayAdminOperation(
+                    'Fetch holidays now',
+                    'Bypasses the 24-hour cache. An open circuit breaker still blocks the fetch; reset it first to retry a failing service. Reloads every configured holiday source of the country.'
+                ),
+                responses: {
+                    '200': jsonResponse('Fetch result and service status', ref('HolidayRefreshResponse'), false),
+                    '401': errorResponse('Unauthorized'),
+                    '404': errorResponse('NotFound'),
+                    '500': errorResponse('InternalError'),
+                },
+            },
+        },
+        '/admin/holidays/{country}/cache': {
+            delete: holidayAdminOperation(
+                'Clear cached holidays',
+                'The next request fetches the holidays again. The snapshot file is kept.'
+            ),
+        },
+        '/admin/holidays/{country}/circuit-breaker/reset': {
+            post: holidayAdminOperation(
+                'Close the circuit breaker',
+                'The next request calls the holiday service again instead of waiting for the breaker timeout.'
+            ),
+        },
+        '/admin/holidays/{country}/override': {
+            put: {
+                summary: 'Apply a temporary holiday override',
+                description:
+                    "Applied on top of the country's holidays from every source, including computed calendars, until it expires, is removed or the server restarts. Replaces any previous override.",
+                tags: ['Admin'],
+                security: ADMIN_SECURITY,
+                parameters: [COUNTRY_PARAMETER, ADMIN_USER_PARAMETER],
+                requestBody: {
+                    required: true,
+                    content: { 'application/json': { schema: ref('HolidayOverrideRequest') } },
+                },
+                responses: {
+                    '200': jsonResponse('Active override', ref('HolidayOverrideResponse'), false),
+                    '400': errorResponse('BadRequest'),
+                    '401': errorResponse('Unauthorized'),
+                    '404': errorResponse('NotFound'),
+                },
+            },
+            delete: {
+                summary: 'Remove the holiday override',
+                tags: ['Admin'],
+                security: ADMIN_SECURITY,
+                parameters: [COUNTRY_PARAMETER, ADMIN_USER_PARAMETER],
+                responses: {
+                    '200': jsonResponse('Override removed', ref('HolidayOverrideResponse'), false),
+                    '401': errorResponse('Unauthorized'),
+                    '404': errorResponse('NotFound'),
+                },
+            },
+        },
+        '/admin/audit': {
+            get: {
+                summary: 'Audit trail of admin changes',
+                tags: ['Admin'],
+                security: ADMIN_SECURITY,
+                parameters: AUDIT_PARAMETERS,
+                responses: {
+                    '200': jsonResponse(
+                        'Entries, most recent first',
+                        { type: 'object', properties: { entries: { type: 'array', items: ref('AuditEntry') } } },
+                        false
+                    ),
+                    '400': errorResponse('BadRequest'),
+                    '401': errorResponse('Unauthorized'),
+                },
+            },
+        },
+        '/holiday-status': {
+            get: {
+                summary: 'Holiday service, country and calendar status',
+                tags: ['Operations'],
+                parameters: [
+                    {
+                        name: 'test',
+                        in: 'query',
+                        description: 'true also makes a fresh call to the default holiday service',
+                        schema: { type: 'string', enum: ['true', 'false'] },
+                    },
+                ],
+                responses: {
+                    '200': jsonResponse('Service status', { type: 'object', additionalProperties: true }, false),
+                    '500': errorResponse('InternalError'),
+                },
+            },
+        },
+        '/metrics': {
+            get: {
+                summary: 'Prometheus metrics',
+                tags: ['Operations'],
+                responses: {
+                    '200': {
+                        description: 'Prometheus text exposition format 0.0.4',
+                        content: { 'text/plain': { schema: { type: 'string' } } },
+                    },
+                },
+            },
+        },
+        '/health': {
+            get: {
+                summary: 'Health check',
+                tags: ['Operations'],
+                responses: {
+                    '200': jsonResponse('Healthy or degraded', { type: 'object', additionalProperties: true }, false),
+                    '503': jsonResponse(
+                        'The holiday service circuit breaker is open',
+                        { type: 'object', additionalProperties: true },
+                        false
+                    ),
+                },
+            },
+        },
+        '/openapi.json': {
+            get: {
+                summary: 'This OpenAPI document',
+                tags: ['Operations'],
+                responses: {
+                    '200': jsonResponse('OpenAPI 3 document', { type: 'object', additionalProperties: true }, false),
+                },
+            },
+        },
+        '/docs': {
+            get: {
+                summary: 'Browsable API documentation',
+                tags: ['Operations'],
+                responses: {
+                    '200': { description: 'HTML page', content: { 'text/html': { schema: { type: 'string' } } } },
+                },
+            },
+        },
+    }
+
+    for (const { path, label, description } of OVERRIDE_KINDS) {
+        paths[`/admin/calendars/{calendar}/${path}/{date}`] = {
+            put: {
+                summary: `Add or rename a ${label}`,
+                description,
+                tags: ['Admin'],
+                security: ADMIN_SECURITY,
+                parameters: [CALENDAR_PARAMETER, DATE_PARAMETER, ADMIN_USER_PARAMETER],
+                requestBody: {
+                    required: false,
+                    content: {
+                        'application/json': {
+                            schema: { type: 'object', properties: { name: { type: 'string', example: 'Inventory' } } },
+                        },
+                    },
+                },
+                responses: {
+                    '200': jsonResponse('Calendar overrides after the change', ref('CalendarOverrides'), false),
+                    '400': errorResponse('BadRequest'),
+                    '401': errorResponse('Unauthorized'),
+                    '404': errorResponse('NotFound'),
+                    '500': errorResponse('InternalError'),
+                },
+            },
+            delete: {
+                summary: `Remove a ${label}`,
+                tags: ['Admin'],
+                security: ADMIN_SECURITY,
+                parameters: [CALENDAR_PARAMETER, DATE_PARAMETER, ADMIN_USER_PARAMETER],
+                responses: {
+                    '200': jsonResponse('Calendar overrides after the change', ref('CalendarOverrides'), false),
+                    '401': errorResponse('Unauthorized'),
+                    '404': errorResponse('NotFound'),
+                    '500': errorResponse('InternalError'),
+                },
+            },
+        }
+    }
+
+    return {
+        openapi: '3.0.3',
+        info: {
+            title: 'Fechas Hábiles API',
+            version: '1.0.0',
+            description:
+                'Business days and hours calculations with per-country holidays and named calendar profiles. Every response carries an X-Request-Id header.',
+        },
+        tags: [
+            { name: 'Calculations', description: 'Business time arithmetic' },
+            { name: 'Holidays', description: 'Holiday listings and calendar feeds' },
+            { name: 'Admin', description: 'Runtime calendar overrides; require the ADMIN_TOKEN bearer token' },
+            { name: 'Operations', description: 'Status, health, metrics and documentation' },
+        ],
+        paths,
+        components: {
+            schemas: SCHEMAS,
+            responses: {
+                BadRequest: {
+                    description: 'Invalid parameters, unknown calendar or country, or a start outside business time',
+                    content: { 'application/json': { schema: ref('ErrorResponse') } },
+                },
+                Unauthorized: {
+                    description: 'Missing or invalid admin token, or admin endpoints disabled',
+                    content: { 'application/json': { schema: ref('ErrorResponse') } },
+                },
+                NotFound: {
+                    description: 'Unknown calendar, country or override',
+                    content: { 'application/json': { schema: ref('ErrorResponse') } },
+                },
+                InternalError: {
+                    description: 'Unexpected server error',
+                    content: { 'application/json': { schema: ref('ErrorResponse') } },
+                },
+            },
+            headers: {
+                'X-Holiday-Service-Status': {
+                    description: 'Status of the holiday data used',
+                    schema: { type: 'string', enum: ['HEALTHY', 'DEGRADED', 'FAILED'] },
+                },
+                'X-Holiday-Data-Source': {
+                    description: 'Where the holiday data came from',
+                    schema: {
+                        type: 'string',
+                        enum: ['CACHE', 'SNAPSHOT', 'API', 'FALLBACK', 'COMPUTED', 'SOURCES'],
+                    },
+                },
+                'X-Holiday-Last-Updated': {
+                    description: 'When the holiday data was fetched, or never',
+                    schema: { type: 'string' },
+                },
+                'X-Request-Id': {
+                    description: 'Request ID, echoed from the request when valid or generated',
+                    schema: { type: 'string' },
+                },
+            },
+            parameters: {
+                calendarPath: {
+                    name: 'calendar',
+                    in: 'path',
+                    required: true,
+                    description: 'Calendar profile name',
+                    schema: { type: 'string' },
+                },
+                countryPath: {
+                    name: 'country',
+                    in: 'path',
+                    required: true,
+                    description: 'Country code (ISO 3166-1 alpha-2)',
+                    schema: { type: 'string', example: 'CO' },
+                },
+                adminUser: {
+                    name: 'X-Admin-User',
+                    in: 'header',
+                    description: 'Who is making the change, recorded in the audit trail',
+                    schema: { type: 'string' },
+                },
+                datePath: {
+                    name: 'date',
+                    in: 'path',
+                    required: true,
+                    description: 'Calendar date',
+                    schema: CALENDAR_DATE,
+                },
+            },
+            securitySchemes: {
+                adminToken: { type: 'http', scheme: 'bearer', description: 'The ADMIN_TOKEN value' },
+            },
+        },
+    }
+}
+
+const SCHEMAS: Record<string, JsonSchema> = {
+    ErrorResponse: {
+        type: 'object',
+        required: ['error', 'message'],
+        properties: {
+            error: { type: 'string', enum: [...Object.values(ErrorCodes), 'NotFound'] },
+            message: { type: 'string' },
+        },
+    },
+    StartAdjustment: {
+        type: 'object',
+        description: 'Start date moved into business time before calculating',
+        required: ['start', 'reason'],
+        properties: { start: DATE_TIME, reason: { type: 'string' } },
+    },
+    BusinessTimeResponse: {
+        type: 'object',
+        required: ['date'],
+        properties: {
+            date: DATE_TIME,
+            adjustment: ref('StartAdjustment'),
+            explanation: { ...ref('CalculationExplanation'), description: 'Only with explain=true' },
+        },
+    },
+    CalculationExplanation: {
+        type: 'object',
+        required: [
+            'start',
+            'adjustedStart',
+            'adjustmentReason',
+            'direction',
+            'totalMinutes',
+            'days',
+            'truncated',
+            'holidayData',
+        ],
+        properties: {
+            start: { ...DATE_TIME, description: 'Requested start, or the time of the request when none was given' },
+            adjustedStart: { ...DATE_TIME, description: 'Start after moving into business time' },
+            adjustmentReason: { type: 'string', nullable: true },
+            direction: { type: 'string', enum: ['forward', 'backward'] },
+            totalMinutes: { type: 'number', description: 'Business minutes between the adjusted start and the result' },
+            days: {
+                type: 'array',
+                description: 'Days crossed in calculation order, backwards from the start for direction=backward',
+                items: ref('ExplainedDay'),
+            },
+            truncated: { type: 'boolean', description: 'More days were crossed than are listed (over a year)' },
+            holidayData: {
+                type: 'object',
+                required: ['calendar', 'country', 'source', 'status', 'lastUpdated', 'version'],
+                properties: {
+                    calendar: { type: 'string' },
+                    country: { type: 'string' },
+                    source: { type: 'string' },
+                    status: { type: 'string', enum: ['HEALTHY', 'DEGRADED', 'FAILED'] },
+                    lastUpdated: { ...DATE_TIME, nullable: true },
+                    version: { type: 'string', description: 'Fingerprint of the holiday dates used' },
+                },
+            },
+        },
+    },
+    ExplainedDay: {
+        type: 'object',
+        required: ['date', 'type', 'minutes', 'worked', 'breaks'],
+        properties: {
+            date: { ...CALENDAR_DATE, description: "Calendar day in the schedule's time zone" },
+            type: { type: 'string', enum: ['BUSINESS_DAY', 'WEEKEND', 'HOLIDAY'] },
+            holidays: { type: 'array', items: { type: 'string' }, description: 'Holiday names when type is HOLIDAY' },
+            minutes: { type: 'number', description: 'Business minutes used on the day' },
+            worked: { type: 'array', items: ref('WorkingWindow') },
+            breaks: {
+                type: 'array',
+                items: ref('WorkingWindow'),
+                description: 'Breaks crossed between worked segments',
+            },
+        },
+    },
+    BatchItem: {
+        type: 'object',
+        properties: {
+            id: { oneOf: [{ type: 'string' }, { type: 'number' }], description: 'Echoed in the result' },
+            ...BUDGET_PROPERTIES,
+            date: { ...DATE_TIME, pattern: ISO_DATE_TIME_PATTERN },
+            direction: { type: 'string', enum: ['forward', 'backward'] },
+            approximation: { type: 'string', enum: ['backward', 'forward', 'strict'] },
+        },
+    },
+    BatchItemResult: {
+        type: 'object',
+        properties: {
+            id: { oneOf: [{ type: 'string' }, { type: 'number' }] },
+            date: DATE_TIME,
+            adjustment: ref('StartAdjustment'),
+            error: ref('ErrorResponse'),
+        },
+    },
+    BatchResponse: {
+        type: 'object',
+        required: ['results'],
+        properties: { results: { type: 'array', items: ref('BatchItemResult') } },
+    },
+    BusinessDurationResponse: {
+        type: 'object',
+        required: ['start', 'end', 'totalMinutes', 'days', 'hours', 'minutes'],
+        properties: {
+            start: DATE_TIME,
+            end: DATE_TIME,
+            totalMinutes: { type: 'integer' },
+            days: { type: 'integer', description: 'Whole business days of the calendar working day length' },
+            hours: { type: 'integer' },
+            minutes: { type: 'integer' },
+        },
+    },
+    PauseInterval: {
+        type: 'object',
+        required: ['start'],
+        properties: {
+            start: { ...DATE_TIME, pattern: ISO_DATE_TIME_PATTERN },
+            end: { ...DATE_TIME, pattern: ISO_DATE_TIME_PATTERN, nullable: true, description: 'Omit while paused' },
+        },
+    },
+    SlaDeadlineRequest: {
+        type: 'object',
+        required: ['start'],
+        properties: {
+            start: { ...DATE_TIME, pattern: ISO_DATE_TIME_PATTERN },
+            now: { ...DATE_TIME, pattern: ISO_DATE_TIME_PATTERN, description: 'Evaluation instant; defaults to now' },
+            ...BUDGET_PROPERTIES,
+            pauses: { type: 'array', items: ref('PauseInterval') },
+        },
+    },
+    SlaDeadlineResponse: {
+        type: 'object',
+        required: ['start', 'now', 'dueDate', 'pausedMinutes', 'remainingMinutes', 'breached', 'paused'],
+        properties: {
+            start: DATE_TIME,
+            now: DATE_TIME,
+            dueDate: DATE_TIME,
+            pausedMinutes: { type: 'integer' },
+            remainingMinutes: { type: 'integer', description: 'Negative once breached' },
+            breached: { type: 'boolean' },
+            paused: { type: 'boolean' },
+        },
+    },
+    WorkingWindow: {
+        type: 'object',
+        required: ['start', 'end'],
+        properties: { start: DATE_TIME, end: DATE_TIME },
+    },
+    BusinessStatusResponse: {
+        type: 'object',
+        required: ['date', 'isBusinessTime', 'reason', 'currentSegment', 'nextOpen', 'nextClose'],
+        properties: {
+            date: DATE_TIME,
+            isBusinessTime: { type: 'boolean' },
+            reason: {
+                type: 'string',
+                enum: ['WEEKEND', 'HOLIDAY', 'BEFORE_HOURS', 'LUNCH', 'AFTER_HOURS'],
+                nullable: true,
+            },
+            holiday: { type: 'string', description: 'Holiday names when reason is HOLIDAY' },
+            currentSegment: { ...ref('WorkingWindow'), nullable: true },
+            nextOpen: { ...DATE_TIME, nullable: true },
+            nextClose: { ...DATE_TIME, nullable: true },
+        },
+    },
+    HolidayDate: {
+        type: 'object',
+        required: ['date', 'originalDate', 'name', 'category'],
+        properties: {
+            date: { ...CALENDAR_DATE, description: 'Observed date' },
+            originalDate: { ...CALENDAR_DATE, description: 'Date before any move to a nearby weekday' },
+            name: { type: 'string' },
+            category: { type: 'string', enum: ['FIXED', 'MOVABLE', 'EASTER', 'CLOSURE', 'EXTERNAL'] },
+        },
+    },
+    HolidayListResponse: {
+        type: 'object',
+        required: ['country', 'calendar', 'from', 'to', 'source', 'status', 'lastUpdated', 'holidays'],
+        properties: {
+            country: { type: 'string' },
+            calendar: { type: 'string' },
+            from: CALENDAR_DATE,
+            to: CALENDAR_DATE,
+            source: { type: 'string' },
+            status: { type: 'string', enum: ['HEALTHY', 'DEGRADED', 'FAILED'] },
+            lastUpdated: { ...DATE_TIME, nullable: true },
+            holidays: { type: 'array', items: ref('HolidayDate') },
+        },
+    },
+    HolidayOverrideRequest: {
+        type: 'object',
+        required: ['holidays'],
+        properties: {
+            holidays: { type: 'array', items: CALENDAR_DATE },
+            mode: {
+                type: 'string',
+                enum: ['merge', 'override', 'remove'],
+                default: 'merge',
+                description: 'merge adds the dates, override replaces every year it covers, remove drops the dates',
+            },
+            reason: { type: 'string', example: 'Decreto 0123 de 2026' },
+            expiresAt: { ...DATE_TIME, pattern: ISO_DATE_TIME_PATTERN, description: 'Omit to keep it until removed' },
+        },
+    },
+    HolidayOverride: {
+        type: 'object',
+        required: ['mode', 'holidays', 'reason', 'createdAt', 'expiresAt'],
+        properties: {
+            mode: { type: 'string', enum: ['merge', 'override', 'remove'] },
+            holidays: { type: 'array', items: CALENDAR_DATE },
+            reason: { type: 'string', nullable: true },
+            createdAt: DATE_TIME,
+            expiresAt: { ...DATE_TIME, nullable: true },
+        },
+    },
+    HolidayOverrideResponse: {
+        type: 'object',
+        required: ['country', 'override'],
+        properties: { country: { type: 'string' }, override: { ...ref('HolidayOverride'), nullable: true } },
+    },
+    HolidayAdminResponse: {
+        type: 'object',
+        required: ['country', 'service'],
+        properties: {
+            country: { type: 'string' },
+            service: { type: 'object', additionalProperties: true, description: 'As in /holiday-status' },
+        },
+    },
+    HolidayRefreshResponse: {
+        type: 'object',
+        required: ['country', 'source', 'status', 'holidayCount', 'lastUpdated', 'service'],
+        properties: {
+            country: { type: 'string' },
+            source: { type: 'string', enum: ['CACHE', 'SNAPSHOT', 'API', 'FALLBACK', 'COMPUTED', 'SOURCES'] },
+            status: { type: 'string', enum: ['HEALTHY', 'DEGRADED', 'FAILED'] },
+            holidayCount: { type: 'integer' },
+            lastUpdated: { ...DATE_TIME, nullable: true },
+            service: { type: 'object', additionalProperties: true },
+        },
+    },
+    AuditEntry: {
+        type: 'object',
+        required: ['timestamp', 'action', 'target', 'actor', 'requestId', 'details'],
+        properties: {
+            timestamp: DATE_TIME,
+            action: {
+                type: 'string',
+                enum: [
+                    'holidays_refreshed',
+                    'holiday_cache_cleared',
+                    'circuit_breaker_reset',
+                    'holiday_override_set',
+                    'holiday_override_removed',
+                    'calendar_override_set',
+                    'calendar_override_removed',
+                ],
+            },
+            target: { type: 'string', description: 'Country or calendar' },
+            actor: { type: 'string', nullable: true, description: 'X-Admin-User header' },
+            requestId: { type: 'string', nullable: true },
+            details: { type: 'object', additionalProperties: true },
+        },
+    },
+    CalendarEntry: {
+        type: 'object',
+        required: ['date', 'name'],
+        properties: { date: CALENDAR_DATE, name: { type: 'string' } },
+    },
+    CalendarOverrides: {
+        type: 'object',
+        required: ['calendar', 'closures', 'workingDates'],
+        properties: {
+            calendar: { type: 'string' },
+            closures: { type: 'array', items: ref('CalendarEntry') },
+            workingDates: { type: 'array', items: ref('CalendarEntry') },
+        },
+    },
+}
+
+/**
+ * Self-contained HTML rendering of the document, without external scripts or styles, so it also works offline
+ */
+export function renderDocsPage(document: OpenApiDocument): string {
+    const sections = document.tags.map((tag) => {
+        const operations = Object.entries(document.paths).flatMap(([path, methods]) =>
+            Object.entries(methods)
+                .filter(([, operation]) => operation.tags.includes(tag.name))
+                .map(([method, operation]) => renderOperation(document, method, path, operation))
+        )
+        return `<h2>${escapeHtml(tag.name)}</h2>\n<p>${escapeHtml(tag.description)}</p>\n${operations.join('\n')}`
+    })
+
+    const errorCodes = Object.values(ErrorCodes)
+        .map((code) => `<code>${escapeHtml(code)}</code>`)
+        .join(', ')
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(document.info.title)}</title>
+<style>
+body { font-family: sans-serif; max-width: 960px; margin: 2em auto; padding: 0 1em; color: #222; }
+section { border: 1px solid #ddd; border-radius: 4px; margin: 1em 0; padding: 0 1em 1em; }
+.method { font-weight: bold; text-transform: uppercase; }
+table { border-collapse: collapse; width: 100%; }
+th, td { border-bottom: 1px solid #eee; padding: 4px 8px; text-align: left; vertical-align: top; }
+code { background: #f4f4f4; padding: 0 3px; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(document.info.title)} <small>${escapeHtml(document.info.version)}</small></h1>
+<p>${escapeHtml(document.info.description)}</p>
+<p>Machine-readable contract: <a href="/openapi.json">/openapi.json</a>. Error codes: ${errorCodes}.</p>
+${sections.join('\n')}
+</body>
+</html>
+`
+}
+
+function renderOperation(document: OpenApiDocument, method: string, path: string, operation: OperationSpec): string {
+    const parameters = (operation.parameters ?? []).map((parameter) =>
+        '$ref' in parameter ? document.components.parameters[parameter.$ref.split('/').pop() ?? ''] : parameter
+    )
+    const rows = parameters
+        .filter((parameter): parameter is ParameterSpec => parameter !== undefined)
+        .map(
+            (parameter) =>
+                `<tr><td><code>${escapeHtml(parameter.name)}</code>${parameter.required ? ' *' : ''}</td>` +
+                `<td>${escapeHtml(parameter.in)}</td><td>${escapeHtml(describeSchema(parameter.schema))}</td>` +
+                `<td>${escapeHtml(parameter.description)}</td></tr>`
+        )
+    const responses = Object.entries(operation.responses)
+        .map(([status]) => `<code>${status}</code>`)
+        .join(' ')
+
+    return `<section>
+<h3><span class="method">${method}</span> <code>${escapeHtml(path)}</code></h3>
+<p>${escapeHtml(operation.summary)}${operation.security ? ' (admin token required)' : ''}</p>
+${operation.description ? `<p>${escapeHtml(operation.description)}</p>` : ''}
+${rows.length > 0 ? `<table><tr><th>Parameter</th><th>In</th><th>Type</th><th>Description</th></tr>${rows.join('')}</table>` : ''}
+<p>Responses: ${responses}</p>
+</section>`
+}
+
+function describeSchema(schema: JsonSchema): string {
+    const parts = [schema.format ?? schema.type ?? 'object']
+    if (schema.enum) {
+        parts.push(`one of ${schema.enum.join(', ')}`)
+    }
+    if (schema.minimum !== undefined) {
+        parts.push(`≥ ${schema.minimum}`)
+    }
+    if (schema.maximum !== undefined) {
+        parts.push(`≤ ${schema.maximum}`)
+    }
+    return parts.join(', ')
+}
+
+function escapeHtml(text: string): string {
+    return text.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`)
+}
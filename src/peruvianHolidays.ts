@@ -0,0 +1,66 @@
+import { HolidayDate, HolidayList } from './types'
+import {
+    addUtcDays,
+    describeHoliday,
+    generateForYears,
+    getEasterSunday,
+    sortHolidays,
+    toHolidayList,
+    utcDate,
+} from './holidayRules'
+
+/**
+ * Peruvian holiday calendar computed from the national holiday laws
+ * Peru does not move holidays to Mondays; every holiday is observed on its date
+ */
+
+interface HolidayRule {
+    name: string
+    month: number // 1-12
+    day: number
+    since?: number // First year the holiday applies
+}
+
+const FIXED_HOLIDAYS: HolidayRule[] = [
+    { name: "New Year's Day", month: 1, day: 1 },
+    { name: 'Labor Day', month: 5, day: 1 },
+    { name: 'Battle of Arica and Flag Day', month: 6, day: 7, since: 2024 },
+    { name: 'Saint Peter and Saint Paul', month: 6, day: 29 },
+    { name: 'Peruvian Air Force Day', month: 7, day: 23, since: 2023 },
+    { name: 'Independence Day', month: 7, day: 28 },
+    { name: 'Great Military Parade', month: 7, day: 29 },
+    { name: 'Battle of Junín', month: 8, day: 6, since: 2024 },
+    { name: 'Saint Rose of Lima', month: 8, day: 30 },
+    { name: 'Battle of Angamos', month: 10, day: 8 },
+    { name: "All Saints' Day", month: 11, day: 1 },
+    { name: 'Immaculate Conception', month: 12, day: 8 },
+    { name: 'Battle of Ayacucho', month: 12, day: 9, since: 2022 },
+    { name: 'Christmas Day', month: 12, day: 25 },
+]
+
+const EASTER_HOLIDAYS = [
+    { name: 'Maundy Thursday', offset: -3 },
+    { name: 'Good Friday', offset: -2 },
+]
+
+export function getPeruvianHolidayDetailsForYear(year: number): HolidayDate[] {
+    const easter = getEasterSunday(year)
+    return sortHolidays([
+        ...FIXED_HOLIDAYS.filter((rule) => !rule.since || year >= rule.since).map((rule) =>
+            describeHoliday(rule.name, 'FIXED', utcDate(year, rule.month, rule.day))
+        ),
+        ...EASTER_HOLIDAYS.map((rule) => describeHoliday(rule.name, 'EASTER', addUtcDays(easter, rule.offset))),
+    ])
+}
+
+export function getPeruvianHolidaysForYear(year: number): HolidayList {
+    return toHolidayList(getPeruvianHolidayDetailsForYear(year))
+}
+
+export function generatePeruvianHolidays(startYear: number, endYear: number): HolidayList {
+    return generateForYears(startYear, endYear, getPeruvianHolidaysForYear)
+}
+
+export function generatePeruvianHolidayDetails(startYear: number, endYear: number): HolidayDate[] {
+    return generateForYears(startYear, endYear, getPeruvianHolidayDetailsForYear)
+}
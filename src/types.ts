@@ -1,11 +1,107 @@
+export type CalculationDirection = 'forward' | 'backward'
+
+// How a start date outside business time is moved into it; strict rejects it instead
+export type ApproximationPolicy = 'backward' | 'forward' | 'strict'
+
 export interface BusinessTimeRequest {
     days?: number
     hours?: number
+    minutes?: number
+    duration?: string
     date?: string
+    direction?: CalculationDirection
+    approximation?: ApproximationPolicy
 }
 
 export interface BusinessTimeResponse {
     date: string
+    adjustment?: StartAdjustment
+    explanation?: CalculationExplanation
+}
+
+// Start date moved into business time before calculating, in UTC
+export interface StartAdjustment {
+    start: string
+    reason: string
+}
+
+// Step-by-step account of a calculation, returned with explain=true
+export interface CalculationExplanation {
+    start: string // Requested start, or the time of the request when none was given
+    adjustedStart: string // Where the calculation started after moving into business time
+    adjustmentReason: string | null
+    direction: CalculationDirection
+    totalMinutes: number // Business minutes between the adjusted start and the result
+    days: ExplainedDay[] // In calculation order, backwards from the start for direction=backward
+    truncated: boolean // More days were crossed than are listed
+    holidayData: {
+        calendar: string
+        country: string
+        source: string
+        status: string
+        lastUpdated: string | null
+        version: string // Fingerprint of the holiday dates used
+    }
+}
+
+export interface ExplainedDay {
+    date: string // YYYY-MM-DD in the schedule's time zone
+    type: 'BUSINESS_DAY' | 'WEEKEND' | 'HOLIDAY'
+    holidays?: string[] // Holiday names when type is HOLIDAY
+    minutes: number // Business minutes used on the day
+    worked: { start: string; end: string }[]
+    breaks: { start: string; end: string }[] // Breaks crossed between worked segments
+}
+
+export interface BusinessStatusResponse {
+    date: string
+    isBusinessTime: boolean
+    reason: ClosedReason | null
+    holiday?: string
+    currentSegment: { start: string; end: string } | null
+    nextOpen: string | null
+    nextClose: string | null
+}
+
+export interface SlaDeadlineResponse {
+    start: string
+    now: string
+    dueDate: string
+    pausedMinutes: number
+    remainingMinutes: number
+    breached: boolean
+    paused: boolean
+}
+
+export interface HolidayListResponse {
+    country: string
+    calendar: string
+    from: string
+    to: string
+    source: string
+    status: string
+    lastUpdated: string | null
+    holidays: HolidayDate[]
+}
+
+export interface BatchItemResult {
+    id?: string | number
+    date?: string
+    adjustment?: StartAdjustment
+    error?: ErrorResponse
+}
+
+export interface BatchResponse {
+    results: BatchItemResult[]
+}
+
+export interface BusinessDurationResponse {
+    start: string
+    end: string
+    totalMinutes: number
+    days: number
+    hours: number
+    minutes: number
 }
 
 export interface ErrorResponse {
@@ -20,6 +116,18 @@ export interface WorkingHours {
     lunchEnd: number
 }
 
+// A continuous stretch of working time within a day, in minutes since midnight
+export interface ScheduleSegment {
+    start: number
+    end: number
+}
+
+// Working time of a day as ordered, non-overlapping segments (any number of breaks)
+export type DaySchedule = ScheduleSegment[]
+
+// A day's working hours, either as start/end with a lunch break or as explicit segments
+export type DayHours = WorkingHours | DaySchedule
+
 export interface BusinessTimeCalculation {
     startDate: Date
     businessDays: number
@@ -27,29 +135,154 @@ export interface BusinessTimeCalculation {
     timezone: string
 }
 
+/**
+ * How a holiday's date is determined:
+ * FIXED - same calendar date every year
+ * MOVABLE - moved from its original date to a nearby weekday (e.g., Ley Emiliani)
+ * EASTER - relative to Easter Sunday, possibly moved as well
+ * CLOSURE - company closure from a calendar profile
+ * EXTERNAL - listed by the holiday service without a matching rule
+ */
+export type HolidayCategory = 'FIXED' | 'MOVABLE' | 'EASTER' | 'CLOSURE' | 'EXTERNAL'
+
 export interface HolidayDate {
-    date: string
+    date: string // Observed date, YYYY-MM-DD
+    originalDate: string // Date before any move to a nearby weekday
+    name: string
+    category: HolidayCategory
+}
+
+// Observed holiday dates in YYYY-MM-DD format
+export type HolidayList = string[]
+
+// Temporary holiday dataset applied on top of a country's holidays, e.g. a newly decreed holiday.
+// merge adds the dates, override replaces every year it covers, remove drops the dates
+export interface HolidayOverride {
+    mode: 'merge' | 'override' | 'remove'
+    holidays: HolidayList
+    reason: string | null
+    createdAt: string
+    expiresAt: string | null // Applies until removed when null
 }
 
-export type ColombianHolidays = string[]
+/** @deprecated Use HolidayList; holiday data is no longer specific to Colombia */
+export type ColombianHolidays = HolidayList
 
 export interface BusinessRules {
-    workingHours: WorkingHours
+    workingHours: DayHours
+    weekdayHours: Partial<Record<number, DayHours>> // Per-weekday schedules (0 = Sunday), e.g. shorter Fridays
+    dateHours: Record<string, DayHours> // Per-date schedules (YYYY-MM-DD), e.g. half days; win over weekdays
     workingDays: number[]
+    workingDates: HolidayList // Dates worked regardless of weekday or holidays
     timezone: string
     holidaysUrl: string
 }
 
+export type HolidaySourceType = 'API' | 'COMPUTED'
+
+export interface CalendarClosure {
+    date: string
+    name: string
+}
+
+// A date worked regardless of weekday or holidays, e.g. a Saturday compensating a bridge day
+export interface CalendarWorkingDate {
+    date: string
+    name: string
+}
+
+// Closures and working dates managed at runtime through the admin endpoints
+export interface CalendarOverrides {
+    closures: CalendarClosure[]
+    workingDates: CalendarWorkingDate[]
+}
+
+export interface CalendarProfile {
+    name: string
+    country: string
+    rules: BusinessRules
+    holidaySource: HolidaySourceType
+    closures: CalendarClosure[]
+    workingDates: CalendarWorkingDate[]
+}
+
+// Why an instant is not business time
+export type ClosedReason = 'WEEKEND' | 'HOLIDAY' | 'BEFORE_HOURS' | 'LUNCH' | 'AFTER_HOURS'
+
+// A continuous stretch of working time, e.g. the morning before lunch
+export interface WorkingSegment {
+    start: Date
+    end: Date
+}
+
+// Dates breaking the weekly schedule, used to skip whole weeks of business time at once
+export interface ScheduleExceptions {
+    dates: HolidayList // Sorted holidays, working dates and per-date schedules
+    businessDays: number[] // Running totals of the business days each date adds or removes, from 0
+    businessMs: number[] // Running totals of the business time each date adds or removes, from 0
+    rescheduledDates: HolidayList // Sorted working dates and per-date schedules
+}
+
+export interface BusinessStatus {
+    isBusinessTime: boolean
+    reason: ClosedReason | null
+    currentSegment: WorkingSegment | null
+    nextOpen: Date | null
+    nextClose: Date | null
+}
+
+// An interval during which the SLA clock is stopped; an open pause (end null) lasts until now
+export interface PauseInterval {
+    start: Date
+    end: Date | null
+}
+
+export interface SlaStatus {
+    dueDate: Date
+    pausedMinutes: number
+    remainingMinutes: number // Negative once breached: business minutes overdue
+    breached: boolean
+    paused: boolean
+}
+
 export interface TimeAdjustment {
     date: Date
     wasAdjusted: boolean
     reason?: string
 }
 
+export interface BusinessTimeResult {
+    date: Date
+    adjustment: TimeAdjustment
+}
+
+// Calendar day a calculation went through, with the business time used on it (in UTC)
+export interface BusinessTimeTraceDay {
+    day: string // YYYY-MM-DD in the schedule's time zone
+    closed: ClosedReason | null
+    minutes: number
+    worked: WorkingSegment[]
+    breaks: WorkingSegment[]
+}
+
+export interface BusinessTimeTrace {
+    days: BusinessTimeTraceDay[]
+    truncated: boolean
+}
+
 export enum ErrorCodes {
     INVALID_PARAMETERS = 'InvalidParameters',
     INVALID_DATE_FORMAT = 'InvalidDateFormat',
     NEGATIVE_VALUES = 'NegativeValues',
+    OFFSET_TOO_LARGE = 'OffsetTooLarge',
+    INVALID_DATE_RANGE = 'InvalidDateRange',
+    INVALID_DURATION = 'InvalidDuration',
+    INVALID_SCHEDULE = 'InvalidSchedule',
+    OUTSIDE_BUSINESS_TIME = 'OutsideBusinessTime',
+    UNKNOWN_CALENDAR = 'UnknownCalendar',
+    UNKNOWN_COUNTRY = 'UnknownCountry',
+    BATCH_TOO_LARGE = 'BatchTooLarge',
+    UNAUTHORIZED = 'Unauthorized',
     HOLIDAYS_SERVICE_ERROR = 'HolidaysServiceError',
     INTERNAL_ERROR = 'InternalError',
 }
@@ -60,7 +293,94 @@ export interface ValidationResult {
     parsedRequest?: {
         days: number | undefined
         hours: number | undefined
+        minutes: number | undefined
         startDate: Date | undefined
+        direction: CalculationDirection
+        approximation: ApproximationPolicy
+    }
+}
+
+export interface BatchValidationResult {
+    isValid: boolean
+    error?: ErrorResponse
+    items?: Record<string, unknown>[]
+}
+
+export interface HolidayListValidationResult {
+    isValid: boolean
+    error?: ErrorResponse
+    range?: {
+        from: string
+        to: string
     }
 }
 
+export interface CalendarExportValidationResult extends HolidayListValidationResult {
+    includeWorkingHours?: boolean
+}
+
+export interface CalculationValidationResult extends ValidationResult {
+    explain?: boolean
+}
+
+export interface HolidayOverrideValidationResult {
+    isValid: boolean
+    error?: ErrorResponse
+    override?: HolidayOverride
+}
+
+export interface AuditValidationResult {
+    isValid: boolean
+    error?: ErrorResponse
+    limit?: number
+}
+
+export interface CalendarDateValidationResult {
+    isValid: boolean
+    error?: ErrorResponse
+    entry?: {
+        date: string
+        name: string
+    }
+}
+
+export interface StatusValidationResult {
+    isValid: boolean
+    error?: ErrorResponse
+    date?: Date
+}
+
+export interface SlaValidationResult {
+    isValid: boolean
+    error?: ErrorResponse
+    parsedRequest?: {
+        startDate: Date
+        now: Date
+        days: number | undefined
+        hours: number | undefined
+        minutes: number | undefined
+        pauses: PauseInterval[]
+    }
+}
+
+export interface DurationValidationResult {
+    isValid: boolean
+    error?: ErrorResponse
+    parsedRequest?: {
+        startDate: Date
+        endDate: Date
+    }
+}
+
+export interface BusinessRulesValidationResult {
+    isValid: boolean
+    error?: ErrorResponse
+    rules?: BusinessRules
+}
+
+export interface CalendarValidationResult {
+    isValid: boolean
+    error?: ErrorResponse
+    calendar?: CalendarProfile
+    rules?: BusinessRules
+}
@@ -1,117 +1,899 @@
-import { ValidationResult, ErrorResponse, ErrorCodes } from './types'
+import {
+    ValidationResult,
+    CalculationValidationResult,
+    BatchValidationResult,
+    HolidayListValidationResult,
+    CalendarExportValidationResult,
+    StatusValidationResult,
+    CalendarDateValidationResult,
+    HolidayOverrideValidationResult,
+    AuditValidationResult,
+    HolidayOverride,
+    SlaValidationResult,
+    PauseInterval,
+    DurationValidationResult,
+    BusinessRulesValidationResult,
+    CalendarValidationResult,
+    BusinessRules,
+    DayHours,
+    WorkingHours,
+    ErrorResponse,
+    ErrorCodes,
+    CalculationDirection,
+    ApproximationPolicy,
+} from './types'
+import { CalendarRegistry } from './calendars'
+import {
+    AUDIT_PARAMETERS,
+    CALCULATION_PARAMETERS,
+    CALENDAR_EXPORT_PARAMETERS,
+    DURATION_PARAMETERS,
+    EXPLAIN_PARAMETERS,
+    HOLIDAY_RANGE_PARAMETERS,
+    ISO_DATE_TIME_PATTERN,
+    MAX_BUSINESS_DAYS,
+    MAX_BUSINESS_HOURS,
+    MAX_SPAN_DAYS,
+    SCHEDULE_PARAMETERS,
+    STATUS_PARAMETERS,
+    validateParameters,
+} from './apiSchema'
+import { getHolidayProvider, listHolidayProviders } from './holidayProviders'
+import {
+    DEFAULT_BUSINESS_RULES,
+    getDayScheduleError,
+    getWorkingHoursError,
+    isValidTimezone,
+    parseDaySchedule,
+    toWorkingHours,
+} from './businessRules'
+
+const DAY_MS = 24 * 60 * 60 * 1000
 
 export class ValidationService {
+    private static readonly MAX_HOLIDAY_LIST_YEARS = 10
+
     public static validateRequest(query: Record<string, unknown>): ValidationResult {
-        const { days, hours, date } = query
+        const { days, hours, minutes, duration, date, direction, approximation } = query
 
         // Check if at least one parameter is provided
-        if (days === undefined && hours === undefined) {
+        if (days === undefined && hours === undefined && minutes === undefined && duration === undefined) {
             return {
                 isValid: false,
                 error: {
                     error: ErrorCodes.INVALID_PARAMETERS,
-                    message: 'At least one parameter (days or hours) must be provided',
+                    message: 'At least one parameter (days, hours, minutes or duration) must be provided',
                 },
             }
         }
 
-        // Validate days parameter
-        let parsedDays: number | undefined
-        if (days !== undefined) {
-            if (typeof days !== 'string' || isNaN(Number(days))) {
+        // Types, ranges and allowed values come from the documented parameter schemas
+        const parameterError = validateParameters(CALCULATION_PARAMETERS, query)
+        if (parameterError) {
+            return { isValid: false, error: parameterError }
+        }
+
+        let parsedDays = days === undefined ? undefined : Number(days)
+        let parsedHours = hours === undefined ? undefined : Number(hours)
+        let parsedMinutes = minutes === undefined ? undefined : Number(minutes)
+
+        if (duration !== undefined) {
+            if (days !== undefined || hours !== undefined || minutes !== undefined) {
                 return {
                     isValid: false,
                     error: {
                         error: ErrorCodes.INVALID_PARAMETERS,
-                        message: 'Days parameter must be a valid number',
+                        message: 'Duration parameter cannot be combined with days, hours or minutes',
                     },
                 }
             }
 
-            parsedDays = parseInt(days, 10)
-            if (parsedDays < 0) {
-                return {
-                    isValid: false,
-                    error: {
-                        error: ErrorCodes.NEGATIVE_VALUES,
-                        message: 'Days parameter must be a positive integer',
-                    },
-                }
+            const durationValidation = this.parseDuration(duration)
+            if ('error' in durationValidation) {
+                return { isValid: false, error: durationValidation }
             }
+
+            parsedDays = durationValidation.days
+            parsedHours = durationValidation.hours
+            parsedMinutes = durationValidation.minutes
         }
 
-        // Validate hours parameter
-        let parsedHours: number | undefined
-        if (hours !== undefined) {
-            if (typeof hours !== 'string' || isNaN(Number(hours))) {
-                return {
-                    isValid: false,
-                    error: {
-                        error: ErrorCodes.INVALID_PARAMETERS,
-                        message: 'Hours parameter must be a valid number',
-                    },
-                }
+        // Decimal hours are accepted as long as they resolve to whole minutes (e.g., 1.5 = 90 minutes)
+        if (hours !== undefined && !this.isWholeMinutes(Number(hours))) {
+            return {
+                isValid: false,
+                error: {
+                    error: ErrorCodes.INVALID_PARAMETERS,
+                    message: 'Hours parameter must resolve to whole minutes (e.g., 1.5 or 0.25)',
+                },
             }
+        }
 
-            parsedHours = parseInt(hours, 10)
-            if (parsedHours < 0) {
-                return {
-                    isValid: false,
-                    error: {
-                        error: ErrorCodes.NEGATIVE_VALUES,
-                        message: 'Hours parameter must be a positive integer',
-                    },
-                }
+        // Each parameter is capped by its schema; durations and hours combined with minutes are checked here
+        const offsetMinutes = (parsedHours ?? 0) * 60 + (parsedMinutes ?? 0)
+        if ((parsedDays ?? 0) > MAX_BUSINESS_DAYS || offsetMinutes > MAX_BUSINESS_HOURS * 60) {
+            return {
+                isValid: false,
+                error: {
+                    error: ErrorCodes.OFFSET_TOO_LARGE,
+                    message: `Business time offsets are limited to ${MAX_BUSINESS_DAYS} days and ${MAX_BUSINESS_HOURS} hours (about 100 years)`,
+                },
             }
         }
 
         // Validate date parameter
         let parsedDate: Date | undefined
         if (date !== undefined) {
-            if (typeof date !== 'string') {
+            const dateValidation = this.validateDate(date, 'Date')
+            if (!(dateValidation instanceof Date)) {
+                return { isValid: false, error: dateValidation }
+            }
+
+            parsedDate = dateValidation
+        }
+
+        const parsedDirection: CalculationDirection = direction === 'backward' ? 'backward' : 'forward'
+        // By default the start moves against the calculation direction
+        const parsedApproximation: ApproximationPolicy =
+            approximation === 'backward' || approximation === 'forward' || approximation === 'strict'
+                ? approximation
+                : parsedDirection === 'backward'
+                  ? 'forward'
+                  : 'backward'
+
+        return {
+            isValid: true,
+            parsedRequest: {
+                days: parsedDays,
+                hours: parsedHours,
+                minutes: parsedMinutes,
+                startDate: parsedDate,
+                direction: parsedDirection,
+                approximation: parsedApproximation,
+            },
+        }
+    }
+
+    /**
+     * Validate a calculation query string: the business time to add plus whether to explain the result
+     */
+    public static validateCalculationRequest(query: Record<string, unknown>): CalculationValidationResult {
+        const validation = this.validateRequest(query)
+        if (!validation.isValid) {
+            return validation
+        }
+
+        const parameterError = validateParameters(EXPLAIN_PARAMETERS, query)
+        if (parameterError) {
+            return { isValid: false, error: parameterError }
+        }
+
+        return { ...validation, explain: query.explain === 'true' }
+    }
+
+    public static validateDurationRequest(query: Record<string, unknown>): DurationValidationResult {
+        const { start, end } = query
+
+        if (start === undefined || end === undefined) {
+            return {
+                isValid: false,
+                error: {
+                    error: ErrorCodes.INVALID_PARAMETERS,
+                    message: 'Both start and end parameters must be provided',
+                },
+            }
+        }
+
+        const parameterError = validateParameters(DURATION_PARAMETERS, query)
+        if (parameterError) {
+            return { isValid: false, error: parameterError }
+        }
+
+        const startDate = this.validateDate(start, 'Start')
+        if (!(startDate instanceof Date)) {
+            return { isValid: false, error: startDate }
+        }
+
+        const endDate = this.validateDate(end, 'End')
+        if (!(endDate instanceof Date)) {
+            return { isValid: false, error: endDate }
+        }
+
+        if (endDate < startDate) {
+            return {
+                isValid: false,
+                error: {
+                    error: ErrorCodes.INVALID_DATE_RANGE,
+                    message: 'End date must not be before start date',
+                },
+            }
+        }
+
+        if (endDate.getTime() - startDate.getTime() > MAX_SPAN_DAYS * DAY_MS) {
+            return {
+                isValid: false,
+                error: {
+                    error: ErrorCodes.OFFSET_TOO_LARGE,
+                    message: `Start and end can be at most ${MAX_SPAN_DAYS} days (about 100 years) apart`,
+                },
+            }
+        }
+
+        return {
+            isValid: true,
+            parsedRequest: {
+                startDate,
+                endDate,
+            },
+        }
+    }
+
+    /**
+     * Validate the instant of a business status request; defaults to now
+     */
+    public static validateStatusRequest(query: Record<string, unknown>): StatusValidationResult {
+        if (query.date === undefined) {
+            return { isValid: true, date: new Date() }
+        }
+
+        const parameterError = validateParameters(STATUS_PARAMETERS, query)
+        if (parameterError) {
+            return { isValid: false, error: parameterError }
+        }
+
+        const date = this.validateDate(query.date, 'Date')
+        if (!(date instanceof Date)) {
+            return { isValid: false, error: date }
+        }
+
+        return { isValid: true, date }
+    }
+
+    public static validateBusinessRules(
+        query: Record<string, unknown>,
+        baseRules: BusinessRules = DEFAULT_BUSINESS_RULES
+    ): BusinessRulesValidationResult {
+        const { workStart, workEnd, lunchStart, lunchEnd, lunch, segments, workingDays, timezone } = query
+        const hourValues = [workStart, workEnd, lunchStart, lunchEnd, lunch]
+        let workingHours: DayHours = baseRules.workingHours
+
+        const parameterError = validateParameters(SCHEDULE_PARAMETERS, query)
+        if (parameterError) {
+            return { isValid: false, error: parameterError }
+        }
+
+        // Validate segments parameter, an alternative to the hour parameters
+        if (segments !== undefined) {
+            if (hourValues.some((value) => value !== undefined)) {
+                return this.scheduleError('Segments parameter cannot be combined with hour or lunch parameters')
+            }
+
+            const schedule = typeof segments === 'string' ? parseDaySchedule(segments) : null
+            if (!schedule) {
+                return this.scheduleError(
+                    'Segments parameter must be comma-separated HH:mm-HH:mm ranges (e.g., 08:00-12:00,13:00-17:00)'
+                )
+            }
+
+            const scheduleError = getDayScheduleError(schedule)
+            if (scheduleError) {
+                return this.scheduleError(scheduleError)
+            }
+
+            workingHours = schedule
+        } else if (hourValues.some((value) => value !== undefined)) {
+            // Hour parameters on a segmented schedule start from its first and last segment
+            const baseHours = toWorkingHours(baseRules.workingHours)
+            const parsedHours: WorkingHours = { ...baseHours }
+
+            const hourParams: [unknown, keyof WorkingHours][] = [
+                [workStart, 'start'],
+                [workEnd, 'end'],
+                [lunchStart, 'lunchStart'],
+                [lunchEnd, 'lunchEnd'],
+            ]
+            for (const [value, field] of hourParams) {
+                if (value !== undefined) {
+                    parsedHours[field] = Number(value)
+                }
+            }
+
+            if (lunch !== undefined && (lunchStart !== undefined || lunchEnd !== undefined)) {
+                return this.scheduleError('Lunch parameter cannot be combined with lunchStart or lunchEnd')
+            }
+
+            // A zero-length break at the end of the day means no lunch break
+            const baseHasLunch = baseHours.lunchStart < baseHours.lunchEnd
+            if (lunch === 'none' || (!baseHasLunch && lunchStart === undefined && lunchEnd === undefined)) {
+                parsedHours.lunchStart = parsedHours.end
+                parsedHours.lunchEnd = parsedHours.end
+            }
+
+            const workingHoursError = getWorkingHoursError(parsedHours)
+            if (workingHoursError) {
+                return this.scheduleError(workingHoursError)
+            }
+
+            workingHours = parsedHours
+        }
+
+        const parsedWorkingDays =
+            workingDays === undefined
+                ? baseRules.workingDays
+                : [
+                      ...new Set(
+                          String(workingDays)
+                              .split(',')
+                              .map((day) => Number(day))
+                      ),
+                  ].sort()
+
+        // Validate timezone parameter
+        let parsedTimezone = baseRules.timezone
+        if (timezone !== undefined) {
+            if (typeof timezone !== 'string' || !isValidTimezone(timezone)) {
+                return this.scheduleError('Timezone parameter must be a valid IANA timezone (e.g., America/Bogota)')
+            }
+
+            parsedTimezone = timezone
+        }
+
+        return {
+            isValid: true,
+            rules: {
+                ...baseRules,
+                workingHours,
+                workingDays: parsedWorkingDays,
+                timezone: parsedTimezone,
+            },
+        }
+    }
+
+    /**
+     * Resolve the calendar profile selected with the calendar parameter and apply
+     * any schedule parameters on top of its rules
+     */
+    public static validateCalendar(query: Record<string, unknown>): CalendarValidationResult {
+        const { calendar, country } = query
+
+        let profile = CalendarRegistry.getDefault()
+        if (calendar !== undefined) {
+            const selected = typeof calendar === 'string' ? CalendarRegistry.get(calendar) : undefined
+            if (!selected) {
                 return {
                     isValid: false,
                     error: {
-                        error: ErrorCodes.INVALID_PARAMETERS,
-                        message: 'Date parameter must be a string',
+                        error: ErrorCodes.UNKNOWN_CALENDAR,
+                        message: `Unknown calendar. Available calendars: ${CalendarRegistry.list()
+                            .map((profile) => profile.name)
+                            .join(', ')}`,
                     },
                 }
             }
 
-            // Check ISO 8601 format with Z suffix
-            const iso8601Regex = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d{3})?Z$/
-            if (!iso8601Regex.test(date)) {
+            profile = selected
+        }
+
+        // The country switches the holiday calendar and its default timezone
+        if (country !== undefined) {
+            const provider = typeof country === 'string' ? getHolidayProvider(country) : undefined
+            if (!provider) {
                 return {
                     isValid: false,
                     error: {
-                        error: ErrorCodes.INVALID_DATE_FORMAT,
-                        message: 'Date must be in ISO 8601 format with Z suffix (e.g., 2025-08-01T14:00:00Z)',
+                        error: ErrorCodes.UNKNOWN_COUNTRY,
+                        message: `Unsupported country. Available countries: ${listHolidayProviders()
+                            .map((provider) => provider.countryCode)
+                            .join(', ')}`,
                     },
                 }
             }
 
-            parsedDate = new Date(date)
-            if (isNaN(parsedDate.getTime())) {
+            profile = {
+                ...profile,
+                country: provider.countryCode,
+                rules: { ...profile.rules, timezone: provider.timezone, holidaysUrl: provider.holidaysUrl },
+            }
+        }
+
+        const rulesValidation = this.validateBusinessRules(query, profile.rules)
+        if (!rulesValidation.isValid || !rulesValidation.rules) {
+            return rulesValidation
+        }
+
+        return {
+            isValid: true,
+            calendar: profile,
+            rules: rulesValidation.rules,
+        }
+    }
+
+    private static scheduleError(message: string): BusinessRulesValidationResult {
+        return {
+            isValid: false,
+            error: {
+                error: ErrorCodes.INVALID_SCHEDULE,
+                message,
+            },
+        }
+    }
+
+    /**
+     * Validate the date range of a holiday listing: a single `year`, or `from` and `to` dates (YYYY-MM-DD).
+     * Defaults to the current year
+     */
+    public static validateHolidayListRequest(query: Record<string, unknown>): HolidayListValidationResult {
+        const { year, from, to } = query
+
+        const parameterError = validateParameters(HOLIDAY_RANGE_PARAMETERS, query)
+        if (parameterError) {
+            return { isValid: false, error: parameterError }
+        }
+
+        if (year !== undefined && (from !== undefined || to !== undefined)) {
+            return {
+                isValid: false,
+                error: {
+                    error: ErrorCodes.INVALID_PARAMETERS,
+                    message: 'Use either year or from/to, not both',
+                },
+            }
+        }
+
+        if (from === undefined && to === undefined) {
+            const selectedYear = typeof year === 'string' ? year : String(new Date().getUTCFullYear())
+            return { isValid: true, range: { from: `${selectedYear}-01-01`, to: `${selectedYear}-12-31` } }
+        }
+
+        if (!this.isCalendarDate(from) || !this.isCalendarDate(to)) {
+            return {
+                isValid: false,
+                error: {
+                    error: ErrorCodes.INVALID_DATE_FORMAT,
+                    message: 'From and to parameters must both be dates in YYYY-MM-DD format (e.g., 2026-01-01)',
+                },
+            }
+        }
+
+        if (to < from) {
+            return {
+                isValid: false,
+                error: {
+                    error: ErrorCodes.INVALID_DATE_RANGE,
+                    message: 'To date must not be before from date',
+                },
+            }
+        }
+
+        if (Number(to.slice(0, 4)) - Number(from.slice(0, 4)) >= this.MAX_HOLIDAY_LIST_YEARS) {
+            return {
+                isValid: false,
+                error: {
+                    error: ErrorCodes.INVALID_DATE_RANGE,
+                    message: `Holiday listings can span at most ${this.MAX_HOLIDAY_LIST_YEARS} years`,
+                },
+            }
+        }
+
+        return { isValid: true, range: { from, to } }
+    }
+
+    /**
+     * Validate a calendar export: the holiday listing range plus whether to include working hours
+     */
+    public static validateCalendarExportRequest(query: Record<string, unknown>): CalendarExportValidationResult {
+        const parameterError = validateParameters(CALENDAR_EXPORT_PARAMETERS, query)
+        if (parameterError) {
+            return { isValid: false, error: parameterError }
+        }
+
+        const validation = this.validateHolidayListRequest(query)
+        return validation.isValid ? { ...validation, includeWorkingHours: query.workingHours === 'true' } : validation
+    }
+
+    /**
+     * Validate an admin change to a calendar's closures or working dates: an existing calendar,
+     * a YYYY-MM-DD date and an optional name
+     */
+    public static validateCalendarDateEntry(
+        calendar: string,
+        date: string,
+        body: unknown,
+        defaultName: string
+    ): CalendarDateValidationResult {
+        if (!CalendarRegistry.get(calendar)) {
+            return {
+                isValid: false,
+                error: {
+                    error: ErrorCodes.UNKNOWN_CALENDAR,
+                    message: `Unknown calendar. Available calendars: ${CalendarRegistry.list()
+                        .map((profile) => profile.name)
+                        .join(', ')}`,
+                },
+            }
+        }
+
+        if (!this.isCalendarDate(date)) {
+            return {
+                isValid: false,
+                error: {
+                    error: ErrorCodes.INVALID_DATE_FORMAT,
+                    message: 'Date must be in YYYY-MM-DD format (e.g., 2025-12-24)',
+                },
+            }
+        }
+
+        const name = (body as { name?: unknown } | undefined)?.name
+        if (name !== undefined && (typeof name !== 'string' || name.trim() === '')) {
+            return {
+                isValid: false,
+                error: {
+                    error: ErrorCodes.INVALID_PARAMETERS,
+                    message: 'Name must be a non-empty string',
+                },
+            }
+        }
+
+        return { isValid: true, entry: { date, name: name?.trim() ?? defaultName } }
+    }
+
+    /**
+     * Validate a temporary holiday override: a non-empty list of dates, how they apply to the country's
+     * holidays, and an optional reason and expiry
+     */
+    public static validateHolidayOverride(body: unknown): HolidayOverrideValidationResult {
+        if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+            return {
+                isValid: false,
+                error: {
+                    error: ErrorCodes.INVALID_PARAMETERS,
+                    message: 'Request body must be an object with a holidays list',
+                },
+            }
+        }
+
+        const { holidays, mode = 'merge', reason, expiresAt } = body as Record<string, unknown>
+
+        if (!Array.isArray(holidays) || holidays.length === 0) {
+            return {
+                isValid: false,
+                error: {
+                    error: ErrorCodes.INVALID_PARAMETERS,
+                    message: 'Holidays parameter must be a non-empty array of dates',
+                },
+            }
+        }
+
+        const invalidDate = holidays.find((date) => !this.isCalendarDate(date))
+        if (invalidDate !== undefined) {
+            return {
+                isValid: false,
+                error: {
+                    error: ErrorCodes.INVALID_DATE_FORMAT,
+                    message: `Holiday ${JSON.stringify(invalidDate)} must be in YYYY-MM-DD format (e.g., 2026-03-20)`,
+                },
+            }
+        }
+
+        if (mode !== 'merge' && mode !== 'override' && mode !== 'remove') {
+            return {
+                isValid: false,
+                error: {
+                    error: ErrorCodes.INVALID_PARAMETERS,
+                    message: 'Mode parameter must be merge, override or remove',
+                },
+            }
+        }
+
+        if (reason !== undefined && (typeof reason !== 'string' || reason.trim() === '')) {
+            return {
+                isValid: false,
+                error: {
+                    error: ErrorCodes.INVALID_PARAMETERS,
+                    message: 'Reason must be a non-empty string',
+                },
+            }
+        }
+
+        const now = new Date()
+        let expiry: Date | null = null
+        if (expiresAt !== undefined) {
+            const expiresAtDate = this.validateDate(expiresAt, 'ExpiresAt')
+            if (!(expiresAtDate instanceof Date)) {
+                return { isValid: false, error: expiresAtDate }
+            }
+
+            if (expiresAtDate <= now) {
                 return {
                     isValid: false,
                     error: {
-                        error: ErrorCodes.INVALID_DATE_FORMAT,
-                        message: 'Invalid date',
+                        error: ErrorCodes.INVALID_DATE_RANGE,
+                        message: 'ExpiresAt must be in the future',
                     },
                 }
             }
+            expiry = expiresAtDate
+        }
+
+        const override: HolidayOverride = {
+            mode,
+            holidays: [...new Set(holidays as string[])].sort(),
+            reason: typeof reason === 'string' ? reason.trim() : null,
+            createdAt: now.toISOString(),
+            expiresAt: expiry && expiry.toISOString(),
+        }
+
+        return { isValid: true, override }
+    }
+
+    public static validateAuditRequest(query: Record<string, unknown>): AuditValidationResult {
+        const parameterError = validateParameters(AUDIT_PARAMETERS, query)
+        if (parameterError) {
+            return { isValid: false, error: parameterError }
+        }
+
+        return { isValid: true, limit: query.limit === undefined ? 100 : Number(query.limit) }
+    }
+
+    /**
+     * Validate the body of a batch calculation request: a non-empty array of item objects
+     */
+    public static validateBatchRequest(body: unknown, maxItems: number): BatchValidationResult {
+        if (!Array.isArray(body) || body.length === 0) {
+            return {
+                isValid: false,
+                error: {
+                    error: ErrorCodes.INVALID_PARAMETERS,
+                    message: 'Request body must be a non-empty array of calculation items',
+                },
+            }
+        }
+
+        if (body.length > maxItems) {
+            return {
+                isValid: false,
+                error: {
+                    error: ErrorCodes.BATCH_TOO_LARGE,
+                    message: `Batch contains ${body.length} items; the maximum is ${maxItems}`,
+                },
+            }
+        }
+
+        const items = body.map((item: unknown) =>
+            typeof item === 'object' && item !== null && !Array.isArray(item) ? (item as Record<string, unknown>) : {}
+        )
+
+        return { isValid: true, items }
+    }
+
+    /**
+     * Validate a single batch item with the same rules as the query string of the calculation endpoint
+     */
+    public static validateBatchItem(item: Record<string, unknown>): ValidationResult {
+        const { id, ...fields } = item
+
+        if (id !== undefined && typeof id !== 'string' && typeof id !== 'number') {
+            return {
+                isValid: false,
+                error: {
+                    error: ErrorCodes.INVALID_PARAMETERS,
+                    message: 'Item id must be a string or a number',
+                },
+            }
+        }
+
+        return this.validateRequest(this.toQuery(fields))
+    }
+
+    /**
+     * Validate an SLA deadline request: a start instant, a business-time budget, pause intervals
+     * and an optional evaluation instant (defaults to now)
+     */
+    public static validateSlaRequest(body: unknown): SlaValidationResult {
+        if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+            return {
+                isValid: false,
+                error: {
+                    error: ErrorCodes.INVALID_PARAMETERS,
+                    message: 'Request body must be an object with start, a business-time budget and pauses',
+                },
+            }
+        }
+
+        const { start, now, pauses = [], days, hours, minutes, duration } = body as Record<string, unknown>
+
+        if (start === undefined) {
+            return {
+                isValid: false,
+                error: {
+                    error: ErrorCodes.INVALID_PARAMETERS,
+                    message: 'Start parameter must be provided',
+                },
+            }
+        }
+
+        const startDate = this.validateDate(start, 'Start')
+        if (!(startDate instanceof Date)) {
+            return { isValid: false, error: startDate }
+        }
+
+        const nowDate = now === undefined ? new Date() : this.validateDate(now, 'Now')
+        if (!(nowDate instanceof Date)) {
+            return { isValid: false, error: nowDate }
+        }
+
+        // The budget uses the same parameters as the calculation endpoint, always counted forward
+        const budget = this.validateRequest(this.toQuery({ days, hours, minutes, duration }))
+        if (!budget.isValid || !budget.parsedRequest) {
+            return { isValid: false, ...(budget.error && { error: budget.error }) }
+        }
+
+        const parsedPauses = this.validatePauses(pauses)
+        if (!Array.isArray(parsedPauses)) {
+            return { isValid: false, error: parsedPauses }
+        }
+
+        // Business time is counted between these instants and start, so they share the offsets' limit
+        const instants = [
+            nowDate,
+            ...parsedPauses.flatMap((pause) => (pause.end ? [pause.start, pause.end] : [pause.start])),
+        ]
+        if (instants.some((instant) => Math.abs(instant.getTime() - startDate.getTime()) > MAX_SPAN_DAYS * DAY_MS)) {
+            return {
+                isValid: false,
+                error: {
+                    error: ErrorCodes.OFFSET_TOO_LARGE,
+                    message: `Now and pauses must be within ${MAX_SPAN_DAYS} days (about 100 years) of start`,
+                },
+            }
         }
 
         return {
             isValid: true,
             parsedRequest: {
-                days: parsedDays,
-                hours: parsedHours,
-                startDate: parsedDate,
+                startDate,
+                now: nowDate,
+                days: budget.parsedRequest.days,
+                hours: budget.parsedRequest.hours,
+                minutes: budget.parsedRequest.minutes,
+                pauses: parsedPauses,
             },
         }
     }
 
+    private static validatePauses(pauses: unknown): PauseInterval[] | ErrorResponse {
+        if (!Array.isArray(pauses)) {
+            return {
+                error: ErrorCodes.INVALID_PARAMETERS,
+                message: 'Pauses parameter must be an array of { start, end } intervals',
+            }
+        }
+
+        const parsed: PauseInterval[] = []
+        for (const pause of pauses) {
+            const { start, end } = (typeof pause === 'object' && pause !== null ? pause : {}) as Record<string, unknown>
+
+            const pauseStart = this.validateDate(start, 'Pause start')
+            if (!(pauseStart instanceof Date)) {
+                return pauseStart
+            }
+
+            // A pause without an end is still in progress
+            const pauseEnd = end === undefined || end === null ? null : this.validateDate(end, 'Pause end')
+            if (pauseEnd !== null && !(pauseEnd instanceof Date)) {
+                return pauseEnd
+            }
+
+            if (pauseEnd && pauseEnd < pauseStart) {
+                return {
+                    error: ErrorCodes.INVALID_DATE_RANGE,
+                    message: 'Pause end must not be before pause start',
+                }
+            }
+
+            parsed.push({ start: pauseStart, end: pauseEnd })
+        }
+
+        if (parsed.filter((pause) => pause.end === null).length > 1) {
+            return {
+                error: ErrorCodes.INVALID_PARAMETERS,
+                message: 'Only one pause can be in progress (without an end)',
+            }
+        }
+
+        return parsed
+    }
+
+    // JSON numbers are accepted wherever the query string takes a numeric string
+    private static toQuery(fields: Record<string, unknown>): Record<string, unknown> {
+        return Object.fromEntries(
+            Object.entries(fields)
+                .filter(([, value]) => value !== undefined)
+                .map(([key, value]) => [key, typeof value === 'number' ? String(value) : value])
+        )
+    }
+
+    /**
+     * Parse an ISO 8601 duration limited to business days, hours and minutes (e.g., P2DT3H30M)
+     */
+    private static parseDuration(
+        value: unknown
+    ): { days: number | undefined; hours: number | undefined; minutes: number | undefined } | ErrorResponse {
+        const invalid = (message: string): ErrorResponse => ({
+            error: ErrorCodes.INVALID_DURATION,
+            message,
+        })
+
+        if (typeof value !== 'string') {
+            return invalid('Duration parameter must be a string')
+        }
+
+        if (/^P[^T]*[YMW]/.test(value)) {
+            return invalid(
+                'Duration parameter only supports days (D), hours (H) and minutes (M), not years, months or weeks'
+            )
+        }
+
+        const match = /^P(?:(\d+)D)?(?:T(?:(\d+(?:\.\d+)?)H)?(?:(\d+)M)?)?$/.exec(value)
+        if (!match || value === 'P' || value.endsWith('T')) {
+            return invalid('Duration must be in ISO 8601 format (e.g., P2DT3H30M)')
+        }
+
+        const [, days, hours, minutes] = match
+        const parsedHours = hours !== undefined ? Number(hours) : undefined
+        if (parsedHours !== undefined && !this.isWholeMinutes(parsedHours)) {
+            return invalid('Duration hours must resolve to whole minutes (e.g., PT1.5H)')
+        }
+
+        return {
+            days: days !== undefined ? Number(days) : undefined,
+            hours: parsedHours,
+            minutes: minutes !== undefined ? Number(minutes) : undefined,
+        }
+    }
+
+    private static isCalendarDate(value: unknown): value is string {
+        if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+            return false
+        }
+
+        // Reject dates such as 2026-02-30 that Date would roll over
+        const date = new Date(`${value}T00:00:00Z`)
+        return !isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value
+    }
+
+    private static isWholeMinutes(hours: number): boolean {
+        const minutes = hours * 60
+        return Math.abs(minutes - Math.round(minutes)) < 1e-9
+    }
+
+    private static validateDate(value: unknown, name: string): Date | ErrorResponse {
+        if (typeof value !== 'string') {
+            return {
+                error: ErrorCodes.INVALID_PARAMETERS,
+                message: `${name} parameter must be a string`,
+            }
+        }
+
+        // Check ISO 8601 format with Z suffix
+        if (!new RegExp(ISO_DATE_TIME_PATTERN).test(value)) {
+            return {
+                error: ErrorCodes.INVALID_DATE_FORMAT,
+                message: `${name} must be in ISO 8601 format with Z suffix (e.g., 2025-08-01T14:00:00Z)`,
+            }
+        }
+
+        const parsedDate = new Date(value)
+        if (isNaN(parsedDate.getTime())) {
+            return {
+                error: ErrorCodes.INVALID_DATE_FORMAT,
+                message: 'Invalid date',
+            }
+        }
+
+        return parsedDate
+    }
+
     public static createInternalError(message: string): ErrorResponse {
         return {
             error: ErrorCodes.INTERNAL_ERROR,